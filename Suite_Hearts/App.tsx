@@ -10,6 +10,7 @@ import SignUpScreen from './screens/SignUpScreen';
 import HomeScreen from './screens/HomeScreen';
 import ConversationScreen from './screens/ConversationScreen';
 import ListingDetailScreen from './screens/ListingDetailScreen';
+import ReportReviewScreen from './screens/ReportReviewScreen';
 
 const Stack = createStackNavigator();
 
@@ -25,6 +26,9 @@ export default function App() {
             <Stack.Screen name="SignUp" component={SignUpScreen} />
             <Stack.Screen name="Home" component={HomeScreen} />
             <Stack.Screen name="Conversation" component={ConversationScreen} />
+            {/* Also at the root so chats (outside the Home tabs) can open a listing */}
+            <Stack.Screen name="ListingDetail" component={ListingDetailScreen} />
+            <Stack.Screen name="ReportReview" component={ReportReviewScreen} />
           </Stack.Navigator>
         </NavigationContainer>
       </PropertyProvider>
@@ -0,0 +1,122 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../context/UserContext';
+import { CommuteMode } from '../types';
+import { COMMUTE_MODES, MAX_COMMUTE_OPTIONS, getCommuteMode } from '../lib/commute';
+
+interface Props {
+  emptyHint: string; // Shown when the user hasn't pinned a campus or office yet
+}
+
+// Travel mode + max commute chips, saved on the user so ranking and filtering agree
+export default function CommuteFilterBar({ emptyHint }: Props) {
+  const { currentUser, updateUser } = useUser();
+  if (!currentUser || currentUser.userType !== 'searcher') return null;
+
+  const anchors = currentUser.commuteAnchors || [];
+  if (anchors.length === 0) {
+    return (
+      <View style={styles.hintRow}>
+        <Ionicons name="navigate-circle-outline" size={18} color="#A68B7B" />
+        <Text style={styles.hintText}>{emptyHint}</Text>
+      </View>
+    );
+  }
+
+  const mode = getCommuteMode(currentUser);
+  const maxMinutes = currentUser.maxCommuteMinutes;
+
+  const save = (updates: { commuteMode?: CommuteMode; maxCommuteMinutes?: number }) => {
+    updateUser(currentUser.id, updates).catch(error => {
+      console.error('Error saving commute settings:', error);
+    });
+  };
+
+  // Cycles Any → 15 → 30 → 45 → 60 → Any
+  const handleMaxPress = () => {
+    const index = maxMinutes ? MAX_COMMUTE_OPTIONS.indexOf(maxMinutes) : -1;
+    const next = MAX_COMMUTE_OPTIONS[index + 1];
+    save({ maxCommuteMinutes: next });
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.bar}
+      contentContainerStyle={styles.container}
+    >
+      {COMMUTE_MODES.map(option => {
+        const selected = option.mode === mode;
+        return (
+          <TouchableOpacity
+            key={option.mode}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => save({ commuteMode: option.mode })}
+            activeOpacity={0.7}
+          >
+            <Ionicons name={option.icon as any} size={16} color={selected ? '#FFFFFF' : '#6F4E37'} />
+            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+      <TouchableOpacity
+        style={[styles.chip, !!maxMinutes && styles.chipSelected]}
+        onPress={handleMaxPress}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="time-outline" size={16} color={maxMinutes ? '#FFFFFF' : '#6F4E37'} />
+        <Text style={[styles.chipText, !!maxMinutes && styles.chipTextSelected]}>
+          {maxMinutes ? `≤ ${maxMinutes} min` : 'Any commute'}
+        </Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexGrow: 0,
+  },
+  container: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#FF6B35',
+    borderColor: '#FF6B35',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#6F4E37',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  hintRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#A68B7B',
+  },
+});
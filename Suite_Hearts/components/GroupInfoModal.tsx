@@ -0,0 +1,430 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, ScrollView, TextInput, Image, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Conversation, User, Listing } from '../types';
+import { useUser } from '../context/UserContext';
+import { useProperties } from '../context/PropertyContext';
+import { MAX_GROUP_PARTICIPANTS } from '../lib/messageService';
+import { computeGroupCompatibility, recommendListingsForGroup, getBedroomsNeeded } from '../lib/groupCompatibility';
+
+// Listings suggested for the group
+const MAX_GROUP_LISTINGS = 3;
+
+interface GroupInfoModalProps {
+  visible: boolean;
+  onClose: () => void;
+  conversation: Conversation;
+  onLeave: () => void; // Called after the current user leaves the group
+  onListingPress?: (listing: Listing) => void;
+}
+
+export default function GroupInfoModal({ visible, onClose, conversation, onLeave, onListingPress }: GroupInfoModalProps) {
+  const {
+    currentUser,
+    getUserById,
+    getConversationsForUser,
+    blockedUserIds,
+    hiddenListingIds,
+    renameGroup,
+    addParticipantToGroup,
+    removeParticipantFromGroup,
+  } = useUser();
+  const { properties } = useProperties();
+  const [groupName, setGroupName] = useState(conversation.groupName || '');
+
+  useEffect(() => {
+    if (visible) {
+      setGroupName(conversation.groupName || '');
+    }
+  }, [visible, conversation.groupName]);
+
+  const members = useMemo(
+    () => conversation.participants
+      .map(id => getUserById(id))
+      .filter((u): u is User => !!u),
+    [conversation.participants, getUserById]
+  );
+  const isFull = conversation.participants.length >= MAX_GROUP_PARTICIPANTS;
+
+  const compatibility = useMemo(
+    () => (members.length >= 2 ? computeGroupCompatibility(members) : null),
+    [members]
+  );
+
+  const groupListings = useMemo(() => {
+    if (members.length < 2) return [];
+    const listings = properties.filter(p => !hiddenListingIds.has(p.id));
+    return recommendListingsForGroup(members, listings, MAX_GROUP_LISTINGS);
+  }, [members, properties, hiddenListingIds]);
+
+  // People the user already chats with who aren't in this group yet
+  const addableContacts = useMemo<User[]>(() => {
+    if (!currentUser) return [];
+    const contactIds = new Set<string>();
+    getConversationsForUser(currentUser.id).forEach(conv => {
+      conv.participants.forEach(id => {
+        if (id !== currentUser.id && !conversation.participants.includes(id) && !blockedUserIds.has(id)) {
+          contactIds.add(id);
+        }
+      });
+    });
+    return Array.from(contactIds)
+      .map(id => getUserById(id))
+      .filter((u): u is User => !!u);
+  }, [currentUser, conversation.participants, blockedUserIds, getConversationsForUser, getUserById]);
+
+  if (!currentUser) return null;
+
+  const handleRename = async () => {
+    if (!groupName.trim()) {
+      Alert.alert('Error', 'Please enter a group name.');
+      return;
+    }
+    await renameGroup(conversation.id, groupName);
+  };
+
+  const handleAdd = async (user: User) => {
+    if (isFull) {
+      Alert.alert('Limit', `Group chats can have a maximum of ${MAX_GROUP_PARTICIPANTS} people total.`);
+      return;
+    }
+    await addParticipantToGroup(conversation.id, user.id);
+  };
+
+  const handleRemove = (user: User) => {
+    Alert.alert(
+      'Remove Member',
+      `Remove ${user.name} from ${conversation.groupName || 'this group'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await removeParticipantFromGroup(conversation.id, user.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLeave = () => {
+    Alert.alert(
+      'Leave Group',
+      'You will stop receiving messages from this group.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            await removeParticipantFromGroup(conversation.id, currentUser.id);
+            onClose();
+            onLeave();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderAvatar = (user: User) => (
+    <View style={styles.avatar}>
+      {user.profilePicture ? (
+        <Image source={{ uri: user.profilePicture }} style={styles.avatarImage} />
+      ) : (
+        <Text style={styles.avatarText}>{user.name[0]?.toUpperCase()}</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Group Info</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#6F4E37" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionLabel}>Group Name</Text>
+            <View style={styles.renameRow}>
+              <TextInput
+                style={styles.nameInput}
+                value={groupName}
+                onChangeText={setGroupName}
+                placeholder="Enter group name"
+                placeholderTextColor="#A68B7B"
+              />
+              <TouchableOpacity
+                style={[styles.saveButton, groupName.trim() === (conversation.groupName || '') && styles.saveButtonDisabled]}
+                onPress={handleRename}
+                disabled={groupName.trim() === (conversation.groupName || '')}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.sectionLabel}>
+              Members ({conversation.participants.length}/{MAX_GROUP_PARTICIPANTS})
+            </Text>
+            {members.map(user => (
+              <View key={user.id} style={styles.memberRow}>
+                {renderAvatar(user)}
+                <Text style={styles.memberName}>
+                  {user.id === currentUser.id ? `${user.name} (You)` : user.name}
+                </Text>
+                {user.id !== currentUser.id && (
+                  <TouchableOpacity onPress={() => handleRemove(user)}>
+                    <Ionicons name="remove-circle-outline" size={24} color="#FF3B30" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+
+            {compatibility && (
+              <>
+                <Text style={styles.sectionLabel}>Household Compatibility</Text>
+                <View style={styles.compatibilityCard}>
+                  <Text style={styles.compatibilityScore}>
+                    {Math.round(compatibility.score * 100)}% compatible
+                  </Text>
+                  {compatibility.weakestLink && compatibility.pairs.length > 1 && (
+                    <View style={styles.compatibilityRow}>
+                      <Ionicons name="git-compare-outline" size={18} color="#6F4E37" />
+                      <Text style={styles.compatibilityText}>
+                        Weakest link: {compatibility.weakestLink.userA.name} & {compatibility.weakestLink.userB.name} (
+                        {Math.round(compatibility.weakestLink.score * 100)}%)
+                        {compatibility.weakestLink.conflicts[0] ? ` - ${compatibility.weakestLink.conflicts[0]}` : ''}
+                      </Text>
+                    </View>
+                  )}
+                  <View style={styles.compatibilityRow}>
+                    <Ionicons name="cash-outline" size={18} color="#6F4E37" />
+                    <Text style={styles.compatibilityText}>
+                      {compatibility.budgetWindow
+                        ? `Shared budget: $${compatibility.budgetWindow.min}-$${compatibility.budgetWindow.max} per person`
+                        : "Budgets don't overlap (or aren't set)"}
+                    </Text>
+                  </View>
+                  {compatibility.issues.map((issue, index) => (
+                    <View key={`${issue.userId}-${index}`} style={styles.compatibilityRow}>
+                      <Ionicons name="alert-circle-outline" size={18} color="#FF3B30" />
+                      <Text style={styles.compatibilityText}>{issue.message}</Text>
+                    </View>
+                  ))}
+                </View>
+
+                <Text style={styles.sectionLabel}>
+                  Places for This Group ({getBedroomsNeeded(members)}+ bedrooms)
+                </Text>
+                {groupListings.length === 0 ? (
+                  <Text style={styles.hintText}>No listings fit the group's combined budget and size yet.</Text>
+                ) : (
+                  groupListings.map(({ item, score }) => (
+                    <TouchableOpacity
+                      key={item.id}
+                      style={styles.memberRow}
+                      disabled={!onListingPress}
+                      onPress={() => {
+                        if (onListingPress) {
+                          onClose();
+                          onListingPress(item);
+                        }
+                      }}
+                    >
+                      <Ionicons name="home-outline" size={24} color="#6F4E37" />
+                      <View style={styles.listingInfo}>
+                        <Text style={styles.memberName} numberOfLines={1}>{item.address}, {item.city}</Text>
+                        <Text style={styles.hintText}>
+                          ${item.price}/mo · {item.bedrooms} bd · {Math.round(score * 100)}% fit
+                        </Text>
+                      </View>
+                      <Ionicons name="chevron-forward" size={20} color="#A68B7B" />
+                    </TouchableOpacity>
+                  ))
+                )}
+              </>
+            )}
+
+            <Text style={styles.sectionLabel}>Add Members</Text>
+            {isFull ? (
+              <Text style={styles.hintText}>
+                This group is full. Group chats can have up to {MAX_GROUP_PARTICIPANTS} people.
+              </Text>
+            ) : addableContacts.length === 0 ? (
+              <Text style={styles.hintText}>Start a chat with someone to add them here.</Text>
+            ) : (
+              addableContacts.map(user => (
+                <TouchableOpacity key={user.id} style={styles.memberRow} onPress={() => handleAdd(user)}>
+                  {renderAvatar(user)}
+                  <Text style={styles.memberName}>{user.name}</Text>
+                  <Ionicons name="add-circle-outline" size={24} color="#FF6B35" />
+                </TouchableOpacity>
+              ))
+            )}
+
+            <TouchableOpacity style={styles.leaveButton} onPress={handleLeave}>
+              <Ionicons name="exit-outline" size={20} color="#FF3B30" />
+              <Text style={styles.leaveButtonText}>Leave Group</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#FFF5E1',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '85%',
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8D5C4',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#6F4E37',
+  },
+  modalBody: {
+    paddingHorizontal: 20,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6F4E37',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  nameInput: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    color: '#6F4E37',
+  },
+  saveButton: {
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFF5E1',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 8,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#6F4E37',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  avatarImage: {
+    width: 36,
+    height: 36,
+  },
+  avatarText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF5E1',
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#6F4E37',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#A68B7B',
+  },
+  compatibilityCard: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  compatibilityScore: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FF6B35',
+  },
+  compatibilityRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  compatibilityText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#6F4E37',
+  },
+  listingInfo: {
+    flex: 1,
+  },
+  leaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 24,
+    paddingVertical: 14,
+    borderWidth: 2,
+    borderColor: '#FF3B30',
+    borderRadius: 12,
+  },
+  leaveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+});
@@ -3,20 +3,24 @@ import { StyleSheet, View, Text, Image, Animated, PanResponder, Dimensions, Scro
 import { Ionicons } from '@expo/vector-icons';
 import { Listing } from '../types';
 import { getRandomRealEstatePhotos } from '../lib/photoUtils';
+import { Recommendation } from '../lib/recommender';
+import MatchBreakdown from './MatchBreakdown';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const SWIPE_THRESHOLD = SCREEN_WIDTH * 0.25;
 
 interface Props {
   listing: Listing;
+  match?: Recommendation<Listing>; // How well the listing fits the current user, if scored
   onSwipeLeft: () => void;
   onSwipeRight: () => void;
   isExpanded?: boolean;
   onExpand?: () => void;
   onSwipeTrigger?: (triggerFn: (direction: 'left' | 'right') => void) => void;
+  onReport?: () => void;
 }
 
-export default function ListingCard({ listing, onSwipeLeft, onSwipeRight, isExpanded = false, onExpand, onSwipeTrigger }: Props) {
+export default function ListingCard({ listing, match, onSwipeLeft, onSwipeRight, isExpanded = false, onExpand, onSwipeTrigger, onReport }: Props) {
   const pan = useRef(new Animated.ValueXY()).current;
   const rotate = useRef(new Animated.Value(0)).current;
   const swipeTriggered = useRef(false);
@@ -25,8 +29,8 @@ export default function ListingCard({ listing, onSwipeLeft, onSwipeRight, isExpa
   const photoSwipeTriggered = useRef(false);
 
   // Get photos: user-uploaded photos take priority, otherwise use random photos
-  // External listings (no ownerId) only get ONE photo
-  const isExternalListing = !listing.ownerId || listing.ownerId === '';
+  // External listings only get ONE photo
+  const isExternalListing = listing.source === 'external';
   const maxPhotos = isExternalListing ? 1 : 4;
   const photos = listing.photos && listing.photos.length > 0 
     ? listing.photos.slice(0, maxPhotos) // Max 4 photos for user listings, 1 for external
@@ -286,6 +290,11 @@ export default function ListingCard({ listing, onSwipeLeft, onSwipeRight, isExpa
       >
         <View style={styles.header}>
           <Text style={styles.price}>${listing.price.toLocaleString()}</Text>
+          {onReport && (
+            <TouchableOpacity onPress={onReport} style={styles.reportButton} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Ionicons name="flag-outline" size={22} color="#A68B7B" />
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.addressSection}>
@@ -295,6 +304,8 @@ export default function ListingCard({ listing, onSwipeLeft, onSwipeRight, isExpa
           </Text>
         </View>
 
+        {match && <MatchBreakdown match={match} variant="listing" />}
+
         {listing.bedrooms && listing.bathrooms && (
           <View style={styles.detailsRow}>
             <View style={styles.detailItem}>
@@ -434,8 +445,14 @@ const styles = StyleSheet.create({
     paddingBottom: 20,
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     marginBottom: 12,
   },
+  reportButton: {
+    padding: 4,
+  },
   price: {
     fontSize: 36,
     fontWeight: '700',
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Recommendation, getMatchHighlights } from '../lib/recommender';
+
+// How many shared traits / conflicts to list
+const MAX_HIGHLIGHTS = 3;
+
+// Wording per kind of match
+const LABELS = {
+  roommate: { badge: 'match', toggle: 'Why you matched', positives: 'What you share', negatives: 'Possible conflicts' },
+  listing: { badge: 'fit', toggle: 'Why this place', positives: 'What fits', negatives: 'Drawbacks' },
+};
+
+interface Props {
+  match: Recommendation<unknown>;
+  variant?: 'roommate' | 'listing';
+  initiallyExpanded?: boolean;
+}
+
+export default function MatchBreakdown({ match, variant = 'roommate', initiallyExpanded = false }: Props) {
+  const labels = LABELS[variant];
+  const [expanded, setExpanded] = useState(initiallyExpanded);
+  const { sharedTraits, conflicts } = getMatchHighlights(match.breakdown, MAX_HIGHLIGHTS);
+  const percentage = Math.round(match.score * 100);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded(prev => !prev)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.scoreBadge}>
+          <Ionicons name="heart" size={14} color="#FFF5E1" />
+          <Text style={styles.scoreText}>{percentage}% {labels.badge}</Text>
+        </View>
+        <Text style={styles.toggleText}>{labels.toggle}</Text>
+        <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={18} color="#6F4E37" />
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.body}>
+          {match.directionalScores && (
+            <Text style={styles.directionalText}>
+              Fit for you {Math.round(match.directionalScores.forUser * 100)}% · Fit for them{' '}
+              {Math.round(match.directionalScores.forCandidate * 100)}%
+            </Text>
+          )}
+          {sharedTraits.length === 0 && conflicts.length === 0 ? (
+            <Text style={styles.emptyText}>Not enough profile info to compare yet.</Text>
+          ) : (
+            <>
+              {sharedTraits.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionLabel}>{labels.positives}</Text>
+                  {sharedTraits.map(trait => (
+                    <View key={trait.id} style={styles.reasonRow}>
+                      <Ionicons name="checkmark-circle" size={18} color="#4CAF50" />
+                      <Text style={styles.reasonText}>{trait.reason}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              {conflicts.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionLabel}>{labels.negatives}</Text>
+                  {conflicts.map(conflict => (
+                    <View key={conflict.id} style={styles.reasonRow}>
+                      <Ionicons name="alert-circle" size={18} color="#FF3B30" />
+                      <Text style={styles.reasonText}>{conflict.reason}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFF5E1',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    padding: 12,
+    marginBottom: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scoreBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  scoreText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#FFF5E1',
+  },
+  toggleText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6F4E37',
+  },
+  body: {
+    marginTop: 12,
+    gap: 12,
+  },
+  section: {
+    gap: 6,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#A68B7B',
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#6F4E37',
+  },
+  directionalText: {
+    fontSize: 13,
+    color: '#A68B7B',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#A68B7B',
+  },
+});
@@ -0,0 +1,172 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { User } from '../types';
+import { useUser } from '../context/UserContext';
+
+interface MatchCelebrationModalProps {
+  onSendMessage: (matchedUser: User) => void;
+}
+
+export default function MatchCelebrationModal({ onSendMessage }: MatchCelebrationModalProps) {
+  const { currentUser, activeMatchEvent, dismissMatchEvent, getUserById } = useUser();
+
+  if (!currentUser || !activeMatchEvent) {
+    return null;
+  }
+
+  const matchedUserId =
+    activeMatchEvent.user1Id === currentUser.id ? activeMatchEvent.user2Id : activeMatchEvent.user1Id;
+  const matchedUser = getUserById(matchedUserId);
+
+  const handleSendMessage = () => {
+    dismissMatchEvent();
+    if (matchedUser) {
+      onSendMessage(matchedUser);
+    }
+  };
+
+  const renderAvatar = (user: User | undefined) => (
+    <View style={styles.avatarContainer}>
+      {user?.profilePicture ? (
+        <Image source={{ uri: user.profilePicture }} style={styles.avatarImage} />
+      ) : (
+        <Ionicons name="person" size={48} color="#E8D5C4" />
+      )}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={true}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={dismissMatchEvent}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.avatarsRow}>
+            {renderAvatar(currentUser)}
+            <View style={styles.heartBadge}>
+              <Ionicons name="heart" size={28} color="#FFF5E1" />
+            </View>
+            {renderAvatar(matchedUser)}
+          </View>
+          <Text style={styles.title}>It's a match!</Text>
+          <Text style={styles.subtitle}>
+            You and {matchedUser?.name || 'your new match'} both want to live together.
+            We started a conversation for you.
+          </Text>
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity style={styles.noButton} onPress={dismissMatchEvent}>
+              <Text style={styles.noButtonText}>Keep Swiping</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.yesButton, !matchedUser && styles.yesButtonDisabled]}
+              onPress={handleSendMessage}
+              disabled={!matchedUser}
+            >
+              <Text style={styles.yesButtonText}>Send a Message</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#FFF5E1',
+    borderRadius: 20,
+    padding: 32,
+    width: '100%',
+    maxWidth: 400,
+    alignItems: 'center',
+  },
+  avatarsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  avatarContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#FFE5D9',
+    borderWidth: 3,
+    borderColor: '#FF6B35',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  avatarImage: {
+    width: '100%',
+    height: '100%',
+  },
+  heartBadge: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#FF6B35',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: -12,
+    zIndex: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#6F4E37',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#A68B7B',
+    textAlign: 'center',
+    marginBottom: 32,
+    lineHeight: 24,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  noButton: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  noButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6F4E37',
+  },
+  yesButton: {
+    flex: 1,
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  yesButtonDisabled: {
+    opacity: 0.5,
+  },
+  yesButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF5E1',
+  },
+});
@@ -3,7 +3,9 @@ import { StyleSheet, View, Text, TouchableOpacity, TextInput, Modal, ScrollView,
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
-import { User } from '../types';
+import { User, MatchPriorities, DealbreakerId } from '../types';
+import { MATCH_PRIORITIES, PRIORITY_LEVEL_LABELS, MIN_PRIORITY, MAX_PRIORITY, getPriorityLevel } from '../lib/matchPriorities';
+import { DEALBREAKERS } from '../lib/dealbreakers';
 
 interface ProfileEditModalProps {
   visible: boolean;
@@ -42,6 +44,8 @@ export default function ProfileEditModal({ visible, field, value, user, onClose,
   const [selectedSpaceTypes, setSelectedSpaceTypes] = useState<string[]>([]);
   const [selectedFriendliness, setSelectedFriendliness] = useState<number>(5);
   const [selectedCleanliness, setSelectedCleanliness] = useState<number>(5);
+  const [selectedPriorities, setSelectedPriorities] = useState<MatchPriorities>({});
+  const [selectedDealbreakers, setSelectedDealbreakers] = useState<string[]>([]);
   const friendlinessScrollRef = useRef<ScrollView>(null);
   const cleanlinessScrollRef = useRef<ScrollView>(null);
   const ageScrollInitialized = useRef<boolean>(false);
@@ -127,6 +131,12 @@ export default function ProfileEditModal({ visible, field, value, user, onClose,
         setSelectedCleanliness(isNaN(cleanlinessValue) ? 5 : Math.max(1, Math.min(10, cleanlinessValue)));
       } else if (field === 'guestsAllowed') {
         setSelectedOption(value || '');
+      } else if (field === 'matchPriorities') {
+        setSelectedPriorities(value && typeof value === 'object' ? value : {});
+      } else if (field === 'dealbreakers') {
+        // Stored as IDs, shown as labels
+        const ids: string[] = Array.isArray(value) ? value : [];
+        setSelectedDealbreakers(DEALBREAKERS.filter(d => ids.includes(d.id)).map(d => d.label));
       } else if (typeof value === 'string' || typeof value === 'number') {
         setInputValue(String(value || ''));
         setSelectedOption(String(value || ''));
@@ -391,6 +401,12 @@ export default function ProfileEditModal({ visible, field, value, user, onClose,
         ],
       },
       budget: { label: 'Monthly Budget', type: 'budget', placeholder: 'Enter budget range' },
+      matchPriorities: { label: 'What Matters Most to Me', type: 'priorities' },
+      dealbreakers: {
+        label: 'Dealbreakers',
+        type: 'checklist',
+        options: DEALBREAKERS.map(d => d.label),
+      },
       profilePicture: { label: 'Profile Picture', type: 'image' },
     };
     return configs[field] || { label: field, type: 'text' };
@@ -466,13 +482,25 @@ export default function ProfileEditModal({ visible, field, value, user, onClose,
         : parseInt(String(selectedRoommates)) || 1;
       onSave(field, Math.max(1, Math.min(6, numValue)));
     } else if (config.type === 'checklist') {
-      onSave(field, selectedSpaceTypes);
+      if (field === 'dealbreakers') {
+        const ids: DealbreakerId[] = DEALBREAKERS.filter(d => selectedDealbreakers.includes(d.label)).map(d => d.id);
+        onSave(field, ids);
+      } else {
+        onSave(field, selectedSpaceTypes);
+      }
     } else if (config.type === 'slider') {
       if (field === 'friendliness') {
         onSave(field, selectedFriendliness);
       } else if (field === 'cleanliness') {
         onSave(field, selectedCleanliness);
       }
+    } else if (config.type === 'priorities') {
+      // Store every priority so the profile reflects exactly what was shown
+      const priorities: MatchPriorities = {};
+      MATCH_PRIORITIES.forEach(({ key }) => {
+        priorities[key] = getPriorityLevel(selectedPriorities, key);
+      });
+      onSave(field, priorities);
     } else if (config.type === 'jobRole' || config.type === 'jobPlace') {
       onSave(field, inputValue.trim());
     } else if (config.type === 'dropdown') {
@@ -740,19 +768,26 @@ export default function ProfileEditModal({ visible, field, value, user, onClose,
     }
 
     if (config.type === 'checklist') {
+      const selectedItems = field === 'dealbreakers' ? selectedDealbreakers : selectedSpaceTypes;
+      const setSelectedItems = field === 'dealbreakers' ? setSelectedDealbreakers : setSelectedSpaceTypes;
       return (
         <View style={styles.checklistContainer}>
+          {field === 'dealbreakers' && (
+            <Text style={styles.prioritiesHint}>
+              We'll never suggest roommates who don't meet these.
+            </Text>
+          )}
           {(config.options || []).map((item) => {
-            const isSelected = selectedSpaceTypes.includes(item);
+            const isSelected = selectedItems.includes(item);
             return (
               <TouchableOpacity
                 key={item}
                 style={[styles.checklistItem, isSelected && styles.checklistItemSelected]}
                 onPress={() => {
                   if (isSelected) {
-                    setSelectedSpaceTypes(selectedSpaceTypes.filter(s => s !== item));
+                    setSelectedItems(selectedItems.filter(s => s !== item));
                   } else {
-                    setSelectedSpaceTypes([...selectedSpaceTypes, item]);
+                    setSelectedItems([...selectedItems, item]);
                   }
                 }}
               >
@@ -870,6 +905,39 @@ export default function ProfileEditModal({ visible, field, value, user, onClose,
       );
     }
 
+    if (config.type === 'priorities') {
+      const levels = Array.from({ length: MAX_PRIORITY - MIN_PRIORITY + 1 }, (_, i) => MIN_PRIORITY + i);
+      return (
+        <View style={styles.prioritiesContainer}>
+          <Text style={styles.prioritiesHint}>
+            Tell us how much each of these matters when we suggest roommates and places.
+          </Text>
+          {MATCH_PRIORITIES.map(({ key, label, icon }) => {
+            const level = getPriorityLevel(selectedPriorities, key);
+            return (
+              <View key={key} style={styles.priorityItem}>
+                <View style={styles.priorityHeader}>
+                  <Ionicons name={icon as any} size={20} color="#6F4E37" />
+                  <Text style={styles.priorityLabel}>{label}</Text>
+                  <Text style={styles.priorityLevelText}>{PRIORITY_LEVEL_LABELS[level - 1]}</Text>
+                </View>
+                <View style={styles.priorityLevels}>
+                  {levels.map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.priorityLevel, option <= level && styles.priorityLevelSelected]}
+                      onPress={() => setSelectedPriorities({ ...selectedPriorities, [key]: option })}
+                      activeOpacity={0.7}
+                    />
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      );
+    }
+
     if (config.type === 'dropdown') {
       return (
         <View style={styles.dropdownContainer}>
@@ -1593,6 +1661,52 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontSize: 16,
   },
+  prioritiesContainer: {
+    gap: 12,
+    marginBottom: 20,
+  },
+  prioritiesHint: {
+    fontSize: 14,
+    color: '#A68B7B',
+    marginBottom: 4,
+  },
+  priorityItem: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: '#E8D5C4',
+    gap: 12,
+  },
+  priorityHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  priorityLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6F4E37',
+  },
+  priorityLevelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF6B35',
+  },
+  priorityLevels: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  priorityLevel: {
+    flex: 1,
+    height: 24,
+    borderRadius: 6,
+    backgroundColor: '#E8D5C4',
+  },
+  priorityLevelSelected: {
+    backgroundColor: '#FF6B35',
+  },
   modalFooter: {
     flexDirection: 'row',
     padding: 20,
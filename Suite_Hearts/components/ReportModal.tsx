@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, ScrollView, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Message, Report, ReportReason } from '../types';
+import { useUser } from '../context/UserContext';
+import { REPORT_REASONS, hasOpenReport } from '../lib/reportService';
+
+interface ReportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  targetType: Report['targetType'];
+  targetId: string;
+  targetName: string;
+  messages?: Message[]; // Messages from the reported user that can be attached to the report
+}
+
+const MAX_DETAILS_LENGTH = 500;
+
+export default function ReportModal({ visible, onClose, targetType, targetId, targetName, messages = [] }: ReportModalProps) {
+  const { currentUser, reports, submitReport } = useUser();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [selectedMessageIds, setSelectedMessageIds] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from a blank form every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setDetails('');
+      setSelectedMessageIds([]);
+      setIsSubmitting(false);
+    }
+  }, [visible, targetId]);
+
+  const reasons = REPORT_REASONS.filter(r => r.targets.includes(targetType));
+  const alreadyReported = !!currentUser && hasOpenReport(reports, currentUser.id, targetType, targetId);
+
+  const toggleMessage = (messageId: string) => {
+    setSelectedMessageIds(prev =>
+      prev.includes(messageId) ? prev.filter(id => id !== messageId) : [...prev, messageId]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      Alert.alert('Choose a Reason', 'Please choose why you are reporting this.');
+      return;
+    }
+    if (reason === 'other' && !details.trim()) {
+      Alert.alert('Add Details', 'Please tell us a little about what happened.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const report = await submitReport(targetType, targetId, reason, details, selectedMessageIds);
+    setIsSubmitting(false);
+
+    if (!report) {
+      Alert.alert('Error', 'You need to be logged in to send a report.');
+      return;
+    }
+
+    onClose();
+    Alert.alert(
+      'Report Sent',
+      'Thanks for letting us know. Our team will review this report.'
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              Report {targetType === 'user' ? targetName : 'Listing'}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color="#6F4E37" />
+            </TouchableOpacity>
+          </View>
+
+          {alreadyReported ? (
+            <View style={styles.alreadyReported}>
+              <Ionicons name="checkmark-circle" size={48} color="#FF6B35" />
+              <Text style={styles.alreadyReportedText}>
+                You already reported this {targetType === 'user' ? 'person' : 'listing'}. Our team is reviewing it.
+              </Text>
+            </View>
+          ) : (
+            <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+              <Text style={styles.sectionLabel}>Why are you reporting this?</Text>
+              {reasons.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.reasonOption, reason === option.value && styles.reasonOptionSelected]}
+                  onPress={() => setReason(option.value)}
+                >
+                  <Ionicons
+                    name={reason === option.value ? 'radio-button-on' : 'radio-button-off'}
+                    size={20}
+                    color={reason === option.value ? '#FF6B35' : '#A68B7B'}
+                  />
+                  <Text style={styles.reasonText}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+
+              <Text style={styles.sectionLabel}>Tell us more (optional)</Text>
+              <TextInput
+                style={styles.detailsInput}
+                value={details}
+                onChangeText={setDetails}
+                placeholder="What happened?"
+                placeholderTextColor="#A68B7B"
+                multiline
+                maxLength={MAX_DETAILS_LENGTH}
+              />
+
+              {messages.length > 0 && (
+                <>
+                  <Text style={styles.sectionLabel}>Attach messages (optional)</Text>
+                  {messages.map(message => {
+                    const isSelected = selectedMessageIds.includes(message.id);
+                    return (
+                      <TouchableOpacity
+                        key={message.id}
+                        style={[styles.messageOption, isSelected && styles.reasonOptionSelected]}
+                        onPress={() => toggleMessage(message.id)}
+                      >
+                        <Ionicons
+                          name={isSelected ? 'checkbox' : 'square-outline'}
+                          size={20}
+                          color={isSelected ? '#FF6B35' : '#A68B7B'}
+                        />
+                        <Text style={styles.messageText} numberOfLines={2}>
+                          {message.text || (message.imageUrl ? 'Photo' : '')}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </>
+              )}
+            </ScrollView>
+          )}
+
+          <View style={styles.modalFooter}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>{alreadyReported ? 'Close' : 'Cancel'}</Text>
+            </TouchableOpacity>
+            {!alreadyReported && (
+              <TouchableOpacity
+                style={[styles.submitButton, (!reason || isSubmitting) && styles.submitButtonDisabled]}
+                onPress={handleSubmit}
+                disabled={!reason || isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator color="#FFF5E1" />
+                ) : (
+                  <Text style={styles.submitButtonText}>Submit Report</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#FFF5E1',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '85%',
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8D5C4',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#6F4E37',
+  },
+  modalBody: {
+    paddingHorizontal: 20,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6F4E37',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  reasonOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  reasonOptionSelected: {
+    borderColor: '#FF6B35',
+    backgroundColor: '#FFE5D9',
+  },
+  reasonText: {
+    fontSize: 15,
+    color: '#6F4E37',
+  },
+  detailsInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    padding: 14,
+    minHeight: 100,
+    fontSize: 15,
+    color: '#6F4E37',
+    textAlignVertical: 'top',
+  },
+  messageOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  messageText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#6F4E37',
+  },
+  alreadyReported: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  alreadyReportedText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#A68B7B',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6F4E37',
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: '#FF3B30',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFF5E1',
+  },
+});
@@ -2,21 +2,25 @@ import React, { useRef, useEffect, useCallback } from 'react';
 import { StyleSheet, View, Text, Image, Animated, PanResponder, Dimensions, ScrollView, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { User } from '../types';
+import { Recommendation } from '../lib/recommender';
+import MatchBreakdown from './MatchBreakdown';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const SWIPE_THRESHOLD = SCREEN_WIDTH * 0.25;
 
 interface Props {
   user: User;
+  match?: Recommendation<User>; // Compatibility with the current user, if scored
   onSwipeLeft: () => void;
   onSwipeRight: () => void;
   isExpanded?: boolean;
   onExpand?: () => void;
   onSwipeTrigger?: (triggerFn: (direction: 'left' | 'right') => void) => void;
   onPromptPress?: (prompt: { id: string; promptText: string; answer: string }) => void;
+  onReport?: () => void;
 }
 
-export default function RoommateCard({ user, onSwipeLeft, onSwipeRight, isExpanded = false, onExpand, onSwipeTrigger, onPromptPress }: Props) {
+export default function RoommateCard({ user, match, onSwipeLeft, onSwipeRight, isExpanded = false, onExpand, onSwipeTrigger, onPromptPress, onReport }: Props) {
   const pan = useRef(new Animated.ValueXY()).current;
   const rotate = useRef(new Animated.Value(0)).current;
   const swipeTriggered = useRef(false);
@@ -195,8 +199,15 @@ export default function RoommateCard({ user, onSwipeLeft, onSwipeRight, isExpand
           <Text style={styles.nameAge}>
             {user.name}{user.age ? `, ${user.age}` : ''}
           </Text>
+          {onReport && (
+            <TouchableOpacity onPress={onReport} style={styles.reportButton} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Ionicons name="flag-outline" size={22} color="#A68B7B" />
+            </TouchableOpacity>
+          )}
         </View>
 
+        {match && <MatchBreakdown match={match} />}
+
         <View style={styles.details}>
           <View style={styles.detailRow}>
             <Ionicons name="briefcase" size={20} color="#6F4E37" />
@@ -327,9 +338,16 @@ const styles = StyleSheet.create({
     paddingBottom: 20,
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     marginBottom: 12,
   },
+  reportButton: {
+    padding: 4,
+  },
   nameAge: {
+    flex: 1,
     fontSize: 32,
     fontWeight: '700',
     color: '#6F4E37',
@@ -1,38 +1,62 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Property, searchProperties } from '../lib/datafiniti';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Listing } from '../types';
+import { loadCachedProperties, saveCachedProperties, isCacheFresh } from '../lib/propertyCache';
+import {
+  ListingProvider,
+  getActiveListingProviders,
+  searchListingProviders,
+  getListingFromProviders,
+} from '../lib/listingProviders';
 
 interface PropertyContextType {
-  properties: Property[];
-  loading: boolean;
+  properties: Listing[]; // External listings from the active providers
+  loading: boolean; // True only until there is something to show
+  refreshing: boolean; // True while a network fetch runs, including background refreshes
   error: string | null;
   selectedPropertyId: string | null;
   setSelectedPropertyId: (id: string | null) => void;
   refreshProperties: () => Promise<void>;
+  getPropertyById: (id: string) => Promise<Listing | null>;
+  providers: ListingProvider[]; // Where the properties come from (set by environment config)
 }
 
 const PropertyContext = createContext<PropertyContextType | undefined>(undefined);
 
 export function PropertyProvider({ children }: { children: ReactNode }) {
-  const [properties, setProperties] = useState<Property[]>([]);
+  const [properties, setProperties] = useState<Listing[]>([]);
   const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const hasPropertiesRef = useRef(false);
+  // Picked once; changing EXPO_PUBLIC_LISTING_PROVIDERS needs an app restart anyway
+  const [providers] = useState(getActiveListingProviders);
+  const cacheKey = providers.map(provider => provider.id).join(',');
 
   // Fetch properties ONCE on mount
   // Never refetch on re-render, never fetch inside render functions
-  const fetchProperties = async () => {
+  // Whatever is shown while a fetch runs (e.g. cached properties) is kept if it fails
+  const fetchProperties = async (forceRefresh: boolean = false) => {
     console.log('[PropertyContext] Starting property fetch...');
     try {
-      setLoading(true);
+      setRefreshing(true);
       setError(null);
-      console.log('[PropertyContext] Calling searchProperties...');
-      // Note: searchProperties makes 5 separate API calls (2 SF + 3 other cities)
-      // The num_records parameter is overridden in individual calls (1 per call)
-      const data = await searchProperties();
+      console.log('[PropertyContext] Searching listing providers:', cacheKey);
+      const { listings: data, errors } = await searchListingProviders(providers, { forceRefresh });
+      // Every provider failing is an error; keep whatever is already shown
+      if (errors.length > 0 && errors.length === providers.length) {
+        const firstError = errors[0].error;
+        throw firstError instanceof Error ? firstError : new Error('Failed to fetch properties');
+      }
       console.log('[PropertyContext] Properties fetched successfully:', data.length);
-      setProperties(data);
-      if (data.length === 0) {
-        console.warn('Warning [PropertyContext] No properties returned from API');
+      if (data.length > 0 || !hasPropertiesRef.current) {
+        setProperties(data);
+        hasPropertiesRef.current = data.length > 0;
+      }
+      if (data.length > 0) {
+        await saveCachedProperties(cacheKey, data);
+      } else {
+        console.warn('Warning [PropertyContext] No properties returned from listing providers');
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch properties';
@@ -44,21 +68,41 @@ export function PropertyProvider({ children }: { children: ReactNode }) {
           stack: err.stack,
         });
       }
-      // Set empty array on error so app doesn't break
-      setProperties([]);
     } finally {
+      setRefreshing(false);
       setLoading(false);
       console.log('[PropertyContext] Property fetch complete');
     }
   };
 
+  // Show persisted properties right away, then refresh them in the background if stale
+  const loadProperties = async () => {
+    const cached = await loadCachedProperties(cacheKey);
+    if (cached && cached.properties.length > 0) {
+      console.log('[PropertyContext] Serving cached properties:', cached.properties.length);
+      setProperties(cached.properties);
+      hasPropertiesRef.current = true;
+      setLoading(false);
+      if (isCacheFresh(cached)) return;
+      console.log('[PropertyContext] Cached properties are stale, refreshing in background');
+    }
+    await fetchProperties();
+  };
+
   useEffect(() => {
     // Fetch once on mount
-    fetchProperties();
+    loadProperties();
   }, []); // Empty dependency array ensures this runs only once
 
   const refreshProperties = async () => {
-    await fetchProperties();
+    await fetchProperties(true);
+  };
+
+  // Already-loaded properties first, then ask the providers
+  const getPropertyById = async (id: string): Promise<Listing | null> => {
+    const loaded = properties.find(p => p.id === id);
+    if (loaded) return loaded;
+    return getListingFromProviders(providers, id);
   };
 
   return (
@@ -66,10 +110,13 @@ export function PropertyProvider({ children }: { children: ReactNode }) {
       value={{
         properties,
         loading,
+        refreshing,
         error,
         selectedPropertyId,
         setSelectedPropertyId,
         refreshProperties,
+        getPropertyById,
+        providers,
       }}
     >
       {children}
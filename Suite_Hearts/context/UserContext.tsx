@@ -1,14 +1,88 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { AppState } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { User, UserType, LookingFor, Message, Conversation } from '../types';
-import { supabase } from '../lib/supabase';
+import { User, UserType, LookingFor, Message, Conversation, Swipe, Match, Block, Report, Listing } from '../types';
+import { getRepositories, userToRow, ReadReceipt } from '../lib/repositories';
 import { mockUsers } from '../mock/mockUsers';
+import {
+  orderUserPair,
+  findReciprocalSwipe,
+  findMatchBetween,
+  getSwipedIds as getSwipedIdsFromSwipes,
+  mergeSwipes,
+  mergeMatches,
+  saveSwipeToSupabase,
+  fetchSwipesForUser,
+  fetchReciprocalSwipe,
+  saveMatchToSupabase,
+  deactivateMatchInSupabase,
+  fetchMatchesForUser,
+  subscribeToMatchChanges,
+} from '../lib/swipeService';
+import {
+  getHiddenUserIds,
+  mergeBlocks,
+  saveBlockToSupabase,
+  fetchBlocksForUser,
+} from '../lib/blockService';
+import { RankingModel, createRankingModel, trainRankingModel } from '../lib/rankingModel';
+import { scoreListing } from '../lib/recommender';
+import type { RecommendationTarget, FactorBreakdown } from '../lib/recommender';
+import {
+  mergeReports,
+  saveReportToSupabase,
+  fetchReports,
+  updateReportStatusInSupabase,
+  suspendUserInSupabase,
+  hideListingInSupabase,
+  fetchHiddenListingIds,
+} from '../lib/reportService';
+import {
+  mergeMessageIntoConversations,
+  mergeConversation,
+  subscribeToConversationChanges,
+  subscribeToConversationUpdates,
+  getWatchedConversationIds,
+  getUnreadCount,
+  applyReadReceipt,
+  markMessagesDeliveredInSupabase,
+  getUndeliveredRowId,
+  fetchUndeliveredMessages,
+  saveReadReceiptToSupabase,
+  fetchReadReceipts,
+  saveMessageToSupabase,
+  saveGroupMessageToSupabase,
+  fetchConversation,
+  MAX_GROUP_PARTICIPANTS,
+} from '../lib/messageService';
+import {
+  OutboxEntry,
+  OutboxState,
+  enqueueMessage,
+  enqueueProfileUpdate,
+  pruneProfileUpdate,
+  getWriteStamp,
+  getDueEntries,
+  markAttemptFailed,
+  resetEntry,
+  makeEntriesDue,
+  performOutboxEntry,
+  getOutboxState,
+} from '../lib/outbox';
 
 interface UserContextType {
   currentUser: User | null;
   users: User[];
   conversations: Conversation[];
   likedListings: string[];
+  swipes: Swipe[];
+  matches: Match[];
+  activeMatchEvent: Match | null;
+  unseenMatchCount: number;
+  unreadMessageCount: number;
+  blockedUserIds: Set<string>;
+  reports: Report[];
+  hiddenListingIds: Set<string>;
   isLoaded: boolean;
   setCurrentUser: (user: User | null) => void;
   addUser: (user: User) => Promise<void>;
@@ -21,16 +95,49 @@ interface UserContextType {
     searchersBoth: User[];
   };
   sendMessage: (senderId: string, receiverId: string, text: string, imageUrl?: string) => Promise<void>;
+  sendGroupMessage: (conversationId: string, senderId: string, text: string, imageUrl?: string) => Promise<void>;
   getConversation: (userId1: string, userId2: string) => Conversation | undefined;
   getConversationsForUser: (userId: string) => Conversation[];
   deleteConversation: (conversationId: string) => Promise<void>;
+  markConversationRead: (conversationId: string) => Promise<void>;
+  getPendingWriteState: (key: string) => OutboxState | undefined;
+  retryPendingWrite: (key: string) => Promise<void>;
   createGroupConversation: (participantIds: string[], groupName: string) => Promise<Conversation>;
   addParticipantToGroup: (conversationId: string, userId: string) => Promise<boolean>;
   removeParticipantFromGroup: (conversationId: string, userId: string) => Promise<boolean>;
+  renameGroup: (conversationId: string, groupName: string) => Promise<boolean>;
   deleteUser: (userId: string) => Promise<void>;
-  addLikedListing: (listingId: string) => Promise<void>;
-  removeLikedListing: (listingId: string) => Promise<void>;
+  // Liking and unliking also train the ranking model
+  addLikedListing: (listing: Listing) => Promise<void>;
+  removeLikedListing: (listing: Listing) => Promise<void>;
   isListingLiked: (listingId: string) => boolean;
+  recordSwipe: (
+    swipedId: string,
+    swipeType: Swipe['swipeType'],
+    direction: Swipe['direction'],
+    breakdown?: FactorBreakdown[]
+  ) => Promise<Match | null>;
+  rankingModel: RankingModel | null; // Learned from the current user's swipes
+  resetRankingModel: () => Promise<void>;
+  getSwipedIds: (swipeType: Swipe['swipeType']) => Set<string>;
+  getMatchesForUser: (userId: string) => Match[];
+  dismissMatchEvent: () => void;
+  markMatchesSeen: () => Promise<void>;
+  isMatchedWith: (userId: string) => boolean;
+  unmatchUser: (userId: string) => Promise<void>;
+  blockUser: (userId: string) => Promise<void>;
+  isUserBlocked: (userId: string) => boolean;
+  submitReport: (
+    targetType: Report['targetType'],
+    targetId: string,
+    reason: Report['reason'],
+    details: string,
+    messageIds?: string[]
+  ) => Promise<Report | null>;
+  refreshReports: () => Promise<void>;
+  resolveReport: (reportId: string, action: 'dismiss' | 'suspend_user' | 'hide_listing') => Promise<void>;
+  suspendUser: (userId: string) => Promise<void>;
+  hideListing: (listingId: string) => Promise<void>;
   syncUserFromSupabase: (userId: string, email: string) => Promise<void>;
   convertUserAccountType: (userId: string, newLookingFor: 'both') => Promise<void>;
 }
@@ -42,8 +149,22 @@ const STORAGE_KEYS = {
   CURRENT_USER: '@suite_hearts:current_user',
   CONVERSATIONS: '@suite_hearts:conversations',
   LIKED_LISTINGS: '@suite_hearts:liked_listings',
+  SWIPES: '@suite_hearts:swipes',
+  MATCHES: '@suite_hearts:matches',
+  NOTIFIED_MATCHES: '@suite_hearts:notified_matches',
+  UNSEEN_MATCHES: '@suite_hearts:unseen_matches',
+  BLOCKS: '@suite_hearts:blocks',
+  REPORTS: '@suite_hearts:reports',
+  HIDDEN_LISTINGS: '@suite_hearts:hidden_listings',
+  OUTBOX: '@suite_hearts:outbox',
+  RANKING_MODELS: '@suite_hearts:ranking_models',
 };
 
+// How often queued writes are checked for retry
+const OUTBOX_FLUSH_INTERVAL_MS = 15000;
+
+const MATCH_STARTER_MESSAGE = "It's a match! 💘 Say hi and start planning your place together.";
+
 // Generate a UUID v4
 const generateUUID = () => {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
@@ -57,94 +178,57 @@ export function UserProvider({ children }: { children: ReactNode }) {
   const [currentUser, setCurrentUserState] = useState<User | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  // Latest conversations for realtime callbacks, which are created once per login
+  const conversationsRef = useRef<Conversation[]>([]);
+  conversationsRef.current = conversations;
   const [likedListings, setLikedListings] = useState<string[]>([]);
+  const [swipes, setSwipes] = useState<Swipe[]>([]);
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [matchEventQueue, setMatchEventQueue] = useState<Match[]>([]);
+  const [unseenMatchIds, setUnseenMatchIds] = useState<string[]>([]);
+  const [blocks, setBlocks] = useState<Block[]>([]);
+  const [reports, setReports] = useState<Report[]>([]);
+  const [hiddenListingIdList, setHiddenListingIdList] = useState<string[]>([]);
+  // On-device ranking models, keyed by user ID. The ref is the source of truth
+  // so back-to-back swipes each train on the previous update.
+  const [rankingModels, setRankingModels] = useState<Record<string, RankingModel>>({});
+  const rankingModelsRef = useRef<Record<string, RankingModel>>({});
+  // Match IDs this device has already celebrated, so each match event fires once.
+  // Kept in a ref so back-to-back emits in the same tick see each other.
+  const notifiedMatchIdsRef = useRef<Set<string>>(new Set());
+  // True on a fresh install: matches already on the server are marked as notified
+  // silently instead of replaying a celebration for each one
+  const seedNotifiedMatchesRef = useRef(false);
+  // Failed Supabase writes waiting for retry. The ref is the source of truth so
+  // timer and AppState callbacks never work from a stale copy.
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const isFlushingOutboxRef = useRef(false);
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Sync user from Supabase helper function
   const syncUserFromSupabase = async (userId: string, email: string) => {
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', userId)
-        .single();
+      const remoteUser = await getRepositories().users.getById(userId);
 
-      if (error || !data) {
+      if (!remoteUser) {
         console.log('User not found in Supabase, using local data');
         return;
       }
 
-      // Parse space_type if it's a JSON string
-      let spaceType: string | string[] | undefined = undefined;
-      if (data.space_type) {
-        try {
-          const parsed = JSON.parse(data.space_type);
-          spaceType = Array.isArray(parsed) ? parsed : data.space_type;
-        } catch {
-          spaceType = data.space_type;
-        }
-      }
-
-      // Parse prompts if it's a JSON string
-      let prompts: UserPrompt[] | undefined = undefined;
-      if (data.prompts) {
-        try {
-          const parsed = JSON.parse(data.prompts);
-          prompts = Array.isArray(parsed) ? parsed : undefined;
-        } catch {
-          prompts = undefined;
-        }
-      }
-
-      // Convert Supabase user to app User format
+      // Preferences that may not have reached Supabase yet keep their local value
       const localUser = users.find(u => u.id === userId) || currentUser || undefined;
 
       const syncedUser: User = {
-        id: data.id,
-        userType: data.user_type as 'homeowner' | 'searcher',
-        lookingFor: data.looking_for as 'roommates' | 'housing' | 'both' | undefined,
-        email: data.email,
-        phone: data.phone,
-        name: data.name,
-        age: data.age || '',
-        race: data.race || '',
-        gender: data.gender || '',
-        university: data.university || undefined,
-        yearsExperience: data.years_experience || undefined,
-        job: data.job || '',
-        jobRole: data.job_role || undefined,
-        jobPlace: data.job_place || undefined,
-        profilePicture: data.profile_picture_url || null,
-        hometown: data.hometown || '',
-        location: data.location || '',
-        pets: data.pets || undefined,
-        smoking: data.smoking || '',
-        drinking: data.drinking || '',
-        drugs: data.drugs || '',
-        nightOwl: data.night_owl || '',
-        religion: data.religion || '',
-        bio: data.bio || '',
-        questions: data.questions || [],
-        prompts: prompts,
-        maxRoommates: data.max_roommates || undefined,
-        roommateType: data.roommate_type || undefined,
-        preferredCity: data.preferred_city || undefined,
-        preferredLatitude: data.preferred_latitude || undefined,
-        preferredLongitude: data.preferred_longitude || undefined,
-        spaceType: spaceType,
-        minBudget: data.min_budget ? Number(data.min_budget) : undefined,
-        maxBudget: data.max_budget ? Number(data.max_budget) : undefined,
-        leaseDuration: data.lease_duration || undefined,
-        friendliness: data.friendliness !== null && data.friendliness !== undefined
-          ? Number(data.friendliness)
-          : localUser?.friendliness,
-        cleanliness: data.cleanliness !== null && data.cleanliness !== undefined
-          ? Number(data.cleanliness)
-          : localUser?.cleanliness,
-        guestsAllowed: data.guests_allowed
-          ? (data.guests_allowed as 'never' | 'with permission' | 'always okay')
-          : localUser?.guestsAllowed,
-        createdAt: new Date(data.created_at).getTime(),
+        ...remoteUser,
+        friendliness: remoteUser.friendliness ?? localUser?.friendliness,
+        cleanliness: remoteUser.cleanliness ?? localUser?.cleanliness,
+        guestsAllowed: remoteUser.guestsAllowed || localUser?.guestsAllowed,
+        matchPriorities: remoteUser.matchPriorities || localUser?.matchPriorities,
+        dealbreakers: remoteUser.dealbreakers || localUser?.dealbreakers,
+        commuteAnchors: remoteUser.commuteAnchors || localUser?.commuteAnchors,
+        commuteMode: remoteUser.commuteMode || localUser?.commuteMode,
+        maxCommuteMinutes: remoteUser.maxCommuteMinutes || localUser?.maxCommuteMinutes,
       };
       
       console.log('📥 Synced from Supabase - friendliness:', syncedUser.friendliness, 'cleanliness:', syncedUser.cleanliness, 'guestsAllowed:', syncedUser.guestsAllowed);
@@ -176,11 +260,259 @@ export function UserProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Pull the user's swipes and matches from Supabase so the deck exclusion and
+  // Matches tab survive reinstalls and work across devices
+  const syncSwipesAndMatches = async (userId: string) => {
+    const [remoteSwipes, remoteMatches, remoteBlocks, remoteHiddenListingIds] = await Promise.all([
+      fetchSwipesForUser(userId),
+      fetchMatchesForUser(userId),
+      fetchBlocksForUser(userId),
+      fetchHiddenListingIds(),
+    ]);
+
+    setHiddenListingIdList(prevIds => {
+      const merged = Array.from(new Set([...prevIds, ...remoteHiddenListingIds]));
+      AsyncStorage.setItem(STORAGE_KEYS.HIDDEN_LISTINGS, JSON.stringify(merged)).catch(err => {
+        console.error('Error saving hidden listings to AsyncStorage:', err);
+      });
+      return merged;
+    });
+
+    setBlocks(prevBlocks => {
+      const merged = mergeBlocks(prevBlocks, remoteBlocks);
+      AsyncStorage.setItem(STORAGE_KEYS.BLOCKS, JSON.stringify(merged)).catch(err => {
+        console.error('Error saving blocks to AsyncStorage:', err);
+      });
+      return merged;
+    });
+
+    setSwipes(prevSwipes => {
+      const merged = mergeSwipes(prevSwipes, remoteSwipes);
+      AsyncStorage.setItem(STORAGE_KEYS.SWIPES, JSON.stringify(merged)).catch(err => {
+        console.error('Error saving swipes to AsyncStorage:', err);
+      });
+      return merged;
+    });
+
+    setMatches(prevMatches => {
+      const merged = mergeMatches(prevMatches, remoteMatches);
+      AsyncStorage.setItem(STORAGE_KEYS.MATCHES, JSON.stringify(merged)).catch(err => {
+        console.error('Error saving matches to AsyncStorage:', err);
+      });
+      return merged;
+    });
+
+    // Matches created by the other person's device show up here for the first time
+    const activeRemoteMatches = remoteMatches.filter(m => m.isActive);
+    if (seedNotifiedMatchesRef.current) {
+      seedNotifiedMatchesRef.current = false;
+      activeRemoteMatches.forEach(m => notifiedMatchIdsRef.current.add(m.id));
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.NOTIFIED_MATCHES,
+        JSON.stringify(Array.from(notifiedMatchIdsRef.current))
+      );
+    } else {
+      activeRemoteMatches.forEach(m => emitMatchEvent(m));
+    }
+  };
+
+  // Emit a match event exactly once per match on this device:
+  // queue the celebration modal and add it to the unread-match badge
+  const emitMatchEvent = (match: Match) => {
+    if (notifiedMatchIdsRef.current.has(match.id)) {
+      return;
+    }
+
+    notifiedMatchIdsRef.current.add(match.id);
+    AsyncStorage.setItem(
+      STORAGE_KEYS.NOTIFIED_MATCHES,
+      JSON.stringify(Array.from(notifiedMatchIdsRef.current))
+    ).catch(err => {
+      console.error('Error saving notified matches to AsyncStorage:', err);
+    });
+
+    setMatchEventQueue(prevQueue => [...prevQueue, match]);
+    setUnseenMatchIds(prevIds => {
+      if (prevIds.includes(match.id)) return prevIds;
+      const updated = [...prevIds, match.id];
+      AsyncStorage.setItem(STORAGE_KEYS.UNSEEN_MATCHES, JSON.stringify(updated)).catch(err => {
+        console.error('Error saving unseen matches to AsyncStorage:', err);
+      });
+      return updated;
+    });
+  };
+
   // Load data from AsyncStorage on mount
   useEffect(() => {
     loadData();
   }, []);
 
+  // Sync swipes, matches and blocks whenever a different user logs in
+  useEffect(() => {
+    if (isLoaded && currentUser?.id) {
+      syncSwipesAndMatches(currentUser.id).catch(err => {
+        console.error('Error syncing swipes and matches:', err);
+      });
+    }
+  }, [currentUser?.id, isLoaded]);
+
+  // Celebrate matches completed on the other person's device right away,
+  // instead of on the next sync
+  useEffect(() => {
+    if (!isLoaded || !currentUser?.id) return;
+
+    const userId = currentUser.id;
+    return subscribeToMatchChanges(userId, (match) => {
+      setMatches(prevMatches => {
+        const merged = mergeMatches(prevMatches, [match]);
+        AsyncStorage.setItem(STORAGE_KEYS.MATCHES, JSON.stringify(merged)).catch(err => {
+          console.error('Error saving matches to AsyncStorage:', err);
+        });
+        return merged;
+      });
+
+      if (match.isActive) {
+        const otherUserId = match.user1Id === userId ? match.user2Id : match.user1Id;
+        ensureUserLoaded(otherUserId).catch(err => {
+          console.error('Error loading matched user:', err);
+        });
+        emitMatchEvent(match);
+      }
+    });
+  }, [currentUser?.id, isLoaded]);
+
+  // Deliver messages live: merge new messages and conversation updates for the
+  // current user as soon as Supabase broadcasts them
+  useEffect(() => {
+    if (!isLoaded || !currentUser?.id) return;
+
+    const userId = currentUser.id;
+
+    // Merge a message into its conversation; returns the `messages` row to mark
+    // delivered, since reaching this device is what makes a message delivered
+    const receiveMessage = (message: Message): string | null => {
+      const otherUserId = message.conversationId || message.senderId !== userId ? message.senderId : message.receiverId;
+      if (otherUserId !== userId) {
+        ensureUserLoaded(otherUserId).catch(err => {
+          console.error('Error loading message sender:', err);
+        });
+      }
+
+      // First message from a group we don't know yet (added while offline) - load its members
+      const groupId = message.conversationId;
+      if (groupId && !conversationsRef.current.some(conv => conv.id === groupId)) {
+        fetchConversation(groupId).then(conversation => {
+          if (!conversation) return;
+          setConversations(prevConversations => {
+            const updated = mergeConversation(prevConversations, conversation);
+            AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated)).catch(err => {
+              console.error('Error saving conversations to AsyncStorage:', err);
+            });
+            return updated;
+          });
+        });
+      }
+
+      const deliveredRowId = getUndeliveredRowId(message, userId);
+      const received: Message = deliveredRowId ? { ...message, status: 'delivered' } : message;
+
+      setConversations(prevConversations => {
+        const updated = mergeMessageIntoConversations(prevConversations, received, generateUUID());
+        if (updated === prevConversations) return prevConversations;
+        AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated)).catch(err => {
+          console.error('Error saving conversations to AsyncStorage:', err);
+        });
+        return updated;
+      });
+      return deliveredRowId;
+    };
+
+    const unsubscribe = subscribeToConversationChanges(userId, {
+      onMessage: (message) => {
+        const deliveredRowId = receiveMessage(message);
+        if (deliveredRowId) {
+          markMessagesDeliveredInSupabase([deliveredRowId]);
+        }
+      },
+    });
+
+    // Catch up on messages sent while this device was offline
+    fetchUndeliveredMessages(userId).then(messages => {
+      const deliveredRowIds = messages
+        .map(receiveMessage)
+        .filter((rowId): rowId is string => rowId !== null);
+      markMessagesDeliveredInSupabase(deliveredRowIds);
+    });
+
+    return unsubscribe;
+  }, [currentUser?.id, isLoaded]);
+
+  // Conversation changes and read receipts are filtered by conversation ID on
+  // the server, so re-subscribe (and catch up) whenever that set changes
+  const watchedConversationKey = getWatchedConversationIds(conversations).join(',');
+  useEffect(() => {
+    if (!isLoaded || !currentUser?.id) return;
+
+    const conversationIds = watchedConversationKey ? watchedConversationKey.split(',') : [];
+
+    const applyReceipts = (receipts: ReadReceipt[]) => {
+      setConversations(prevConversations => {
+        const updated = receipts.reduce(
+          (convs, receipt) => applyReadReceipt(convs, receipt.conversationId, receipt.userId, receipt.readAt),
+          prevConversations
+        );
+        if (updated === prevConversations) return prevConversations;
+        AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated)).catch(err => {
+          console.error('Error saving conversations to AsyncStorage:', err);
+        });
+        return updated;
+      });
+    };
+
+    const unsubscribe = subscribeToConversationUpdates(currentUser.id, conversationIds, {
+      onConversation: (conversation) => {
+        setConversations(prevConversations => {
+          const updated = mergeConversation(prevConversations, conversation);
+          AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated)).catch(err => {
+            console.error('Error saving conversations to AsyncStorage:', err);
+          });
+          return updated;
+        });
+      },
+      onRead: receipt => applyReceipts([receipt]),
+    });
+
+    // Catch up on read receipts that came in while this device was offline
+    fetchReadReceipts(conversationIds).then(receipts => {
+      if (receipts.length > 0) applyReceipts(receipts);
+    });
+
+    return unsubscribe;
+  }, [currentUser?.id, isLoaded, watchedConversationKey]);
+
+  // Retry queued writes on launch, every time the app returns to the foreground
+  // (the usual sign connectivity is back) and on a timer while anything is queued
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    flushOutbox(true);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        flushOutbox(true);
+      }
+    });
+    const interval = setInterval(() => {
+      if (outboxRef.current.length > 0) {
+        flushOutbox();
+      }
+    }, OUTBOX_FLUSH_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }, [isLoaded]);
+
   // Save data whenever it changes
   useEffect(() => {
     if (isLoaded) {
@@ -190,11 +522,34 @@ export function UserProvider({ children }: { children: ReactNode }) {
 
   const loadData = async () => {
     try {
-      const [usersData, currentUserData, conversationsData, likedListingsData] = await Promise.all([
+      const [
+        usersData,
+        currentUserData,
+        conversationsData,
+        likedListingsData,
+        swipesData,
+        matchesData,
+        notifiedMatchesData,
+        unseenMatchesData,
+        blocksData,
+        reportsData,
+        hiddenListingsData,
+        outboxData,
+        rankingModelsData,
+      ] = await Promise.all([
         AsyncStorage.getItem(STORAGE_KEYS.USERS),
         AsyncStorage.getItem(STORAGE_KEYS.CURRENT_USER),
         AsyncStorage.getItem(STORAGE_KEYS.CONVERSATIONS),
         AsyncStorage.getItem(STORAGE_KEYS.LIKED_LISTINGS),
+        AsyncStorage.getItem(STORAGE_KEYS.SWIPES),
+        AsyncStorage.getItem(STORAGE_KEYS.MATCHES),
+        AsyncStorage.getItem(STORAGE_KEYS.NOTIFIED_MATCHES),
+        AsyncStorage.getItem(STORAGE_KEYS.UNSEEN_MATCHES),
+        AsyncStorage.getItem(STORAGE_KEYS.BLOCKS),
+        AsyncStorage.getItem(STORAGE_KEYS.REPORTS),
+        AsyncStorage.getItem(STORAGE_KEYS.HIDDEN_LISTINGS),
+        AsyncStorage.getItem(STORAGE_KEYS.OUTBOX),
+        AsyncStorage.getItem(STORAGE_KEYS.RANKING_MODELS),
       ]);
 
       let parsedUsers: User[] = [];
@@ -249,6 +604,37 @@ export function UserProvider({ children }: { children: ReactNode }) {
       if (likedListingsData) {
         setLikedListings(JSON.parse(likedListingsData));
       }
+      if (swipesData) {
+        setSwipes(JSON.parse(swipesData));
+      }
+      if (matchesData) {
+        setMatches(JSON.parse(matchesData));
+      }
+      if (notifiedMatchesData) {
+        notifiedMatchIdsRef.current = new Set(JSON.parse(notifiedMatchesData));
+      } else {
+        seedNotifiedMatchesRef.current = true;
+      }
+      if (unseenMatchesData) {
+        setUnseenMatchIds(JSON.parse(unseenMatchesData));
+      }
+      if (blocksData) {
+        setBlocks(JSON.parse(blocksData));
+      }
+      if (reportsData) {
+        setReports(JSON.parse(reportsData));
+      }
+      if (hiddenListingsData) {
+        setHiddenListingIdList(JSON.parse(hiddenListingsData));
+      }
+      if (outboxData) {
+        outboxRef.current = JSON.parse(outboxData);
+        setOutbox(outboxRef.current);
+      }
+      if (rankingModelsData) {
+        rankingModelsRef.current = JSON.parse(rankingModelsData);
+        setRankingModels(rankingModelsRef.current);
+      }
       setIsLoaded(true);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -256,6 +642,57 @@ export function UserProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const saveOutbox = (entries: OutboxEntry[]) => {
+    outboxRef.current = entries;
+    setOutbox(entries);
+    AsyncStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(entries)).catch(err => {
+      console.error('Error saving outbox to AsyncStorage:', err);
+    });
+  };
+
+  // Run every queued write whose backoff has elapsed, one at a time, oldest first
+  // `skipBackoff` retries everything now, for when connectivity has just come back
+  const flushOutbox = async (skipBackoff = false) => {
+    if (isFlushingOutboxRef.current || outboxRef.current.length === 0) return;
+    isFlushingOutboxRef.current = true;
+
+    if (skipBackoff) {
+      saveOutbox(makeEntriesDue(outboxRef.current));
+    }
+
+    try {
+      for (const entry of getDueEntries(outboxRef.current, Date.now())) {
+        const succeeded = await performOutboxEntry(entry);
+        if (!succeeded) {
+          saveOutbox(markAttemptFailed(outboxRef.current, entry.key));
+        } else if (entry.kind === 'profile') {
+          // Only drop the values that were written - edits queued mid-flight stay queued
+          const saved: Record<string, number> = {};
+          Object.keys(entry.payload.updates).forEach(column => {
+            saved[column] = entry.payload.writtenAt?.[column] ?? 0;
+          });
+          saveOutbox(pruneProfileUpdate(outboxRef.current, entry.key, saved));
+        } else {
+          saveOutbox(outboxRef.current.filter(e => e.key !== entry.key));
+        }
+      }
+    } catch (error) {
+      console.error('Error flushing outbox:', error);
+    } finally {
+      isFlushingOutboxRef.current = false;
+    }
+  };
+
+  const getPendingWriteState = (key: string): OutboxState | undefined => {
+    const entry = outbox.find(e => e.key === key);
+    return entry ? getOutboxState(entry) : undefined;
+  };
+
+  const retryPendingWrite = async (key: string) => {
+    saveOutbox(resetEntry(outboxRef.current, key));
+    await flushOutbox();
+  };
+
   const saveData = async () => {
     try {
       await Promise.all([
@@ -308,120 +745,26 @@ export function UserProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(updatedUsers));
 
     // Also update in Supabase
-    try {
-      const supabaseUpdates: any = {};
-      
-      // Lifestyle fields (treat together with other lifestyle prefs)
-      const lifestyleFieldMap: Record<string, string> = {
-        friendliness: 'friendliness',
-        cleanliness: 'cleanliness',
-        guestsAllowed: 'guests_allowed',
-      };
+    const supabaseUpdates = userToRow(updates);
+    // Only update Supabase if there are fields to update
+    if (Object.keys(supabaseUpdates).length === 0) return;
 
-      Object.entries(lifestyleFieldMap).forEach(([field, column]) => {
-        if (field in updates) {
-          const value = (updates as any)[field];
-          if (field === 'friendliness' || field === 'cleanliness') {
-            supabaseUpdates[column] = value !== null && value !== undefined && value !== '' 
-              ? Number(value) 
-              : null;
-          } else {
-            supabaseUpdates[column] = value && value !== '' ? value : null;
-          }
-          console.log(`💾 Saving ${field} to Supabase:`, supabaseUpdates[column], 'from:', value);
-        }
-      });
-      if ('minBudget' in updates) {
-        supabaseUpdates.min_budget = updates.minBudget !== null && updates.minBudget !== undefined 
-          ? Number(updates.minBudget) 
-          : null;
-      }
-      if ('maxBudget' in updates) {
-        supabaseUpdates.max_budget = updates.maxBudget !== null && updates.maxBudget !== undefined 
-          ? Number(updates.maxBudget) 
-          : null;
-      }
-      if ('maxRoommates' in updates) {
-        supabaseUpdates.max_roommates = updates.maxRoommates !== null && updates.maxRoommates !== undefined 
-          ? (typeof updates.maxRoommates === 'number' ? updates.maxRoommates : null)
-          : null;
-      }
-      if ('roommateType' in updates) {
-        supabaseUpdates.roommate_type = updates.roommateType || null;
-      }
-      if ('preferredCity' in updates) {
-        supabaseUpdates.preferred_city = updates.preferredCity || null;
-      }
-      if ('spaceType' in updates) {
-        if (Array.isArray(updates.spaceType)) {
-          supabaseUpdates.space_type = JSON.stringify(updates.spaceType);
-        } else {
-          supabaseUpdates.space_type = updates.spaceType || null;
-        }
-      }
-      if ('leaseDuration' in updates) {
-        supabaseUpdates.lease_duration = updates.leaseDuration !== null && updates.leaseDuration !== undefined
-          ? (typeof updates.leaseDuration === 'number' ? updates.leaseDuration : null)
-          : null;
-      }
-      if ('profilePicture' in updates) {
-        supabaseUpdates.profile_picture_url = updates.profilePicture || null;
-      }
-      if ('jobRole' in updates) {
-        supabaseUpdates.job_role = updates.jobRole || null;
-      }
-      if ('jobPlace' in updates) {
-        supabaseUpdates.job_place = updates.jobPlace || null;
-      }
-      if ('lookingFor' in updates) {
-        supabaseUpdates.looking_for = updates.lookingFor || null;
-      }
-      
-      // Standard field mappings
-      const fieldMap: Record<string, string> = {
-        age: 'age',
-        race: 'race',
-        gender: 'gender',
-        job: 'job',
-        university: 'university',
-        yearsExperience: 'years_experience',
-        hometown: 'hometown',
-        location: 'location',
-        smoking: 'smoking',
-        drinking: 'drinking',
-        drugs: 'drugs',
-        nightOwl: 'night_owl',
-        religion: 'religion',
-        bio: 'bio',
-        pets: 'pets',
-      };
-      
-      Object.keys(updates).forEach(key => {
-        if (key in fieldMap && !(key in supabaseUpdates)) {
-          supabaseUpdates[fieldMap[key]] = (updates as any)[key] || null;
-        }
+    const writtenAt = getWriteStamp();
+    try {
+      await getRepositories().users.updateColumns(userId, supabaseUpdates);
+      console.log('✅ Successfully updated user in Supabase:', Object.keys(supabaseUpdates));
+      // A queued older edit must not overwrite what was just saved
+      const saved: Record<string, number> = {};
+      Object.keys(supabaseUpdates).forEach(column => {
+        saved[column] = writtenAt;
       });
-
-      // Only update Supabase if there are fields to update
-      if (Object.keys(supabaseUpdates).length > 0) {
-        const { error } = await supabase
-          .from('users')
-          .update(supabaseUpdates)
-          .eq('id', userId);
-
-        if (error) {
-          console.error('❌ Error updating user in Supabase:', error);
-          console.error('❌ Failed fields:', Object.keys(supabaseUpdates));
-          console.error('❌ Failed values:', supabaseUpdates);
-          // Don't throw - continue with local update even if Supabase fails
-        } else {
-          console.log('✅ Successfully updated user in Supabase:', Object.keys(supabaseUpdates));
-          console.log('✅ Updated values:', supabaseUpdates);
-        }
-      }
+      saveOutbox(pruneProfileUpdate(outboxRef.current, userId, saved));
+      flushOutbox(true);
     } catch (error) {
-      console.error('Error updating user in Supabase:', error);
-      // Don't throw - continue with local update even if Supabase fails
+      console.error('❌ Error updating user in Supabase:', error);
+      console.error('❌ Failed fields:', Object.keys(supabaseUpdates));
+      // Don't throw - keep the local update and queue the write for retry
+      saveOutbox(enqueueProfileUpdate(outboxRef.current, userId, supabaseUpdates, writtenAt));
     }
   };
 
@@ -429,9 +772,19 @@ export function UserProvider({ children }: { children: ReactNode }) {
     return users.find(user => user.id === userId);
   };
 
+  // Users hidden from the current user in either block direction
+  const blockedUserIds = currentUser ? getHiddenUserIds(blocks, currentUser.id) : new Set<string>();
+
+  const isUserBlocked = (userId: string): boolean => {
+    return blockedUserIds.has(userId);
+  };
+
+  const hiddenListingIds = new Set(hiddenListingIdList);
+
   const getUsersByCategory = () => {
-    const listers = users.filter(user => user.userType === 'homeowner');
-    const searchers = users.filter(user => user.userType === 'searcher');
+    const visibleUsers = users.filter(user => !blockedUserIds.has(user.id) && !user.isSuspended);
+    const listers = visibleUsers.filter(user => user.userType === 'homeowner');
+    const searchers = visibleUsers.filter(user => user.userType === 'searcher');
     
     return {
       listers,
@@ -444,112 +797,59 @@ export function UserProvider({ children }: { children: ReactNode }) {
   const getConversation = (userId1: string, userId2: string): Conversation | undefined => {
     return conversations.find(
       conv =>
-        conv.participants.includes(userId1) && conv.participants.includes(userId2)
+        !conv.isGroup && conv.participants.includes(userId1) && conv.participants.includes(userId2)
     );
   };
 
   const getConversationsForUser = (userId: string): Conversation[] => {
+    const hiddenIds = getHiddenUserIds(blocks, userId);
     return conversations
       .filter(conv => conv.participants.includes(userId))
+      // Hide 1-on-1 conversations with blocked users
+      .filter(conv => conv.isGroup || !conv.participants.some(id => hiddenIds.has(id)))
       .sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
   };
 
-  const sendMessage = async (senderId: string, receiverId: string, text: string, imageUrl?: string) => {
-    // Ensure receiver user is in local users array (fetch from Supabase if needed)
-    if (!getUserById(receiverId)) {
-      console.log(`📥 [UserContext] Receiver user ${receiverId} not in local array, fetching from Supabase...`);
+  // Total unread messages across every conversation the current user can see
+  const unreadMessageCount = currentUser
+    ? getConversationsForUser(currentUser.id).reduce(
+        (total, conv) => total + getUnreadCount(conv, currentUser.id),
+        0
+      )
+    : 0;
+
+  // Make sure a user is in the local users array (fetch from Supabase if needed)
+  const ensureUserLoaded = async (userId: string) => {
+    if (!getUserById(userId)) {
+      console.log(`📥 [UserContext] User ${userId} not in local array, fetching from Supabase...`);
       try {
-        const { data, error } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', receiverId)
-          .single();
-
-        if (!error && data) {
-          // Parse space_type if it's a JSON string
-          let spaceType: string | string[] | undefined = undefined;
-          if (data.space_type) {
-            try {
-              const parsed = JSON.parse(data.space_type);
-              spaceType = Array.isArray(parsed) ? parsed : data.space_type;
-            } catch {
-              spaceType = data.space_type;
-            }
-          }
-
-          // Parse prompts if it's a JSON string
-          let prompts: UserPrompt[] | undefined = undefined;
-          if (data.prompts) {
-            try {
-              const parsed = JSON.parse(data.prompts);
-              prompts = Array.isArray(parsed) ? parsed : undefined;
-            } catch {
-              prompts = undefined;
-            }
-          }
-
-          // Convert Supabase user to app User format
-          const receiverUser: User = {
-            id: data.id,
-            userType: data.user_type as 'homeowner' | 'searcher',
-            lookingFor: data.looking_for as 'roommates' | 'housing' | 'both' | undefined,
-            email: data.email,
-            phone: data.phone,
-            name: data.name,
-            age: data.age || '',
-            race: data.race || '',
-            gender: data.gender || '',
-            university: data.university || undefined,
-            yearsExperience: data.years_experience || undefined,
-            job: data.job || '',
-            jobRole: data.job_role || undefined,
-            jobPlace: data.job_place || undefined,
-            profilePicture: data.profile_picture_url || null,
-            hometown: data.hometown || '',
-            location: data.location || '',
-            pets: data.pets || undefined,
-            smoking: data.smoking || '',
-            drinking: data.drinking || '',
-            drugs: data.drugs || '',
-            nightOwl: data.night_owl || '',
-            religion: data.religion || '',
-            bio: data.bio || '',
-            questions: data.questions || [],
-            prompts: prompts,
-            maxRoommates: data.max_roommates || undefined,
-            roommateType: data.roommate_type || undefined,
-            preferredCity: data.preferred_city || undefined,
-            preferredLatitude: data.preferred_latitude || undefined,
-            preferredLongitude: data.preferred_longitude || undefined,
-            spaceType: spaceType,
-            minBudget: data.min_budget ? Number(data.min_budget) : undefined,
-            maxBudget: data.max_budget ? Number(data.max_budget) : undefined,
-            leaseDuration: data.lease_duration || undefined,
-            friendliness: data.friendliness !== null && data.friendliness !== undefined ? Number(data.friendliness) : undefined,
-            cleanliness: data.cleanliness !== null && data.cleanliness !== undefined ? Number(data.cleanliness) : undefined,
-            guestsAllowed: data.guests_allowed ? (data.guests_allowed as 'never' | 'with permission' | 'always okay') : undefined,
-            createdAt: new Date(data.created_at).getTime(),
-          };
-
-          // Add receiver user to local users array
+        const fetchedUser = await getRepositories().users.getById(userId);
+
+        if (fetchedUser) {
+          // Add user to local users array
           setUsers(prevUsers => {
-            if (!prevUsers.find(u => u.id === receiverId)) {
-              const updated = [...prevUsers, receiverUser];
+            if (!prevUsers.find(u => u.id === userId)) {
+              const updated = [...prevUsers, fetchedUser];
               AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(updated)).catch(err => {
                 console.error('Error saving users to AsyncStorage:', err);
               });
-              console.log(`✅ [UserContext] Added receiver user to local array: ${receiverUser.name}`);
+              console.log(`✅ [UserContext] Added user to local array: ${fetchedUser.name}`);
               return updated;
             }
             return prevUsers;
           });
         } else {
-          console.warn(`⚠️ [UserContext] Could not fetch receiver user ${receiverId} from Supabase:`, error);
+          console.warn(`⚠️ [UserContext] Could not find user ${userId} in Supabase`);
         }
       } catch (error) {
-        console.error(`❌ [UserContext] Error fetching receiver user from Supabase:`, error);
+        console.error(`❌ [UserContext] Error fetching user from Supabase:`, error);
       }
     }
+  };
+
+  const sendMessage = async (senderId: string, receiverId: string, text: string, imageUrl?: string) => {
+    // Ensure receiver user is in local users array (fetch from Supabase if needed)
+    await ensureUserLoaded(receiverId);
 
     const messageId = generateUUID();
     const message: Message = {
@@ -559,177 +859,75 @@ export function UserProvider({ children }: { children: ReactNode }) {
       text,
       imageUrl,
       timestamp: Date.now(),
+      status: 'sent',
     };
 
-    // Save message to Supabase FIRST (before creating conversation with foreign key)
-    try {
-      // Build message data - only include image_url if it exists (handle missing column gracefully)
-      const messageData: {
-        id: string;
-        sender_id: string;
-        receiver_id: string;
-        text: string;
-        created_at: string;
-        image_url?: string;
-      } = {
-        id: messageId,
-        sender_id: senderId,
-        receiver_id: receiverId,
-        text: text || '',
-        created_at: new Date().toISOString(),
-      };
-      
-      // Only add image_url if provided (column might not exist yet)
-      if (imageUrl) {
-        messageData.image_url = imageUrl;
-      }
-      
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert(messageData);
-
-      if (messageError) {
-        console.error('Error saving message to Supabase:', messageError);
-        // If it's a column error, try without image_url
-        if (messageError.code === 'PGRST204' && imageUrl) {
-          const { error: retryError } = await supabase
-            .from('messages')
-            .insert({
-              id: messageId,
-              sender_id: senderId,
-              receiver_id: receiverId,
-              text: text || '',
-              created_at: new Date().toISOString(),
-            });
-          if (retryError) {
-            console.error('Error saving message (retry without image_url):', retryError);
-          }
-        }
-        // Continue with local storage even if Supabase fails
-      }
-    } catch (error) {
-      console.error('Error saving message to Supabase:', error);
-      // Continue with local storage even if Supabase fails
+    // Find or create conversation
+    const conversation = getConversation(senderId, receiverId);
+    const isNewConversation = !conversation;
+
+    // Save message + conversation row to Supabase; if that fails, queue it for retry
+    // and keep the message locally (shown as pending in ConversationScreen)
+    const { saved, conversationId } = await saveMessageToSupabase(
+      message,
+      conversation?.id || generateUUID(),
+      isNewConversation
+    );
+    if (saved) {
+      // A write just went through, so anything queued earlier likely will too
+      flushOutbox(true);
+    } else {
+      saveOutbox(enqueueMessage(outboxRef.current, message, conversationId, isNewConversation));
     }
 
-    // Find or create conversation
-    let conversation = getConversation(senderId, receiverId);
-    let conversationId = conversation?.id;
-    let isNewConversation = false;
-    
+    // Update conversations array using functional update to ensure we have latest state
+    // Merging (instead of appending) dedupes against the realtime echo of this same message
+    setConversations(prevConversations => {
+      const updated = mergeMessageIntoConversations(prevConversations, message, conversationId);
+      AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated));
+      console.log(
+        isNewConversation
+          ? '✅ New conversation created with message. Total conversations:'
+          : '✅ Message added to existing conversation. Total conversations:',
+        updated.length
+      );
+      return updated;
+    });
+  };
+
+  const sendGroupMessage = async (conversationId: string, senderId: string, text: string, imageUrl?: string) => {
+    const conversation = conversations.find(conv => conv.id === conversationId && conv.isGroup);
     if (!conversation) {
-      isNewConversation = true;
-      conversationId = generateUUID();
-      
-      // Create conversation in Supabase (message now exists, so foreign key will work)
-      // Use upsert to handle duplicate conversations gracefully
-      try {
-        const participant1 = senderId < receiverId ? senderId : receiverId;
-        const participant2 = senderId < receiverId ? receiverId : senderId;
-        
-        // First, try to find existing conversation
-        const { data: existingConv } = await supabase
-          .from('conversations')
-          .select('id')
-          .or(`and(participant1_id.eq.${participant1},participant2_id.eq.${participant2}),and(participant1_id.eq.${participant2},participant2_id.eq.${participant1})`)
-          .eq('is_group', false)
-          .single();
-
-        if (existingConv) {
-          // Use existing conversation ID
-          conversationId = existingConv.id;
-          const { error: updateError } = await supabase
-            .from('conversations')
-            .update({
-              last_message_id: messageId,
-              last_message_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', existingConv.id);
-          
-          if (updateError) {
-            console.error('Error updating conversation in Supabase:', updateError);
-          }
-        } else {
-          // Create new conversation
-          const { error: convError } = await supabase
-            .from('conversations')
-            .insert({
-              id: conversationId,
-              participant1_id: participant1,
-              participant2_id: participant2,
-              last_message_id: messageId,
-              last_message_at: new Date().toISOString(),
-              is_group: false,
-              participants: [senderId, receiverId],
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            });
+      console.error('Cannot send to unknown group conversation:', conversationId);
+      return;
+    }
 
-          if (convError) {
-            console.error('Error creating conversation in Supabase:', convError);
-            // Continue with local storage even if Supabase fails
-          }
-        }
-      } catch (error) {
-        console.error('Error creating conversation in Supabase:', error);
-        // Continue with local storage even if Supabase fails
-      }
-      
-      // Create conversation object with message already included
-      conversation = {
-        id: conversationId,
-        participants: [senderId, receiverId],
-        messages: [message], // Add message immediately
-        updatedAt: Date.now(),
-        isGroup: false,
-        lastMessage: message,
-      };
+    const message: Message = {
+      id: generateUUID(),
+      senderId,
+      receiverId: conversationId,
+      conversationId,
+      text,
+      imageUrl,
+      timestamp: Date.now(),
+      status: 'sent',
+    };
+
+    // Fan out one copy per member; if that fails, queue it for retry like a 1-on-1 message
+    const recipientIds = conversation.participants.filter(id => id !== senderId);
+    const saved = await saveGroupMessageToSupabase(message, recipientIds);
+    if (saved) {
+      flushOutbox(true);
     } else {
-      // Update existing conversation in Supabase
-      try {
-        const { error: updateError } = await supabase
-          .from('conversations')
-          .update({
-            last_message_id: messageId,
-            last_message_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', conversationId);
-
-        if (updateError) {
-          console.error('Error updating conversation in Supabase:', updateError);
-        }
-      } catch (error) {
-        console.error('Error updating conversation in Supabase:', error);
-      }
-      
-      // Add message to existing conversation
-      conversation = {
-        ...conversation,
-        messages: [...conversation.messages, message],
-        lastMessage: message,
-        updatedAt: Date.now(),
-      };
+      saveOutbox(enqueueMessage(outboxRef.current, message, conversationId, false, recipientIds));
     }
 
-    // Update conversations array using functional update to ensure we have latest state
     setConversations(prevConversations => {
-      if (isNewConversation) {
-        // Add new conversation with message
-        const updated = [...prevConversations, conversation];
-        AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated));
-        console.log('✅ New conversation created with message. Total conversations:', updated.length);
-        return updated;
-      } else {
-        // Update existing conversation
-        const updated = prevConversations.map(conv =>
-          conv.id === conversationId ? conversation : conv
-        );
-        AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated));
-        console.log('✅ Message added to existing conversation. Total conversations:', updated.length);
-        return updated;
-      }
+      const updated = mergeMessageIntoConversations(prevConversations, message, conversationId);
+      AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated)).catch(err => {
+        console.error('Error saving conversations to AsyncStorage:', err);
+      });
+      return updated;
     });
   };
 
@@ -739,10 +937,30 @@ export function UserProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updatedConversations));
   };
 
+  const markConversationRead = async (conversationId: string) => {
+    if (!currentUser) return;
+
+    const conversation = conversations.find(conv => conv.id === conversationId);
+    if (!conversation || getUnreadCount(conversation, currentUser.id) === 0) return;
+
+    // Never earlier than the newest message, in case this device's clock is behind
+    const lastMessageAt = conversation.lastMessage?.timestamp ?? 0;
+    const readAt = Math.max(Date.now(), lastMessageAt);
+
+    setConversations(prevConversations => {
+      const updated = applyReadReceipt(prevConversations, conversationId, currentUser.id, readAt);
+      AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updated)).catch(err => {
+        console.error('Error saving conversations to AsyncStorage:', err);
+      });
+      return updated;
+    });
+    await saveReadReceiptToSupabase(conversation, currentUser.id, readAt);
+  };
+
   const createGroupConversation = async (participantIds: string[], groupName: string): Promise<Conversation> => {
     // Validate participant count (max 6)
-    if (participantIds.length > 6) {
-      throw new Error('Group chats can have a maximum of 6 participants');
+    if (participantIds.length > MAX_GROUP_PARTICIPANTS) {
+      throw new Error(`Group chats can have a maximum of ${MAX_GROUP_PARTICIPANTS} participants`);
     }
 
     const groupConversation: Conversation = {
@@ -759,14 +977,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
     
     // Sync with Supabase
     try {
-      await supabase.from('conversations').insert({
-        id: groupConversation.id,
-        is_group: true,
-        group_name: groupName,
-        participants: participantIds,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      });
+      await getRepositories().conversations.insertGroup(groupConversation);
     } catch (error) {
       console.error('Error syncing group conversation to Supabase:', error);
     }
@@ -784,7 +995,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
       return false; // User already in conversation
     }
 
-    if (conversation.participants.length >= 6) {
+    if (conversation.participants.length >= MAX_GROUP_PARTICIPANTS) {
       return false; // Max participants reached
     }
 
@@ -802,21 +1013,17 @@ export function UserProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updatedConversations));
 
     // Sync with Supabase
+    const { conversations: conversationsRepository } = getRepositories();
     try {
-      const { error } = await supabase.rpc('add_participant_to_conversation', {
-        conv_id: conversationId,
-        user_id: userId,
-      });
-      if (error) {
-        console.error('Error adding participant in Supabase:', error);
+      await conversationsRepository.addParticipant(conversationId, userId);
+    } catch (rpcError) {
+      console.error('Error adding participant in Supabase:', rpcError);
+      try {
         // Fallback: manual update
-        await supabase
-          .from('conversations')
-          .update({ participants: updatedParticipants, updated_at: new Date().toISOString() })
-          .eq('id', conversationId);
+        await conversationsRepository.setParticipants(conversationId, updatedParticipants);
+      } catch (error) {
+        console.error('Error syncing participant addition to Supabase:', error);
       }
-    } catch (error) {
-      console.error('Error syncing participant addition to Supabase:', error);
     }
 
     return true;
@@ -846,21 +1053,39 @@ export function UserProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updatedConversations));
 
     // Sync with Supabase
+    const { conversations: conversationsRepository } = getRepositories();
     try {
-      const { error } = await supabase.rpc('remove_participant_from_conversation', {
-        conv_id: conversationId,
-        user_id: userId,
-      });
-      if (error) {
-        console.error('Error removing participant in Supabase:', error);
+      await conversationsRepository.removeParticipant(conversationId, userId);
+    } catch (rpcError) {
+      console.error('Error removing participant in Supabase:', rpcError);
+      try {
         // Fallback: manual update
-        await supabase
-          .from('conversations')
-          .update({ participants: updatedParticipants, updated_at: new Date().toISOString() })
-          .eq('id', conversationId);
+        await conversationsRepository.setParticipants(conversationId, updatedParticipants);
+      } catch (error) {
+        console.error('Error syncing participant removal to Supabase:', error);
       }
+    }
+
+    return true;
+  };
+
+  const renameGroup = async (conversationId: string, groupName: string): Promise<boolean> => {
+    const conversation = conversations.find(c => c.id === conversationId);
+    if (!conversation || !conversation.isGroup || !groupName.trim()) {
+      return false;
+    }
+
+    const updatedConversations = conversations.map(c =>
+      c.id === conversationId ? { ...c, groupName: groupName.trim(), updatedAt: Date.now() } : c
+    );
+    setConversations(updatedConversations);
+    await AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updatedConversations));
+
+    // Sync with Supabase
+    try {
+      await getRepositories().conversations.rename(conversationId, groupName.trim());
     } catch (error) {
-      console.error('Error syncing participant removal to Supabase:', error);
+      console.error('Error syncing group rename to Supabase:', error);
     }
 
     return true;
@@ -887,25 +1112,56 @@ export function UserProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(updatedUsers));
     await AsyncStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(updatedConversations));
     
-    // TODO: Delete from Supabase
-    // await supabase.from('users').delete().eq('id', userId);
-    // await supabase.from('messages').delete().or(`sender_id.eq.${userId},receiver_id.eq.${userId}`);
-    // await supabase.from('conversations').delete().contains('participants', [userId]);
-    // await supabase.from('swipes').delete().or(`swiper_id.eq.${userId},swiped_id.eq.${userId}`);
-    // await supabase.from('matches').delete().or(`user1_id.eq.${userId},user2_id.eq.${userId}`);
+    // Supabase rows are deleted by the caller (ProfileScreen) through the repositories
+  };
+
+  const saveRankingModels = (models: Record<string, RankingModel>) => {
+    rankingModelsRef.current = models;
+    setRankingModels(models);
+    AsyncStorage.setItem(STORAGE_KEYS.RANKING_MODELS, JSON.stringify(models)).catch(err => {
+      console.error('Error saving ranking models to AsyncStorage:', err);
+    });
   };
 
-  const addLikedListing = async (listingId: string) => {
-    if (!likedListings.includes(listingId)) {
-      const updated = [...likedListings, listingId];
+  // Update the current user's ranking model with one liked / passed item
+  const trainOnFeedback = (target: RecommendationTarget, breakdown: FactorBreakdown[], liked: boolean) => {
+    if (!currentUser || breakdown.length === 0) return;
+    const model = rankingModelsRef.current[currentUser.id] || createRankingModel();
+    saveRankingModels({
+      ...rankingModelsRef.current,
+      [currentUser.id]: trainRankingModel(model, target, breakdown, liked),
+    });
+  };
+
+  const resetRankingModel = async () => {
+    if (!currentUser) return;
+    const models = { ...rankingModelsRef.current };
+    delete models[currentUser.id];
+    saveRankingModels(models);
+  };
+
+  // Train on a listing's factor breakdown for the current user (hard filters
+  // are skipped so anything the user could see still counts)
+  const trainOnListing = (listing: Listing, liked: boolean) => {
+    if (!currentUser) return;
+    const recommendation = scoreListing(currentUser, listing, { skipHardFilters: true });
+    if (recommendation) trainOnFeedback('listing', recommendation.breakdown, liked);
+  };
+
+  const addLikedListing = async (listing: Listing) => {
+    if (!likedListings.includes(listing.id)) {
+      const updated = [...likedListings, listing.id];
       setLikedListings(updated);
+      trainOnListing(listing, true);
       await AsyncStorage.setItem(STORAGE_KEYS.LIKED_LISTINGS, JSON.stringify(updated));
     }
   };
 
-  const removeLikedListing = async (listingId: string) => {
-    const updated = likedListings.filter(id => id !== listingId);
+  const removeLikedListing = async (listing: Listing) => {
+    if (!likedListings.includes(listing.id)) return;
+    const updated = likedListings.filter(id => id !== listing.id);
     setLikedListings(updated);
+    trainOnListing(listing, false);
     await AsyncStorage.setItem(STORAGE_KEYS.LIKED_LISTINGS, JSON.stringify(updated));
   };
 
@@ -913,17 +1169,247 @@ export function UserProvider({ children }: { children: ReactNode }) {
     return likedListings.includes(listingId);
   };
 
+  const recordSwipe = async (
+    swipedId: string,
+    swipeType: Swipe['swipeType'],
+    direction: Swipe['direction'],
+    breakdown?: FactorBreakdown[]
+  ): Promise<Match | null> => {
+    if (!currentUser) return null;
+
+    // Right-swiped listings are liked, which trains through addLikedListing
+    if (breakdown && !(swipeType === 'listing' && direction === 'right')) {
+      trainOnFeedback(swipeType === 'user' ? 'roommate' : 'listing', breakdown, direction === 'right');
+    }
+
+    const swipe: Swipe = {
+      id: generateUUID(),
+      swiperId: currentUser.id,
+      swipedId,
+      swipeType,
+      direction,
+      createdAt: Date.now(),
+    };
+
+    const updatedSwipes = mergeSwipes(swipes, [swipe]);
+    setSwipes(updatedSwipes);
+    await AsyncStorage.setItem(STORAGE_KEYS.SWIPES, JSON.stringify(updatedSwipes));
+    await saveSwipeToSupabase(swipe);
+
+    if (swipeType !== 'user' || direction !== 'right') {
+      return null;
+    }
+
+    // Check local swipes first (same device), then Supabase (other device)
+    const reciprocal = findReciprocalSwipe(updatedSwipes, swipe) || await fetchReciprocalSwipe(swipe);
+    if (!reciprocal) {
+      return null;
+    }
+
+    const existingMatch = findMatchBetween(matches, currentUser.id, swipedId);
+    if (existingMatch?.isActive) {
+      return existingMatch;
+    }
+
+    const [user1Id, user2Id] = orderUserPair(currentUser.id, swipedId);
+    const savedMatch = await saveMatchToSupabase({
+      id: existingMatch?.id || generateUUID(),
+      user1Id,
+      user2Id,
+      matchedAt: Date.now(),
+      isActive: true,
+    });
+
+    setMatches(prevMatches => {
+      const merged = mergeMatches(
+        prevMatches.filter(m => !(m.user1Id === user1Id && m.user2Id === user2Id)),
+        [savedMatch]
+      );
+      AsyncStorage.setItem(STORAGE_KEYS.MATCHES, JSON.stringify(merged)).catch(err => {
+        console.error('Error saving matches to AsyncStorage:', err);
+      });
+      return merged;
+    });
+
+    console.log('💘 [UserContext] New match created:', savedMatch.id);
+
+    // The device that completes the match opens the conversation for both people
+    if (!getConversation(currentUser.id, swipedId)) {
+      try {
+        await sendMessage(currentUser.id, swipedId, MATCH_STARTER_MESSAGE);
+      } catch (error) {
+        console.error('Error creating starter conversation for match:', error);
+      }
+    }
+
+    emitMatchEvent(savedMatch);
+    return savedMatch;
+  };
+
+  const getSwipedIds = (swipeType: Swipe['swipeType']): Set<string> => {
+    if (!currentUser) return new Set();
+    return getSwipedIdsFromSwipes(swipes, currentUser.id, swipeType);
+  };
+
+  const getMatchesForUser = (userId: string): Match[] => {
+    return matches
+      .filter(m => m.isActive && (m.user1Id === userId || m.user2Id === userId))
+      .sort((a, b) => b.matchedAt - a.matchedAt);
+  };
+
+  const isMatchedWith = (userId: string): boolean => {
+    if (!currentUser) return false;
+    return !!findMatchBetween(matches, currentUser.id, userId)?.isActive;
+  };
+
+  const unmatchUser = async (userId: string) => {
+    if (!currentUser) return;
+
+    const match = findMatchBetween(matches, currentUser.id, userId);
+    if (!match || !match.isActive) return;
+
+    const updatedMatches = matches.map(m => (m.id === match.id ? { ...m, isActive: false } : m));
+    setMatches(updatedMatches);
+    await AsyncStorage.setItem(STORAGE_KEYS.MATCHES, JSON.stringify(updatedMatches));
+
+    // An unmatched match no longer counts towards the unread badge
+    if (unseenMatchIds.includes(match.id)) {
+      const updatedUnseen = unseenMatchIds.filter(id => id !== match.id);
+      setUnseenMatchIds(updatedUnseen);
+      await AsyncStorage.setItem(STORAGE_KEYS.UNSEEN_MATCHES, JSON.stringify(updatedUnseen));
+    }
+
+    await deactivateMatchInSupabase(match.id);
+  };
+
+  const blockUser = async (userId: string) => {
+    if (!currentUser || userId === currentUser.id) return;
+
+    if (!blocks.some(b => b.blockerId === currentUser.id && b.blockedId === userId)) {
+      const block: Block = {
+        id: generateUUID(),
+        blockerId: currentUser.id,
+        blockedId: userId,
+        createdAt: Date.now(),
+      };
+      const updatedBlocks = [...blocks, block];
+      setBlocks(updatedBlocks);
+      await AsyncStorage.setItem(STORAGE_KEYS.BLOCKS, JSON.stringify(updatedBlocks));
+      await saveBlockToSupabase(block);
+    }
+
+    // Blocking always ends the match too
+    await unmatchUser(userId);
+  };
+
+  const submitReport = async (
+    targetType: Report['targetType'],
+    targetId: string,
+    reason: Report['reason'],
+    details: string,
+    messageIds?: string[]
+  ): Promise<Report | null> => {
+    if (!currentUser) return null;
+
+    const report: Report = {
+      id: generateUUID(),
+      reporterId: currentUser.id,
+      targetType,
+      targetId,
+      reason,
+      details: details.trim(),
+      messageIds: messageIds && messageIds.length > 0 ? messageIds : undefined,
+      status: 'open',
+      createdAt: Date.now(),
+    };
+
+    const updatedReports = [...reports, report];
+    setReports(updatedReports);
+    await AsyncStorage.setItem(STORAGE_KEYS.REPORTS, JSON.stringify(updatedReports));
+    await saveReportToSupabase(report);
+
+    return report;
+  };
+
+  // Admins pull the whole moderation queue; everyone else only their own reports
+  const refreshReports = async () => {
+    if (!currentUser) return;
+
+    const remoteReports = await fetchReports(currentUser.id, !!currentUser.isAdmin);
+    setReports(prevReports => {
+      const merged = mergeReports(prevReports, remoteReports);
+      AsyncStorage.setItem(STORAGE_KEYS.REPORTS, JSON.stringify(merged)).catch(err => {
+        console.error('Error saving reports to AsyncStorage:', err);
+      });
+      return merged;
+    });
+  };
+
+  const suspendUser = async (userId: string) => {
+    if (!currentUser?.isAdmin || userId === currentUser.id) return;
+
+    setUsers(prevUsers => {
+      const updatedUsers = prevUsers.map(user =>
+        user.id === userId ? { ...user, isSuspended: true } : user
+      );
+      AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(updatedUsers)).catch(err => {
+        console.error('Error saving users to AsyncStorage:', err);
+      });
+      return updatedUsers;
+    });
+    await suspendUserInSupabase(userId);
+  };
+
+  // External listings have no Supabase row, so hiding them only sticks on this device
+  const hideListing = async (listingId: string) => {
+    if (!currentUser?.isAdmin) return;
+
+    if (!hiddenListingIdList.includes(listingId)) {
+      const updatedIds = [...hiddenListingIdList, listingId];
+      setHiddenListingIdList(updatedIds);
+      await AsyncStorage.setItem(STORAGE_KEYS.HIDDEN_LISTINGS, JSON.stringify(updatedIds));
+    }
+    await hideListingInSupabase(listingId);
+  };
+
+  const resolveReport = async (reportId: string, action: 'dismiss' | 'suspend_user' | 'hide_listing') => {
+    if (!currentUser?.isAdmin) return;
+
+    const report = reports.find(r => r.id === reportId);
+    if (!report) return;
+
+    if (action === 'suspend_user' && report.targetType === 'user') {
+      await suspendUser(report.targetId);
+    } else if (action === 'hide_listing' && report.targetType === 'listing') {
+      await hideListing(report.targetId);
+    }
+
+    const resolvedReport: Report = {
+      ...report,
+      status: action === 'dismiss' ? 'dismissed' : 'actioned',
+      reviewedBy: currentUser.id,
+      reviewedAt: Date.now(),
+    };
+    const updatedReports = reports.map(r => (r.id === reportId ? resolvedReport : r));
+    setReports(updatedReports);
+    await AsyncStorage.setItem(STORAGE_KEYS.REPORTS, JSON.stringify(updatedReports));
+    await updateReportStatusInSupabase(resolvedReport);
+  };
+
+  const dismissMatchEvent = () => {
+    setMatchEventQueue(prevQueue => prevQueue.slice(1));
+  };
+
+  const markMatchesSeen = async () => {
+    if (unseenMatchIds.length === 0) return;
+    setUnseenMatchIds([]);
+    await AsyncStorage.setItem(STORAGE_KEYS.UNSEEN_MATCHES, JSON.stringify([]));
+  };
+
   const convertUserAccountType = async (userId: string, newLookingFor: 'both') => {
     // Update in Supabase
     try {
-      const { error } = await supabase
-        .from('users')
-        .update({ looking_for: newLookingFor })
-        .eq('id', userId);
-
-      if (error) {
-        console.error('Error updating user account type in Supabase:', error);
-      }
+      await getRepositories().users.update(userId, { lookingFor: newLookingFor });
     } catch (error) {
       console.error('Error updating user account type in Supabase:', error);
     }
@@ -945,6 +1431,14 @@ export function UserProvider({ children }: { children: ReactNode }) {
         users,
         conversations,
         likedListings,
+        swipes,
+        matches,
+        activeMatchEvent: matchEventQueue[0] || null,
+        unseenMatchCount: unseenMatchIds.length,
+        unreadMessageCount,
+        blockedUserIds,
+        reports,
+        hiddenListingIds,
         isLoaded,
         setCurrentUser,
         addUser,
@@ -952,16 +1446,37 @@ export function UserProvider({ children }: { children: ReactNode }) {
         getUserById,
         getUsersByCategory,
         sendMessage,
+        sendGroupMessage,
         getConversation,
         getConversationsForUser,
         deleteConversation,
+        markConversationRead,
+        getPendingWriteState,
+        retryPendingWrite,
         createGroupConversation,
         addParticipantToGroup,
         removeParticipantFromGroup,
+        renameGroup,
         deleteUser,
         addLikedListing,
         removeLikedListing,
         isListingLiked,
+        recordSwipe,
+        rankingModel: currentUser ? rankingModels[currentUser.id] || null : null,
+        resetRankingModel,
+        getSwipedIds,
+        getMatchesForUser,
+        dismissMatchEvent,
+        markMatchesSeen,
+        isMatchedWith,
+        unmatchUser,
+        blockUser,
+        isUserBlocked,
+        submitReport,
+        refreshReports,
+        resolveReport,
+        suspendUser,
+        hideListing,
         syncUserFromSupabase,
         convertUserAccountType,
       }}
@@ -0,0 +1,96 @@
+/**
+ * Block Service
+ *
+ * Blocking is two-way: once either user blocks the other, neither sees the
+ * other in recommendations, user lists, conversations or group pickers.
+ *
+ * Local state and AsyncStorage live in UserContext; this module owns the
+ * Supabase `blocks` table and the helpers used to filter blocked users out.
+ */
+
+import { Block } from '../types';
+import { supabase } from './supabase';
+
+/**
+ * Convert a Supabase `blocks` row to the app Block format
+ */
+function rowToBlock(row: any): Block {
+  return {
+    id: row.id,
+    blockerId: row.blocker_id,
+    blockedId: row.blocked_id,
+    createdAt: row.created_at ? new Date(row.created_at).getTime() : Date.now(),
+  };
+}
+
+/**
+ * Get every user hidden from `userId` - users they blocked and users who blocked them
+ */
+export function getHiddenUserIds(blocks: Block[], userId: string): Set<string> {
+  const hidden = new Set<string>();
+  blocks.forEach(block => {
+    if (block.blockerId === userId) {
+      hidden.add(block.blockedId);
+    } else if (block.blockedId === userId) {
+      hidden.add(block.blockerId);
+    }
+  });
+  return hidden;
+}
+
+/**
+ * Merge two block lists, keeping one block per blocker/blocked pair
+ */
+export function mergeBlocks(existing: Block[], incoming: Block[]): Block[] {
+  const byPair = new Map<string, Block>();
+  [...existing, ...incoming].forEach(block => {
+    const key = `${block.blockerId}:${block.blockedId}`;
+    if (!byPair.has(key)) {
+      byPair.set(key, block);
+    }
+  });
+  return Array.from(byPair.values());
+}
+
+/**
+ * Save a block to Supabase
+ * Errors are logged, not thrown - blocks are always kept locally
+ */
+export async function saveBlockToSupabase(block: Block): Promise<void> {
+  try {
+    const { error } = await supabase.from('blocks').insert({
+      id: block.id,
+      blocker_id: block.blockerId,
+      blocked_id: block.blockedId,
+      created_at: new Date(block.createdAt).toISOString(),
+    });
+
+    if (error) {
+      console.error('Error saving block to Supabase:', error);
+    }
+  } catch (error) {
+    console.error('Error saving block to Supabase:', error);
+  }
+}
+
+/**
+ * Fetch every block in either direction that involves a user
+ */
+export async function fetchBlocksForUser(userId: string): Promise<Block[]> {
+  try {
+    const { data, error } = await supabase
+      .from('blocks')
+      .select('*')
+      .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+
+    if (error) {
+      console.error('Error fetching blocks from Supabase:', error);
+      return [];
+    }
+
+    return (data || []).map(rowToBlock);
+  } catch (error) {
+    console.error('Error fetching blocks from Supabase:', error);
+    return [];
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Chat Image Service
+ *
+ * Images sent in chat are resized and compressed on the device, uploaded to the
+ * `chat-images` Supabase Storage bucket and sent as their public URL - a local
+ * `file://` URI only exists on the sender's phone.
+ */
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { uploadToStorage } from './storageService';
+
+const CHAT_IMAGES_BUCKET = 'chat-images';
+
+// Longest side of an uploaded chat image, in pixels
+const MAX_IMAGE_DIMENSION = 1280;
+const JPEG_COMPRESSION = 0.7;
+
+/**
+ * Work out the size to scale an image down to so its longest side fits MAX_IMAGE_DIMENSION
+ * Returns null when the image is already small enough.
+ */
+export function getResizeDimensions(width: number, height: number): { width?: number; height?: number } | null {
+  if (!width || !height || Math.max(width, height) <= MAX_IMAGE_DIMENSION) {
+    return null;
+  }
+  return width >= height ? { width: MAX_IMAGE_DIMENSION } : { height: MAX_IMAGE_DIMENSION };
+}
+
+/**
+ * Resize and re-encode a picked image as JPEG
+ * Falls back to the original URI if the image can't be processed.
+ */
+export async function compressChatImage(uri: string, width: number, height: number): Promise<string> {
+  try {
+    const context = ImageManipulator.manipulate(uri);
+    const resize = getResizeDimensions(width, height);
+    if (resize) {
+      context.resize(resize);
+    }
+    const image = await context.renderAsync();
+    const result = await image.saveAsync({ compress: JPEG_COMPRESSION, format: SaveFormat.JPEG });
+    return result.uri;
+  } catch (error) {
+    console.error('Error compressing chat image:', error);
+    return uri;
+  }
+}
+
+/**
+ * Upload a local image to the chat-images bucket
+ * Returns the public URL, or null if the upload failed.
+ */
+export async function uploadChatImage(localUri: string, userId: string): Promise<string | null> {
+  // File path: chat-images/{user_id}/{timestamp}-{random}.jpg
+  const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.jpg`;
+  return uploadToStorage(CHAT_IMAGES_BUCKET, `${userId}/${fileName}`, localUri);
+}
@@ -0,0 +1,152 @@
+/**
+ * Commute Estimates
+ *
+ * Searchers pin the places they commute to (campus, office) and pick how
+ * they get there. Commute times from a listing (or a roommate's pinned area)
+ * to those anchors feed a scoring factor in the recommender and the commute
+ * filter in PropertyListScreen and MapScreen.
+ *
+ * Estimates come from a CommuteProvider. The built-in one works offline from
+ * straight-line distance, a detour factor for the street network and a
+ * typical speed per mode. A routing-API provider can be plugged in with
+ * setCommuteProvider; providers answer synchronously (e.g. from a cache they
+ * fill in the background) and may return null to fall back to the offline
+ * estimate.
+ */
+
+import { User, CommuteAnchor, CommuteMode } from '../types';
+import { calculateDistance } from './geo';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface CommuteProvider {
+  id: string;
+  // Door-to-door minutes, or null if this provider can't tell
+  estimateMinutes: (from: LatLng, to: LatLng, mode: CommuteMode) => number | null;
+}
+
+export interface AnchorCommute {
+  anchor: CommuteAnchor;
+  minutes: number;
+}
+
+export const DEFAULT_COMMUTE_MODE: CommuteMode = 'transit';
+
+// Options for the max commute filter, in minutes
+export const MAX_COMMUTE_OPTIONS = [15, 30, 45, 60];
+
+export const COMMUTE_MODES: {
+  mode: CommuteMode;
+  label: string;
+  icon: string;
+  speedKmh: number; // Typical door-to-door speed once moving
+  overheadMinutes: number; // Waiting, parking, getting to the stop
+}[] = [
+  { mode: 'walk', label: 'Walk', icon: 'walk-outline', speedKmh: 5, overheadMinutes: 0 },
+  { mode: 'bike', label: 'Bike', icon: 'bicycle-outline', speedKmh: 15, overheadMinutes: 2 },
+  { mode: 'transit', label: 'Transit', icon: 'bus-outline', speedKmh: 20, overheadMinutes: 10 },
+  { mode: 'drive', label: 'Drive', icon: 'car-outline', speedKmh: 35, overheadMinutes: 5 },
+];
+
+// Streets are rarely a straight line
+const DETOUR_FACTOR = 1.3;
+
+// Commute that counts as acceptable when the user hasn't set a max
+const DEFAULT_TARGET_MINUTES = 30;
+
+export const offlineCommuteProvider: CommuteProvider = {
+  id: 'offline',
+  estimateMinutes: (from, to, mode) => {
+    const config = COMMUTE_MODES.find(m => m.mode === mode) || COMMUTE_MODES[0];
+    const distanceKm = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) * DETOUR_FACTOR;
+    return Math.round(config.overheadMinutes + (distanceKm / config.speedKmh) * 60);
+  },
+};
+
+let activeProvider: CommuteProvider = offlineCommuteProvider;
+
+/**
+ * Use a different commute provider (e.g. a routing API)
+ */
+export function setCommuteProvider(provider: CommuteProvider): void {
+  activeProvider = provider;
+}
+
+export function getCommuteProvider(): CommuteProvider {
+  return activeProvider;
+}
+
+/**
+ * Estimate commute minutes, falling back to the offline estimate
+ */
+export function estimateCommuteMinutes(from: LatLng, to: LatLng, mode: CommuteMode): number {
+  const minutes = activeProvider.estimateMinutes(from, to, mode);
+  if (minutes !== null) return minutes;
+  return offlineCommuteProvider.estimateMinutes(from, to, mode)!;
+}
+
+export function getCommuteMode(user: User): CommuteMode {
+  return user.commuteMode || DEFAULT_COMMUTE_MODE;
+}
+
+export function getModeLabel(mode: CommuteMode): string {
+  return COMMUTE_MODES.find(m => m.mode === mode)?.label || mode;
+}
+
+/**
+ * Commute from a place to each of the user's anchors
+ */
+export function getAnchorCommutes(user: User, from: LatLng): AnchorCommute[] {
+  const mode = getCommuteMode(user);
+  return (user.commuteAnchors || []).map(anchor => ({
+    anchor,
+    minutes: estimateCommuteMinutes(from, anchor, mode),
+  }));
+}
+
+/**
+ * The longest of the user's commutes from a place, or null if they have no anchors
+ */
+export function getLongestCommute(user: User, from: LatLng): AnchorCommute | null {
+  return getAnchorCommutes(user, from).reduce<AnchorCommute | null>(
+    (longest, commute) => (!longest || commute.minutes > longest.minutes ? commute : longest),
+    null
+  );
+}
+
+/**
+ * True if every commute from the place is within the user's max
+ * Always true when the user hasn't set a max or has no anchors.
+ */
+export function isWithinMaxCommute(user: User, from: LatLng): boolean {
+  if (!user.maxCommuteMinutes || !from.latitude || !from.longitude) return true;
+  const longest = getLongestCommute(user, from);
+  return !longest || longest.minutes <= user.maxCommuteMinutes;
+}
+
+/**
+ * Score the longest commute from a place for ranking
+ * Up to half the user's max (or 30 min) = 1, falling to 0 at twice the max.
+ * Null when the user has no anchors.
+ */
+export function scoreCommute(user: User, from: LatLng): { score: number; reason: string } | null {
+  const longest = getLongestCommute(user, from);
+  if (!longest) return null;
+
+  const target = user.maxCommuteMinutes || DEFAULT_TARGET_MINUTES;
+  const best = target / 2;
+  const worst = target * 2;
+  const score = longest.minutes <= best ? 1 : Math.max(0, (worst - longest.minutes) / (worst - best));
+  return { score, reason: describeCommute(longest, getCommuteMode(user)) };
+}
+
+/**
+ * Short description, e.g. "18 min by bike to UC Berkeley"
+ */
+export function describeCommute(commute: AnchorCommute, mode: CommuteMode): string {
+  const how = mode === 'walk' ? 'walk' : `by ${getModeLabel(mode).toLowerCase()}`;
+  return `${commute.minutes} min ${how} to ${commute.anchor.label}`;
+}
@@ -6,9 +6,10 @@
  * - Location: All queries are restricted to San Francisco, Berkeley, Palo Alto, and San Jose, CA only.
  * 
  * API Usage:
- * - Fetches 30 listings total: 15 from San Francisco, 5 each from Berkeley, Palo Alto, San Jose
- * - Implements in-memory caching to prevent duplicate requests
- * - Makes exactly 30 network requests per unique query (15 SF + 5 Berkeley + 5 Palo Alto + 5 San Jose)
+ * - Fetches up to 30 listings total: 15 from San Francisco, 5 each from Berkeley, Palo Alto, San Jose
+ * - Each city is fetched in paginated batches (at most MAX_PAGES_PER_CITY requests per city)
+ * - Deduplicates by normalized address and coordinates across cities and pages
+ * - Caches results in memory to prevent duplicate requests (PropertyContext also persists them)
  * - Filters out sale prices and non-rental properties based on statuses and price types
  * - Only accepts rental properties between $400 and $7,000/month
  * 
@@ -16,12 +17,13 @@
  * - Set EXPO_PUBLIC_DATAFINITI_API_KEY in .env file in Suite_Hearts directory
  * - Get API key from: https://datafiniti.co/
  * - Restart Expo server after adding the key: npx expo start --clear
- * - Mock data is disabled - relies entirely on Datafiniti API for real rental listings
+ * - Without a key, PropertyContext falls back to other listing providers (see listingProviders)
  */
 
-// Mock data is disabled - app uses Datafiniti API only for real rental listings
-const USE_MOCK_DATA = false;
+import { Listing, ListingAvailability } from '../types';
+import { dedupeListings, clearPersistedProperties } from './propertyCache';
 
+// A rental as ingested from Datafiniti; the app uses it as a Listing (see propertyToListing)
 export interface Property {
   id: string;
   address: string;
@@ -33,6 +35,15 @@ export interface Property {
   numBedrooms?: number;
   numBathrooms?: number;
   description?: string; // Property description from Datafiniti
+  // Richer details, when the source has them
+  amenities?: string[]; // e.g. "Dishwasher", "In-unit laundry"
+  utilities?: string;
+  petPolicy?: string;
+  squareFeet?: number;
+  yearBuilt?: number;
+  propertyType?: string; // e.g. "Apartment", "Single Family Dwelling"
+  availability?: ListingAvailability;
+  imageUrls?: string[];
 }
 
 interface DatafinitiRecord {
@@ -69,6 +80,16 @@ interface DatafinitiRecord {
   numBathroom?: number;
   numBedrooms?: number;
   numBathrooms?: number;
+  imageURLs?: string[];
+  floorSizeValue?: number | string;
+  floorSizeUnit?: string; // e.g. "sq ft", "sq. Ft."
+  yearBuilt?: number | string;
+  propertyType?: string;
+  petPolicy?: string;
+  leasingTerms?: Array<{
+    value?: string;
+    dateSeen?: string;
+  }>;
 }
 
 interface DatafinitiResponse {
@@ -76,8 +97,85 @@ interface DatafinitiResponse {
   num_found?: number;
 }
 
-// In-memory cache keyed by query string
+// Listings wanted per city, SF first
+const CITY_QUOTAS: { city: string; count: number }[] = [
+  { city: 'San Francisco', count: 15 },
+  { city: 'Berkeley', count: 5 },
+  { city: 'Palo Alto', count: 5 },
+  { city: 'San Jose', count: 5 },
+];
+
+// Records requested per page
+const BATCH_SIZE = 10;
+// Most pages fetched for one city, in case many records are filtered out
+const MAX_PAGES_PER_CITY = 3;
+
+// Feature keys whose values are amenities worth listing (Datafiniti features also hold price history etc.)
+const AMENITY_FEATURE_PATTERN = /amenit|appliance|interior|laundry|parking|heating|cooling|community|building/i;
+const MAX_AMENITIES = 12;
+const MAX_IMAGES = 10;
+const SQ_FT_PER_SQ_M = 10.764;
+
+// In-memory cache keyed by user query (PropertyContext persists results via propertyCache)
 const cache: Map<string, Property[]> = new Map();
+// Fetches in progress, keyed by user query
+const inFlight: Map<string, Promise<Property[]>> = new Map();
+
+/**
+ * Values of the features whose key matches, split into single items
+ */
+function getFeatureValues(record: DatafinitiRecord, keyPattern: RegExp): string[] {
+  const values: string[] = [];
+  (record.features || []).forEach(feature => {
+    if (!feature.key || !keyPattern.test(feature.key) || !feature.value) return;
+    const raw = Array.isArray(feature.value) ? feature.value : [feature.value];
+    raw.forEach(value => {
+      value.split(/[,;]/).map(v => v.trim()).filter(Boolean).forEach(v => values.push(v));
+    });
+  });
+  return [...new Set(values)];
+}
+
+function toNumber(value: number | string | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function getSquareFeet(record: DatafinitiRecord): number | undefined {
+  const size = toNumber(record.floorSizeValue);
+  if (!size) return undefined;
+  const unit = (record.floorSizeUnit || '').toLowerCase();
+  const squareFeet = unit.includes('m') && !unit.includes('ft') ? size * SQ_FT_PER_SQ_M : size;
+  return Math.round(squareFeet);
+}
+
+/**
+ * Availability from the most recent "For Rent" status and leasing terms
+ */
+function getAvailability(record: DatafinitiRecord): ListingAvailability | undefined {
+  const rentDates = (record.statuses || [])
+    .filter(status => (status.type === 'For Rent' || status.type === 'Rent') && status.date)
+    .map(status => new Date(status.date!))
+    .filter(date => !isNaN(date.getTime()))
+    .sort((a, b) => b.getTime() - a.getTime());
+  const leasingTerms = (record.leasingTerms || [])
+    .map(term => term.value?.trim())
+    .filter((value): value is string => !!value);
+
+  if (rentDates.length === 0 && leasingTerms.length === 0) return undefined;
+  const summary = leasingTerms.join('; ') || undefined;
+  return {
+    type: summary && /sublet|sublease/i.test(summary) ? 'sublet' : 'rental',
+    availableFrom: rentDates[0]?.toISOString(),
+    summary,
+  };
+}
+
+function getImageUrls(record: DatafinitiRecord): string[] | undefined {
+  const urls = [...new Set((record.imageURLs || []).filter(url => /^https?:\/\//.test(url)))];
+  return urls.length > 0 ? urls.slice(0, MAX_IMAGES) : undefined;
+}
 
 /**
  * Transforms Datafiniti API response to Property format
@@ -337,6 +435,11 @@ function transformProperty(record: DatafinitiRecord): Property | null {
     }
   }
 
+  // Details shown on the listing page
+  const amenities = getFeatureValues(record, AMENITY_FEATURE_PATTERN).slice(0, MAX_AMENITIES);
+  const utilities = getFeatureValues(record, /utilit/i);
+  const petFeatures = getFeatureValues(record, /pet/i);
+
   return {
     id: record.id,
     address: record.address,
@@ -348,77 +451,49 @@ function transformProperty(record: DatafinitiRecord): Property | null {
     numBedrooms: numBedrooms,
     numBathrooms: numBathrooms,
     description: description,
+    amenities: amenities.length > 0 ? amenities : undefined,
+    utilities: utilities.length > 0 ? utilities.join(', ') : undefined,
+    petPolicy: record.petPolicy || (petFeatures.length > 0 ? petFeatures.join(', ') : undefined),
+    squareFeet: getSquareFeet(record),
+    yearBuilt: toNumber(record.yearBuilt),
+    propertyType: record.propertyType,
+    availability: getAvailability(record),
+    imageUrls: getImageUrls(record),
   };
 }
 
 /**
- * Loads mock data from local JSON file
+ * Convert a Datafiniti property to the app's Listing model
+ * External listings have no owner and get a stock photo when displayed if they have no images.
  */
-async function loadMockData(): Promise<Property[]> {
-  try {
-    // Return mock data directly (5 total: 2 from SF, 1 each from Berkeley, Palo Alto, San Jose)
-    const mockProperties: Property[] = [
-      {
-        id: 'mock-1',
-        address: '123 Market Street',
-        city: 'San Francisco',
-        state: 'CA',
-        latitude: 37.7879,
-        longitude: -122.4075,
-        price: 3200,
-        numBedrooms: 3,
-        numBathrooms: 2,
-      },
-      {
-        id: 'mock-2',
-        address: '456 Mission Street',
-        city: 'San Francisco',
-        state: 'CA',
-        latitude: 37.7849,
-        longitude: -122.4094,
-        price: 2800,
-        numBedrooms: 2,
-        numBathrooms: 1.5,
-      },
-      {
-        id: 'mock-3',
-        address: '123 Telegraph Avenue',
-        city: 'Berkeley',
-        state: 'CA',
-        latitude: 37.8715,
-        longitude: -122.2730,
-        price: 2200,
-        numBedrooms: 2,
-        numBathrooms: 1,
-      },
-      {
-        id: 'mock-4',
-        address: '123 University Avenue',
-        city: 'Palo Alto',
-        state: 'CA',
-        latitude: 37.4419,
-        longitude: -122.1430,
-        price: 3500,
-        numBedrooms: 2,
-        numBathrooms: 2,
-      },
-      {
-        id: 'mock-5',
-        address: '123 San Fernando Street',
-        city: 'San Jose',
-        state: 'CA',
-        latitude: 37.3382,
-        longitude: -121.8863,
-        price: 2000,
-        numBedrooms: 2,
-        numBathrooms: 1,
-      },
-    ];
-    return mockProperties;
-  } catch (error) {
-    console.error('Error loading mock data:', error);
-    return [];
-  }
+export function propertyToListing(prop: Property): Listing {
+  return {
+    id: prop.id,
+    source: 'external',
+    provenance: { providerId: 'datafiniti', fetchedAt: Date.now() },
+    title: `${prop.address}, ${prop.city}`,
+    description: prop.description || '',
+    address: prop.address,
+    city: prop.city,
+    state: prop.state,
+    zipCode: '',
+    price: prop.price,
+    latitude: prop.latitude,
+    longitude: prop.longitude,
+    photos: prop.imageUrls || [],
+    bedrooms: prop.numBedrooms,
+    bathrooms: prop.numBathrooms,
+    squareFeet: prop.squareFeet,
+    availableDate: prop.availability?.availableFrom,
+    availability: prop.availability,
+    amenities: prop.amenities,
+    utilities: prop.utilities,
+    petPolicy: prop.petPolicy,
+    yearBuilt: prop.yearBuilt,
+    propertyType: prop.propertyType,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
 }
 
 /**
@@ -428,24 +503,27 @@ async function loadMockData(): Promise<Property[]> {
  * - Rental-only: Only returns rental properties (filters out "For Sale" and "Sold" properties)
  * - Location: Automatically restricts to San Francisco, Berkeley, Palo Alto, and San Jose, CA only
  * 
+ * Ingestion:
+ * - Each city is fetched in pages of BATCH_SIZE until its quota (CITY_QUOTAS) is met or
+ *   the API runs out of records; cities are fetched in parallel
+ * - Results are deduped by normalized address and coordinates (see propertyCache)
+ * - Results are kept in memory for the session; PropertyContext persists them (see propertyCache)
+ * - Concurrent calls for the same query share one fetch
+ * 
  * API Key Configuration:
  * - Set EXPO_PUBLIC_DATAFINITI_API_KEY in .env file in Suite_Hearts directory
  * - Get API key from: https://datafiniti.co/
  * - Restart Expo server: npx expo start --clear
  * 
  * @param params - Search parameters (will be merged with rental + location restrictions)
+ * @param options - forceRefresh skips the in-memory cache
  * @returns Array of Property objects (rental properties only)
  */
 export async function searchProperties(params: {
   query?: string;
   num_records?: number;
   [key: string]: any;
-} = {}): Promise<Property[]> {
-  // Use mock data if flag is set
-  if (USE_MOCK_DATA) {
-    return loadMockData();
-  }
-
+} = {}, options: { forceRefresh?: boolean } = {}): Promise<Property[]> {
   // Check for API key
   const apiKey = process.env.EXPO_PUBLIC_DATAFINITI_API_KEY;
   console.log('[Datafiniti] API Key Check:');
@@ -465,50 +543,31 @@ export async function searchProperties(params: {
   
   console.log('[Datafiniti] API key found and validated');
 
-  // Build queries: 30 separate API calls (15 for SF, 5 each for Berkeley, Palo Alto, San Jose)
   // Filter for rental properties in code (more reliable than query syntax)
   const userQuery = params.query || '';
-  
-  const sfQuery = userQuery
-    ? `province:CA AND city:"San Francisco" AND (${userQuery})`
-    : 'province:CA AND city:"San Francisco"';
-  
-  const berkeleyQuery = userQuery
-    ? `province:CA AND city:"Berkeley" AND (${userQuery})`
-    : 'province:CA AND city:"Berkeley"';
-  
-  const paloAltoQuery = userQuery
-    ? `province:CA AND city:"Palo Alto" AND (${userQuery})`
-    : 'province:CA AND city:"Palo Alto"';
-  
-  const sanJoseQuery = userQuery
-    ? `province:CA AND city:"San Jose" AND (${userQuery})`
-    : 'province:CA AND city:"San Jose"';
-
-  // Create cache keys for all 30 calls
-  const sfCacheKeys = Array.from({ length: 15 }, (_, i) => `sf${i + 1}_${sfQuery}`);
-  const berkeleyCacheKeys = Array.from({ length: 5 }, (_, i) => `berkeley${i + 1}_${berkeleyQuery}`);
-  const paloAltoCacheKeys = Array.from({ length: 5 }, (_, i) => `paloalto${i + 1}_${paloAltoQuery}`);
-  const sanJoseCacheKeys = Array.from({ length: 5 }, (_, i) => `sanjose${i + 1}_${sanJoseQuery}`);
-  const allCacheKeys = [...sfCacheKeys, ...berkeleyCacheKeys, ...paloAltoCacheKeys, ...sanJoseCacheKeys];
 
   // Check cache first
-  if (allCacheKeys.every(key => cache.has(key))) {
+  const cached = cache.get(userQuery);
+  if (cached && !options.forceRefresh) {
     console.log('Using cached properties');
-    const cachedProperties: Property[] = [];
-    allCacheKeys.forEach(key => {
-      const props = cache.get(key);
-      if (props) {
-        cachedProperties.push(...props);
-      }
-    });
-    return cachedProperties;
+    return cached;
+  }
+
+  const pending = inFlight.get(userQuery);
+  if (pending) {
+    console.log('[Datafiniti] Fetch already in progress, waiting for it');
+    return pending;
   }
 
-  const fetchPropertiesForQuery = async (query: string, numRecords: number, queryType: string): Promise<Property[]> => {
+  const fetchPropertiesForQuery = async (
+    query: string,
+    numRecords: number,
+    page: number,
+    queryType: string
+  ): Promise<{ properties: Property[]; recordCount: number }> => {
     console.log(`\n[Datafiniti] ===== Fetching ${queryType} Properties =====`);
     console.log(`[Datafiniti] Query: "${query}"`);
-    console.log(`[Datafiniti] Requesting ${numRecords} records`);
+    console.log(`[Datafiniti] Requesting ${numRecords} records (page ${page})`);
     
     try {
       const requestBody = {
@@ -516,6 +575,7 @@ export async function searchProperties(params: {
         format: 'JSON',
         num_records: numRecords,
         ...params,
+        page,
         city: undefined,
         state: undefined,
       };
@@ -587,7 +647,7 @@ export async function searchProperties(params: {
       if (!data.records) {
         console.warn(`[Datafiniti] No 'records' field in response`);
         console.log(`[Datafiniti] Response structure:`, Object.keys(data));
-        return [];
+        return { properties: [], recordCount: 0 };
       }
       
       if (data.records.length === 0) {
@@ -596,7 +656,7 @@ export async function searchProperties(params: {
         console.warn(`   1. No properties match this query`);
         console.warn(`   2. Query syntax is incorrect`);
         console.warn(`   3. API key doesn't have access to this data`);
-        return [];
+        return { properties: [], recordCount: 0 };
       }
       
       console.log(`[Datafiniti] First record sample:`, JSON.stringify(data.records[0], null, 2));
@@ -639,7 +699,7 @@ export async function searchProperties(params: {
       }
       
       console.log(`[Datafiniti] ===== ${queryType} Fetch Complete =====\n`);
-      return bayAreaFiltered;
+      return { properties: bayAreaFiltered, recordCount: data.records.length };
     } catch (error) {
       console.error(`[Datafiniti] ===== Error in ${queryType} Fetch =====`);
       console.error(`[Datafiniti] Error type:`, error instanceof Error ? error.constructor.name : typeof error);
@@ -652,140 +712,64 @@ export async function searchProperties(params: {
     }
   };
 
-  try {
+  // Page through one city until its quota is met or the API runs out of records
+  const fetchCity = async (city: string, count: number): Promise<Property[]> => {
+    const query = userQuery
+      ? `province:CA AND city:"${city}" AND (${userQuery})`
+      : `province:CA AND city:"${city}"`;
+    const cityProperties: Property[] = [];
+
+    for (let page = 1; page <= MAX_PAGES_PER_CITY; page++) {
+      try {
+        const { properties, recordCount } = await fetchPropertiesForQuery(query, BATCH_SIZE, page, `${city} (Page ${page})`);
+        cityProperties.push(...properties);
+        if (recordCount < BATCH_SIZE) break; // Last page
+      } catch (error) {
+        // Keep the pages we already have; only fail the city if nothing came back
+        if (cityProperties.length === 0) throw error;
+        console.error(`[Datafiniti] ${city} page ${page} failed, keeping ${cityProperties.length} properties from earlier pages`);
+        break;
+      }
+      if (dedupeListings(cityProperties).length >= count) break;
+    }
+
+    return dedupeListings(cityProperties).slice(0, count);
+  };
+
+  const ingest = async (): Promise<Property[]> => {
     console.log(`\n[Datafiniti] ==========================================`);
     console.log(`[Datafiniti] STARTING PROPERTY FETCH`);
     console.log(`[Datafiniti] ==========================================`);
-    console.log(`[Datafiniti] SF Query: "${sfQuery}" (15 calls)`);
-    console.log(`[Datafiniti] Berkeley Query: "${berkeleyQuery}" (5 calls)`);
-    console.log(`[Datafiniti] Palo Alto Query: "${paloAltoQuery}" (5 calls)`);
-    console.log(`[Datafiniti] San Jose Query: "${sanJoseQuery}" (5 calls)`);
-    console.log(`[Datafiniti] USE_MOCK_DATA: ${USE_MOCK_DATA}`);
+    CITY_QUOTAS.forEach(({ city, count }) => {
+      console.log(`[Datafiniti] ${city}: up to ${count} properties (pages of ${BATCH_SIZE})`);
+    });
+    console.log(`[Datafiniti] User query: "${userQuery}"`);
     console.log(`[Datafiniti] API Key present: ${!!apiKey}`);
-    
-    // Fetch 30 separate API calls: 15 for SF, 5 each for Berkeley, Palo Alto, San Jose
-    // Use Promise.allSettled to handle individual failures gracefully
-    const sfPromises = Array.from({ length: 15 }, (_, i) => 
-      fetchPropertiesForQuery(sfQuery, 1, `San Francisco (Call ${i + 1})`)
-    );
-    const berkeleyPromises = Array.from({ length: 5 }, (_, i) => 
-      fetchPropertiesForQuery(berkeleyQuery, 1, `Berkeley (Call ${i + 1})`)
-    );
-    const paloAltoPromises = Array.from({ length: 5 }, (_, i) => 
-      fetchPropertiesForQuery(paloAltoQuery, 1, `Palo Alto (Call ${i + 1})`)
-    );
-    const sanJosePromises = Array.from({ length: 5 }, (_, i) => 
-      fetchPropertiesForQuery(sanJoseQuery, 1, `San Jose (Call ${i + 1})`)
-    );
-    
-    const allPromises = [...sfPromises, ...berkeleyPromises, ...paloAltoPromises, ...sanJosePromises];
-    const allResults = await Promise.allSettled(allPromises);
-
-    // Process results
-    const sfProperties: Property[][] = [];
-    const berkeleyProperties: Property[][] = [];
-    const paloAltoProperties: Property[][] = [];
-    const sanJoseProperties: Property[][] = [];
-    
-    // Process SF results (first 15)
-    for (let i = 0; i < 15; i++) {
-      const result = allResults[i];
-      if (result.status === 'fulfilled') {
-        sfProperties.push(result.value);
-        console.log(`[Datafiniti] SF Call ${i + 1} succeeded: ${result.value.length} properties`);
-      } else {
-        sfProperties.push([]);
-        console.error(`[Datafiniti] SF Call ${i + 1} failed:`, result.reason);
-      }
-    }
-    
-    // Process Berkeley results (next 5)
-    for (let i = 0; i < 5; i++) {
-      const result = allResults[15 + i];
-      if (result.status === 'fulfilled') {
-        berkeleyProperties.push(result.value);
-        console.log(`[Datafiniti] Berkeley Call ${i + 1} succeeded: ${result.value.length} properties`);
-      } else {
-        berkeleyProperties.push([]);
-        console.error(`[Datafiniti] Berkeley Call ${i + 1} failed:`, result.reason);
-      }
-    }
-    
-    // Process Palo Alto results (next 5)
-    for (let i = 0; i < 5; i++) {
-      const result = allResults[20 + i];
-      if (result.status === 'fulfilled') {
-        paloAltoProperties.push(result.value);
-        console.log(`[Datafiniti] Palo Alto Call ${i + 1} succeeded: ${result.value.length} properties`);
-      } else {
-        paloAltoProperties.push([]);
-        console.error(`[Datafiniti] Palo Alto Call ${i + 1} failed:`, result.reason);
-      }
-    }
-    
-    // Process San Jose results (last 5)
-    for (let i = 0; i < 5; i++) {
-      const result = allResults[25 + i];
-      if (result.status === 'fulfilled') {
-        sanJoseProperties.push(result.value);
-        console.log(`[Datafiniti] San Jose Call ${i + 1} succeeded: ${result.value.length} properties`);
-      } else {
-        sanJoseProperties.push([]);
-        console.error(`[Datafiniti] San Jose Call ${i + 1} failed:`, result.reason);
-      }
-    }
 
-    // Cache results only if successful
-    sfProperties.forEach((props, i) => {
-      if (props.length > 0) {
-        cache.set(sfCacheKeys[i], props);
-      }
-    });
-    berkeleyProperties.forEach((props, i) => {
-      if (props.length > 0) {
-        cache.set(berkeleyCacheKeys[i], props);
-      }
-    });
-    paloAltoProperties.forEach((props, i) => {
-      if (props.length > 0) {
-        cache.set(paloAltoCacheKeys[i], props);
-      }
-    });
-    sanJoseProperties.forEach((props, i) => {
-      if (props.length > 0) {
-        cache.set(sanJoseCacheKeys[i], props);
+    // Use Promise.allSettled so one city failing doesn't lose the others
+    const results = await Promise.allSettled(CITY_QUOTAS.map(({ city, count }) => fetchCity(city, count)));
+
+    const cityProperties = results.map((result, index) => {
+      const { city } = CITY_QUOTAS[index];
+      if (result.status === 'fulfilled') {
+        console.log(`[Datafiniti] ${city} succeeded: ${result.value.length} properties`);
+        return result.value;
       }
+      console.error(`[Datafiniti] ${city} failed:`, result.reason);
+      return [];
     });
 
     // Combine results: SF first, then other cities
-    // Deduplicate by ID (same property might be returned from multiple calls)
-    const allPropertiesMap = new Map<string, Property>();
-    [...sfProperties.flat(), ...berkeleyProperties.flat(), ...paloAltoProperties.flat(), ...sanJoseProperties.flat()].forEach(prop => {
-      if (!allPropertiesMap.has(prop.id)) {
-        allPropertiesMap.set(prop.id, prop);
-      } else {
-        console.log(`[Datafiniti] Duplicate property found (ID: ${prop.id}), keeping first occurrence`);
-      }
-    });
-    const allProperties = Array.from(allPropertiesMap.values());
+    const allProperties = dedupeListings(cityProperties.flat());
 
     console.log(`\n[Datafiniti] ==========================================`);
     console.log(`[Datafiniti] FETCH SUMMARY`);
     console.log(`[Datafiniti] ==========================================`);
-    sfProperties.forEach((props, i) => {
-      console.log(`   SF Call ${i + 1}: ${props.length} properties`);
-    });
-    berkeleyProperties.forEach((props, i) => {
-      console.log(`   Berkeley Call ${i + 1}: ${props.length} properties`);
+    CITY_QUOTAS.forEach(({ city }, index) => {
+      console.log(`   ${city}: ${cityProperties[index].length} properties`);
     });
-    paloAltoProperties.forEach((props, i) => {
-      console.log(`   Palo Alto Call ${i + 1}: ${props.length} properties`);
-    });
-    sanJoseProperties.forEach((props, i) => {
-      console.log(`   San Jose Call ${i + 1}: ${props.length} properties`);
-    });
-    console.log(`   Total Properties: ${allProperties.length}`);
-    
+    console.log(`   Total Properties (after dedupe): ${allProperties.length}`);
+
     if (allProperties.length > 0) {
       const cities = [...new Set(allProperties.map(p => p.city))];
       console.log(`   Cities found: ${cities.join(', ')}`);
@@ -799,45 +783,58 @@ export async function searchProperties(params: {
       console.warn(`   4. API rate limit exceeded`);
       console.warn(`   5. Datafiniti API is down`);
     }
-    
-    const failedFetches = allResults
-      .map((result, index) => {
-        if (result.status === 'rejected') {
-          if (index < 15) return `SF Call ${index + 1}`;
-          if (index < 20) return `Berkeley Call ${index - 14}`;
-          if (index < 25) return `Palo Alto Call ${index - 19}`;
-          return `San Jose Call ${index - 24}`;
-        }
-        return null;
-      })
-      .filter(Boolean);
-    
-    if (failedFetches.length > 0) {
-      console.warn(`   Some fetches failed: ${failedFetches.join(', ')} - check errors above`);
-    }
-    
     console.log(`[Datafiniti] ==========================================\n`);
 
-    return allProperties;
-  } catch (error) {
-    console.error(`\n[Datafiniti] ==========================================`);
-    console.error(`[Datafiniti] CRITICAL ERROR IN PROPERTY FETCH`);
-    console.error(`[Datafiniti] ==========================================`);
-    console.error(`[Datafiniti] Error:`, error);
-    if (error instanceof Error) {
-      console.error(`[Datafiniti] Message:`, error.message);
-      console.error(`[Datafiniti] Stack:`, error.stack);
+    // Every city failing is an error, so callers can keep serving what they had
+    if (results.every(result => result.status === 'rejected')) {
+      throw new Error('Datafiniti API error: all city fetches failed');
+    }
+
+    // Cache results only if successful
+    if (allProperties.length > 0) {
+      cache.set(userQuery, allProperties);
     }
-    console.error(`[Datafiniti] ==========================================\n`);
-    throw error;
+
+    return allProperties;
+  };
+
+  const request = ingest()
+    .catch(error => {
+      console.error(`\n[Datafiniti] ==========================================`);
+      console.error(`[Datafiniti] CRITICAL ERROR IN PROPERTY FETCH`);
+      console.error(`[Datafiniti] ==========================================`);
+      console.error(`[Datafiniti] Error:`, error);
+      if (error instanceof Error) {
+        console.error(`[Datafiniti] Message:`, error.message);
+        console.error(`[Datafiniti] Stack:`, error.stack);
+      }
+      console.error(`[Datafiniti] ==========================================\n`);
+      throw error;
+    })
+    .finally(() => {
+      inFlight.delete(userQuery);
+    });
+
+  inFlight.set(userQuery, request);
+  return request;
+}
+
+/**
+ * Find a property already fetched this session, without hitting the network
+ */
+export function getCachedProperty(id: string): Property | null {
+  for (const properties of cache.values()) {
+    const property = properties.find(p => p.id === id);
+    if (property) return property;
   }
+  return null;
 }
 
 /**
- * Clears the in-memory cache
+ * Clears the in-memory and persisted caches
  * Useful for testing or forcing a refresh
  */
-export function clearCache(): void {
+export async function clearCache(): Promise<void> {
   cache.clear();
+  await clearPersistedProperties();
 }
-
@@ -0,0 +1,78 @@
+/**
+ * Dealbreakers
+ *
+ * Roommate traits a searcher won't compromise on ("never a smoker", "no pets").
+ * Each dealbreaker the user turns on becomes a hard filter in the roommate
+ * recommender, so candidates who violate it are removed before scoring.
+ * A candidate who hasn't answered the question is given the benefit of the doubt.
+ */
+
+import { User, DealbreakerId } from '../types';
+import type { HardFilter, RecommendationFunnel } from './recommender';
+
+export interface Dealbreaker {
+  id: DealbreakerId;
+  label: string; // Shown in the profile checklist and the funnel summary
+  // True if the candidate has the trait the user won't live with
+  violates: (candidate: User) => boolean;
+}
+
+export const DEALBREAKERS: Dealbreaker[] = [
+  {
+    id: 'smoking',
+    label: 'Never a smoker',
+    violates: candidate => !!candidate.smoking && candidate.smoking !== 'Never',
+  },
+  {
+    id: 'pets',
+    label: 'No pets',
+    violates: candidate => candidate.pets === 'Yes',
+  },
+  {
+    id: 'guests',
+    label: 'Guests only with permission',
+    violates: candidate => candidate.guestsAllowed === 'always okay',
+  },
+  {
+    id: 'drugs',
+    label: 'No drug use',
+    violates: candidate => !!candidate.drugs && candidate.drugs !== 'Never',
+  },
+  {
+    id: 'drinking',
+    label: 'Rarely or never drinks',
+    violates: candidate => candidate.drinking === 'Sometimes' || candidate.drinking === 'Often',
+  },
+];
+
+export function getDealbreaker(id: string): Dealbreaker | undefined {
+  return DEALBREAKERS.find(d => d.id === id);
+}
+
+/**
+ * Filter ID used for a dealbreaker in the recommender (and its funnel)
+ */
+export function getDealbreakerFilterId(id: DealbreakerId): string {
+  return `dealbreaker:${id}`;
+}
+
+/**
+ * One hard filter per dealbreaker; each only applies when the scoring user has turned it on
+ * Mutual, so candidates whose own dealbreakers rule out the user are removed too.
+ */
+export const DEALBREAKER_FILTERS: HardFilter<User>[] = DEALBREAKERS.map(dealbreaker => ({
+  id: getDealbreakerFilterId(dealbreaker.id),
+  label: dealbreaker.label,
+  mutual: true,
+  passes: (user, candidate) =>
+    !user.dealbreakers?.includes(dealbreaker.id) || !dealbreaker.violates(candidate),
+}));
+
+/**
+ * Pull the dealbreaker stages out of a recommendation funnel
+ */
+export function getDealbreakerRemovals(funnel: RecommendationFunnel): { label: string; count: number }[] {
+  return funnel.removedBy
+    .filter(stage => DEALBREAKER_FILTERS.some(filter => filter.id === stage.id))
+    .map(stage => ({ label: stage.label || stage.id, count: stage.count }));
+}
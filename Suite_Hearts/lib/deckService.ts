@@ -0,0 +1,183 @@
+/**
+ * Deck Service
+ *
+ * Turns ranked recommendations into the order cards are dealt in the swipe
+ * deck, and serves that deck a page at a time.
+ *
+ * - Diversity: candidates from the same cluster (university, city) as cards
+ *   dealt just before them are pushed back, so one cluster can't fill the deck.
+ * - Exploration: a small, fixed share of candidates get a boost so the user
+ *   also sees people the rules would rank lower.
+ * - Stability: every choice is derived from a seed (the user's ID) and the
+ *   candidate IDs, never Math.random. Cards are dealt a page at a time and the
+ *   dealt order is frozen and persisted (DeckState), so re-renders, profile
+ *   updates and restarts never reshuffle cards already dealt; ranking changes
+ *   (e.g. the learned model) only affect pages that haven't been dealt yet.
+ *
+ * When the deck runs out, SwipeScreen refills it once with RELAXED_THRESHOLD
+ * instead of showing a dead end.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { User } from '../types';
+import type { Recommendation } from './recommender';
+
+export const DECK_PAGE_SIZE = 10;
+
+// Score threshold used for the refill once the regular deck is exhausted
+export const RELAXED_THRESHOLD = 0.1;
+
+const STORAGE_KEY_PREFIX = '@suite_hearts:deck:';
+
+export interface DeckOptions<T> {
+  seed: string; // e.g. the current user's ID
+  getClusters?: (item: T) => string[]; // Groups that shouldn't dominate, e.g. ['university:ucla']
+  explorationRate?: number; // Share of candidates that get an exploration boost (default 0.1)
+  explorationBoost?: number; // Added to a boosted candidate's score (default 0.15)
+  diversityWindow?: number; // How many recent cards are checked for the same cluster (default 5)
+  diversityPenalty?: number; // Subtracted per recent card sharing a cluster (default 0.08)
+  limit?: number; // Stop after this many cards (default: order every candidate)
+  recent?: T[]; // Cards dealt just before these, counted for diversity
+}
+
+export interface DeckState {
+  dealtIds: string[]; // Every card dealt so far, in dealing order (never re-ordered)
+  isRelaxed: boolean; // True once the deck has been refilled with RELAXED_THRESHOLD
+}
+
+const DEFAULT_EXPLORATION_RATE = 0.1;
+const DEFAULT_EXPLORATION_BOOST = 0.15;
+const DEFAULT_DIVERSITY_WINDOW = 5;
+const DEFAULT_DIVERSITY_PENALTY = 0.08;
+
+/**
+ * Stable hash of a string to [0, 1) (FNV-1a)
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Clusters a roommate candidate belongs to, for deck diversity
+ */
+export function getRoommateClusters(user: User): string[] {
+  const clusters: string[] = [];
+  if (user.university) clusters.push(`university:${user.university.trim().toLowerCase()}`);
+  const city = user.preferredCity || user.location;
+  if (city) clusters.push(`city:${city.trim().toLowerCase()}`);
+  return clusters;
+}
+
+/**
+ * Order recommendations for dealing
+ * Greedy: each slot goes to the candidate with the best score after the
+ * exploration boost and the penalty for repeating recent clusters.
+ */
+export function orderDeck<T extends { id: string }>(
+  recommendations: Recommendation<T>[],
+  options: DeckOptions<T>
+): Recommendation<T>[] {
+  const explorationRate = options.explorationRate ?? DEFAULT_EXPLORATION_RATE;
+  const explorationBoost = options.explorationBoost ?? DEFAULT_EXPLORATION_BOOST;
+  const diversityWindow = options.diversityWindow ?? DEFAULT_DIVERSITY_WINDOW;
+  const diversityPenalty = options.diversityPenalty ?? DEFAULT_DIVERSITY_PENALTY;
+  const limit = options.limit ?? recommendations.length;
+
+  const remaining = recommendations.map(rec => {
+    const tiebreak = hashToUnit(`${options.seed}:${rec.item.id}`);
+    const explore = hashToUnit(`${options.seed}:explore:${rec.item.id}`) < explorationRate;
+    return {
+      rec,
+      tiebreak,
+      baseScore: rec.score + (explore ? explorationBoost : 0),
+      clusters: options.getClusters ? options.getClusters(rec.item) : [],
+    };
+  });
+
+  const deck: Recommendation<T>[] = [];
+  const recentClusters: string[][] = (options.recent || [])
+    .slice(-diversityWindow)
+    .map(item => (options.getClusters ? options.getClusters(item) : []));
+
+  while (remaining.length > 0 && deck.length < limit) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const repeats = candidate.clusters.reduce(
+        (count, cluster) => count + recentClusters.filter(recent => recent.includes(cluster)).length,
+        0
+      );
+      const score = candidate.baseScore - repeats * diversityPenalty;
+      const best = remaining[bestIndex];
+      if (
+        score > bestScore ||
+        (score === bestScore && (candidate.tiebreak < best.tiebreak ||
+          (candidate.tiebreak === best.tiebreak && candidate.rec.item.id < best.rec.item.id)))
+      ) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    deck.push(picked.rec);
+    recentClusters.push(picked.clusters);
+    if (recentClusters.length > diversityWindow) recentClusters.shift();
+  }
+
+  return deck;
+}
+
+export function createDeckState(): DeckState {
+  return { dealtIds: [], isRelaxed: false };
+}
+
+/**
+ * Deal the next page of the deck
+ * Only candidates that haven't been dealt are ordered (after `rank`, e.g. the
+ * learned model, re-scores them), and only as many as fit on the page; the
+ * page is appended after the cards already dealt, which keep their order.
+ */
+export function dealDeckPage<T extends { id: string }>(
+  state: DeckState,
+  candidates: Recommendation<T>[],
+  options: DeckOptions<T> & { rank?: (undealt: Recommendation<T>[]) => Recommendation<T>[] },
+  pageSize: number = DECK_PAGE_SIZE
+): { state: DeckState; page: Recommendation<T>[] } {
+  const dealtIds = new Set(state.dealtIds);
+  const undealt = candidates.filter(rec => !dealtIds.has(rec.item.id));
+  const ranked = options.rank ? options.rank(undealt) : undealt;
+  const page = orderDeck(ranked, { ...options, limit: pageSize });
+  return {
+    state: { ...state, dealtIds: [...state.dealtIds, ...page.map(rec => rec.item.id)] },
+    page,
+  };
+}
+
+/**
+ * Read the persisted deck for a key (e.g. `roommates:${userId}`)
+ */
+export async function loadDeckState(key: string): Promise<DeckState> {
+  try {
+    const stored = await AsyncStorage.getItem(`${STORAGE_KEY_PREFIX}${key}`);
+    if (!stored) return createDeckState();
+    const state: DeckState = JSON.parse(stored);
+    return Array.isArray(state.dealtIds) ? state : createDeckState();
+  } catch (error) {
+    console.error('[DeckService] Error reading deck:', error);
+    return createDeckState();
+  }
+}
+
+export async function saveDeckState(key: string, state: DeckState): Promise<void> {
+  try {
+    await AsyncStorage.setItem(`${STORAGE_KEY_PREFIX}${key}`, JSON.stringify(state));
+  } catch (error) {
+    console.error('[DeckService] Error saving deck:', error);
+  }
+}
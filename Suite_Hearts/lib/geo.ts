@@ -0,0 +1,71 @@
+/**
+ * Geo helpers shared by the recommender factors
+ */
+
+/**
+ * City center coordinates (latitude, longitude), keyed by normalized city name
+ */
+export const CITY_CENTERS: Record<string, { lat: number; lon: number }> = {
+  'san francisco': { lat: 37.7749, lon: -122.4194 },
+  'berkeley': { lat: 37.8715, lon: -122.2730 },
+  'palo alto': { lat: 37.4419, lon: -122.1430 },
+  'san jose': { lat: 37.3382, lon: -121.8863 },
+  'santa clara': { lat: 37.3541, lon: -121.9552 },
+  'mountain view': { lat: 37.3861, lon: -122.0839 },
+  'sunnyvale': { lat: 37.3688, lon: -122.0363 },
+  'los gatos': { lat: 37.2358, lon: -121.9624 },
+  'cupertino': { lat: 37.3230, lon: -122.0322 },
+  'fremont': { lat: 37.5485, lon: -121.9886 },
+  'san mateo': { lat: 37.5630, lon: -122.3255 },
+  'milpitas': { lat: 37.4323, lon: -121.8996 },
+  'campbell': { lat: 37.2872, lon: -121.9500 },
+  'saratoga': { lat: 37.2638, lon: -122.0230 },
+  'redwood city': { lat: 37.4852, lon: -122.2364 },
+  'foster city': { lat: 37.5585, lon: -122.2711 },
+  'newark': { lat: 37.5297, lon: -122.0402 },
+};
+
+// Cities close enough that a listing in one is worth showing to someone looking in another
+const BAY_AREA_CITIES = ['san francisco', 'berkeley', 'palo alto', 'san jose'];
+
+/**
+ * Normalize city name for comparison (handles variations like "SF" vs "San Francisco")
+ */
+export function normalizeCityName(city: string): string {
+  const normalized = city.trim().toLowerCase();
+  // Handle common variations
+  if (normalized === 'sf' || normalized === 'san francisco') {
+    return 'san francisco';
+  }
+  return normalized;
+}
+
+/**
+ * Whether two (normalized) cities are both in the Bay Area
+ */
+export function areNearbyCities(cityA: string, cityB: string): boolean {
+  return BAY_AREA_CITIES.includes(cityA) && BAY_AREA_CITIES.includes(cityB);
+}
+
+/**
+ * Get the center of a city, if we know it
+ */
+export function getCityCenter(city: string): { lat: number; lon: number } | null {
+  return CITY_CENTERS[normalizeCityName(city)] || null;
+}
+
+/**
+ * Calculate distance between two coordinates (Haversine formula)
+ * Returns distance in kilometers
+ */
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Earth's radius in kilometers
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
@@ -0,0 +1,207 @@
+/**
+ * Group Compatibility
+ *
+ * Scores a whole prospective household (the members of a group chat) on top
+ * of the roommate recommender:
+ * - Every pair is scored both ways; the group score is the average pair score
+ *   and the lowest-scoring pair is reported as the weakest link.
+ * - The common budget window is the range every member can afford per person.
+ * - The group size is checked against each member's max housemates and
+ *   roommate/suitemate preference.
+ * - Listings are ranked for the group as a whole (combined budget, enough bedrooms).
+ */
+
+import { User, Listing } from '../types';
+import { scoreRoommate, checkRoommateFilters, recommendListings, getMatchHighlights, Recommendation } from './recommender';
+import { normalizeRoommateCount } from './roommateFactors';
+import { DEALBREAKER_FILTERS } from './dealbreakers';
+
+export interface PairCompatibility {
+  userA: User;
+  userB: User;
+  score: number; // 0 when a hard filter (city, dealbreaker) rules the pair out
+  conflicts: string[]; // Biggest conflicts first
+}
+
+export interface GroupIssue {
+  userId: string;
+  message: string;
+}
+
+export interface GroupCompatibility {
+  score: number; // Average pair score, 0-1
+  pairs: PairCompatibility[];
+  weakestLink: PairCompatibility | null;
+  budgetWindow: { min: number; max: number } | null; // Per person; null if budgets don't overlap or aren't set
+  issues: GroupIssue[]; // Group size / roommate type problems
+}
+
+/**
+ * Score one pair of members
+ */
+function scorePair(userA: User, userB: User): PairCompatibility {
+  // Members are already in the group, so only the filters about living together apply
+  const blocked = checkRoommateFilters(userA, userB);
+  if (blocked?.id === 'sameCity') {
+    return { userA, userB, score: 0, conflicts: ['Looking in different cities'] };
+  }
+  if (blocked && DEALBREAKER_FILTERS.some(filter => filter.id === blocked.id)) {
+    const name = blocked.theirs ? userB.name : userA.name;
+    return {
+      userA,
+      userB,
+      score: 0,
+      conflicts: [`Dealbreaker for ${name}: ${(blocked.label || blocked.id).toLowerCase()}`],
+    };
+  }
+
+  const match = scoreRoommate(userA, userB, { skipHardFilters: true });
+  if (!match) {
+    return { userA, userB, score: 0, conflicts: [] };
+  }
+  const { conflicts } = getMatchHighlights(match.breakdown);
+  return { userA, userB, score: match.score, conflicts: conflicts.map(c => c.reason!) };
+}
+
+/**
+ * The per-person budget range every member can afford
+ * Members without a budget are ignored.
+ */
+export function getGroupBudgetWindow(members: User[]): { min: number; max: number } | null {
+  const budgets = members.filter(m => m.minBudget && m.maxBudget);
+  if (budgets.length === 0) return null;
+
+  const min = Math.max(...budgets.map(m => m.minBudget!));
+  const max = Math.min(...budgets.map(m => m.maxBudget!));
+  return max >= min ? { min, max } : null;
+}
+
+/**
+ * Bedrooms the group needs
+ * Members open to sharing a room ('roommates' or 'both') pair up; suitemates get their own.
+ */
+export function getBedroomsNeeded(members: User[]): number {
+  const canShare = members.filter(m => m.roommateType === 'roommates' || m.roommateType === 'both').length;
+  return members.length - canShare + Math.ceil(canShare / 2);
+}
+
+/**
+ * Check the group against each member's max housemates and roommate type
+ */
+function findGroupIssues(members: User[]): GroupIssue[] {
+  const issues: GroupIssue[] = [];
+  const housemates = members.length - 1;
+
+  members.forEach(member => {
+    const maxRoommates = normalizeRoommateCount(member.maxRoommates);
+    if (maxRoommates !== null && housemates > maxRoommates) {
+      issues.push({
+        userId: member.id,
+        message: `${member.name} wants at most ${maxRoommates} housemate${maxRoommates === 1 ? '' : 's'}, this group would have ${housemates}`,
+      });
+    }
+  });
+
+  // Someone who only wants roommates (shared room) and someone who only wants suitemates can't both be happy
+  const wantsRoommates = members.filter(m => m.roommateType === 'roommates');
+  const wantsSuitemates = members.filter(m => m.roommateType === 'suitemates');
+  if (wantsRoommates.length > 0 && wantsSuitemates.length > 0) {
+    const minority = wantsRoommates.length <= wantsSuitemates.length ? wantsRoommates : wantsSuitemates;
+    const type = minority === wantsRoommates ? 'roommates' : 'suitemates';
+    minority.forEach(member => {
+      issues.push({
+        userId: member.id,
+        message: `${member.name} wants ${type}, but others in the group want ${type === 'roommates' ? 'suitemates' : 'roommates'}`,
+      });
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Score a whole prospective household
+ */
+export function computeGroupCompatibility(members: User[]): GroupCompatibility {
+  const pairs: PairCompatibility[] = [];
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      pairs.push(scorePair(members[i], members[j]));
+    }
+  }
+
+  const score = pairs.length > 0 ? pairs.reduce((sum, p) => sum + p.score, 0) / pairs.length : 0;
+  const weakestLink = pairs.reduce<PairCompatibility | null>(
+    (weakest, pair) => (!weakest || pair.score < weakest.score ? pair : weakest),
+    null
+  );
+
+  return {
+    score,
+    pairs,
+    weakestLink,
+    budgetWindow: getGroupBudgetWindow(members),
+    issues: findGroupIssues(members),
+  };
+}
+
+/**
+ * Most common preferred city among the members
+ */
+function getGroupCity(members: User[]): string {
+  const counts = new Map<string, number>();
+  members.forEach(member => {
+    const city = member.preferredCity || member.location;
+    if (city) counts.set(city, (counts.get(city) || 0) + 1);
+  });
+  let best = '';
+  counts.forEach((count, city) => {
+    if (!best || count > counts.get(best)!) best = city;
+  });
+  return best;
+}
+
+/**
+ * Rank listings for the group: the rent has to fit the members' combined budget
+ * and the place needs enough bedrooms
+ */
+export function recommendListingsForGroup(
+  members: User[],
+  listings: Listing[],
+  limit?: number
+): Recommendation<Listing>[] {
+  if (members.length === 0) return [];
+
+  const budgetWindow = getGroupBudgetWindow(members);
+  const bedroomsNeeded = getBedroomsNeeded(members);
+
+  // Score the household as if it were one searcher with the combined budget
+  const household: User = {
+    ...members[0],
+    id: `group:${members.map(m => m.id).join(',')}`,
+    preferredCity: getGroupCity(members),
+    minBudget: budgetWindow ? budgetWindow.min * members.length : undefined,
+    maxBudget: budgetWindow ? budgetWindow.max * members.length : undefined,
+    // Bedrooms are checked for the whole group below; one member's pin or
+    // lease shouldn't speak for everyone
+    maxRoommates: undefined,
+    roommateType: undefined,
+    preferredLatitude: undefined,
+    preferredLongitude: undefined,
+    leaseDuration: undefined,
+    spaceType: undefined,
+    // Everyone's campus / office counts; the longest commute decides
+    commuteAnchors: members.flatMap(m => m.commuteAnchors || []),
+    commuteMode: undefined,
+    maxCommuteMinutes: undefined,
+    matchPriorities: undefined,
+    dealbreakers: undefined,
+  };
+
+  const candidates = listings.filter(listing => {
+    if (!listing.bedrooms || listing.bedrooms < bedroomsNeeded) return false;
+    return !household.maxBudget || listing.price <= household.maxBudget;
+  });
+
+  return recommendListings(household, candidates, { limit });
+}
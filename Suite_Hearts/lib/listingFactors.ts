@@ -0,0 +1,246 @@
+/**
+ * Listing Scoring Factors
+ *
+ * The built-in factors and hard filters the recommender uses to rank listings
+ * for a searcher. Each factor returns a 0-1 score, or null when the user or
+ * listing is missing the data (scored as neutral).
+ *
+ * PRIORITY ORDER (default weights):
+ * 1. Distance from the user's pinned location, or the city center if none (30%)
+ * 2. Price against the user's budget (30%)
+ * 3. Bedrooms against how many housemates the user wants (15%)
+ * 4. Move-in date against the user's lease length (10%)
+ * 5. Space type (apartment, house, ...) (10%)
+ * 6. Same city vs a nearby Bay Area city (5%)
+ * Plus commute time to the user's campus / office pins (20%), when they have any.
+ */
+
+import { User, Listing } from '../types';
+import type { ScoringFactor, HardFilter } from './recommender';
+import { normalizeCityName, areNearbyCities, getCityCenter, calculateDistance } from './geo';
+import { normalizeRoommateCount, toSpaceTypes } from './roommateFactors';
+import { scoreCommute } from './commute';
+
+// Listings this far from the reference point (km) score 0 on distance
+const MAX_DISTANCE_KM = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+// Used when we know the move-in date but not how long the user wants to stay
+const NEUTRAL_MOVE_IN_SCORE = 0.5;
+
+function getUserCity(user: User): string | null {
+  return user.preferredCity || user.location || null;
+}
+
+/**
+ * Lease length in months ("Under 1 month" counts as half a month)
+ */
+function parseLeaseMonths(leaseDuration: number | string | undefined): number | null {
+  if (leaseDuration === undefined || leaseDuration === null || leaseDuration === '') return null;
+  if (typeof leaseDuration === 'number') return leaseDuration;
+  if (leaseDuration.toLowerCase().startsWith('under')) return 0.5;
+  const months = parseInt(leaseDuration);
+  return isNaN(months) ? null : months;
+}
+
+/**
+ * Closer = higher score, measured from the user's pin when they dropped one,
+ * otherwise from the city center
+ * Uses exponential decay: 0km = 1.0, 5km ≈ 0.6, 10km ≈ 0.37, 20km ≈ 0.14, 30km+ = 0
+ */
+const distanceFactor: ScoringFactor<Listing> = {
+  id: 'distance',
+  label: 'Distance',
+  category: 'location',
+  weight: 0.3,
+  score: (user, listing) => {
+    if (!listing.latitude || !listing.longitude) return null;
+
+    const hasPin = !!user.preferredLatitude && !!user.preferredLongitude;
+    let origin: { lat: number; lon: number } | null = null;
+    if (hasPin) {
+      origin = { lat: user.preferredLatitude!, lon: user.preferredLongitude! };
+    } else {
+      const userCity = getUserCity(user);
+      if (!userCity) return null;
+      // Measure from the listing's own city center when we know it (nearby Bay Area cities)
+      origin = (listing.city && getCityCenter(listing.city)) || getCityCenter(userCity);
+    }
+    if (!origin) return null;
+
+    const distance = calculateDistance(origin.lat, origin.lon, listing.latitude, listing.longitude);
+    const place = hasPin ? 'your pin' : 'downtown';
+    if (distance >= MAX_DISTANCE_KM) {
+      return { score: 0, reason: `${Math.round(distance)} km from ${place}` };
+    }
+
+    const score = Math.exp(-distance / 10);
+    if (distance < 1) {
+      return { score, reason: hasPin ? 'Right by your pin' : 'Right downtown' };
+    }
+    return { score, reason: `${distance.toFixed(1)} km from ${place}` };
+  },
+};
+
+/**
+ * Shorter commute to the user's campus / office = higher score (see commute.ts)
+ */
+const commuteFactor: ScoringFactor<Listing> = {
+  id: 'commute',
+  label: 'Commute',
+  category: 'location',
+  weight: 0.2,
+  score: (user, listing) => {
+    if (!listing.latitude || !listing.longitude) return null;
+    return scoreCommute(user, listing);
+  },
+};
+
+/**
+ * Within budget = 1
+ * Below the minimum is still acceptable (slow decline, floor 0.3); above the maximum drops off fast
+ */
+const priceFactor: ScoringFactor<Listing> = {
+  id: 'price',
+  label: 'Price',
+  category: 'price',
+  weight: 0.3,
+  score: (user, listing) => {
+    const minBudget = user.minBudget || 0;
+    const maxBudget = user.maxBudget || 0;
+    const price = listing.price || 0;
+    if (minBudget === 0 || maxBudget === 0 || price === 0) return null;
+
+    if (price >= minBudget && price <= maxBudget) {
+      return { score: 1, reason: 'Within your budget' };
+    }
+
+    const budgetRange = maxBudget - minBudget;
+    if (price < minBudget) {
+      if (budgetRange === 0) return { score: 0.5 };
+      const score = Math.max(0.3, 1 - ((minBudget - price) / budgetRange) * 0.5);
+      return { score, reason: `$${minBudget - price} under your budget` };
+    }
+
+    const over = price - maxBudget;
+    const score = budgetRange === 0 ? 0 : Math.max(0, 1 - (over / budgetRange) * 2);
+    return { score, reason: `$${over} over your budget` };
+  },
+};
+
+/**
+ * Does the place fit the household the user wants?
+ * Each extra bedroom is another housemate (two if the user is happy to share a room).
+ * More housemates than the user's max loses score per extra person.
+ */
+const bedroomsFactor: ScoringFactor<Listing> = {
+  id: 'bedrooms',
+  label: 'Bedrooms',
+  category: 'housing',
+  weight: 0.15,
+  score: (user, listing) => {
+    const maxRoommates = normalizeRoommateCount(user.maxRoommates);
+    if (!listing.bedrooms || maxRoommates === null) return null;
+
+    const sharesRoom = user.roommateType === 'roommates';
+    const housemates = sharesRoom ? listing.bedrooms * 2 - 1 : listing.bedrooms - 1;
+    if (housemates <= maxRoommates) {
+      return { score: 1, reason: `${listing.bedrooms} bed fits your household` };
+    }
+
+    const extra = housemates - maxRoommates;
+    return {
+      score: Math.max(0, 1 - extra / (maxRoommates + 1)),
+      reason: `${extra} more housemate${extra === 1 ? '' : 's'} than you want`,
+    };
+  },
+};
+
+/**
+ * Can the user move in soon enough for the lease they want?
+ * Available now = 1; waiting costs more the shorter the lease
+ * (a month's wait matters a lot for a 2-month lease, little for 12 months).
+ */
+const moveInFactor: ScoringFactor<Listing> = {
+  id: 'moveIn',
+  label: 'Move-in date',
+  category: 'housing',
+  weight: 0.1,
+  score: (user, listing, context) => {
+    if (!listing.availableDate) return null;
+    const available = new Date(listing.availableDate).getTime();
+    if (isNaN(available)) return null;
+
+    const waitDays = Math.round((available - context.now) / DAY_MS);
+    if (waitDays <= 0) {
+      return { score: 1, reason: 'Available now' };
+    }
+
+    const leaseMonths = parseLeaseMonths(user.leaseDuration);
+    const reason = waitDays < 14 ? `Available in ${waitDays} days` : `Available in ${Math.round(waitDays / 7)} weeks`;
+    if (leaseMonths === null) return { score: NEUTRAL_MOVE_IN_SCORE, reason };
+
+    const waitMonths = waitDays / DAYS_PER_MONTH;
+    return { score: Math.max(0, 1 - waitMonths / leaseMonths), reason };
+  },
+};
+
+// Listing's space type is one the user picked = 1, otherwise 0
+const spaceTypeFactor: ScoringFactor<Listing> = {
+  id: 'spaceType',
+  label: 'Space type',
+  category: 'housing',
+  weight: 0.1,
+  score: (user, listing) => {
+    const userTypes = toSpaceTypes(user.spaceType);
+    if (userTypes.length === 0 || !listing.spaceType) return null;
+
+    const matches = userTypes.some(type => type.toLowerCase() === listing.spaceType!.toLowerCase());
+    return matches
+      ? { score: 1, reason: `${listing.spaceType}, like you wanted` }
+      : { score: 0, reason: `${listing.spaceType}, not a type you picked` };
+  },
+};
+
+// Same city = 1, a nearby Bay Area city = 0.2
+const cityFactor: ScoringFactor<Listing> = {
+  id: 'city',
+  label: 'City',
+  category: 'location',
+  weight: 0.05,
+  score: (user, listing) => {
+    const userCity = getUserCity(user);
+    if (!userCity || !listing.city) return null;
+
+    if (normalizeCityName(userCity) === normalizeCityName(listing.city)) {
+      return { score: 1, reason: `In ${listing.city}` };
+    }
+    return { score: 0.2, reason: `In nearby ${listing.city}` };
+  },
+};
+
+export const LISTING_FACTORS: ScoringFactor<Listing>[] = [
+  distanceFactor,
+  commuteFactor,
+  priceFactor,
+  bedroomsFactor,
+  moveInFactor,
+  spaceTypeFactor,
+  cityFactor,
+];
+
+export const LISTING_HARD_FILTERS: HardFilter<Listing>[] = [
+  {
+    // Same city, or both in the Bay Area; listings in other regions are skipped
+    id: 'sameRegion',
+    label: 'Outside your area',
+    passes: (user, listing) => {
+      const userCity = getUserCity(user);
+      if (!userCity || !listing.city) return true;
+      const userCityNorm = normalizeCityName(userCity);
+      const listingCityNorm = normalizeCityName(listing.city);
+      return userCityNorm === listingCityNorm || areNearbyCities(userCityNorm, listingCityNorm);
+    },
+  },
+];
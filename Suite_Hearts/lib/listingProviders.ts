@@ -0,0 +1,279 @@
+/**
+ * Listing Providers
+ *
+ * PropertyContext gets its external listings from one or more providers
+ * behind a common interface instead of calling Datafiniti directly:
+ *
+ * - datafiniti: live rentals from the Datafiniti API (needs EXPO_PUBLIC_DATAFINITI_API_KEY)
+ * - local: the data.json properties served by a local json-server (see API.js)
+ * - mock: the bundled mockListings, no network needed
+ * - supabase: listings posted in the app. The swipe deck, map and list screens also
+ *   load these themselves and drop the provider's copies (excludeUserListings)
+ *
+ * Which providers run is set with EXPO_PUBLIC_LISTING_PROVIDERS, a comma-separated
+ * list of IDs (e.g. "local,mock"). When it isn't set, Datafiniti is used if its API
+ * key is present and mock data otherwise, so the app works without an API key.
+ * The local server defaults to http://localhost:3000; set
+ * EXPO_PUBLIC_LOCAL_LISTINGS_URL to point elsewhere (e.g. your machine's IP on a device).
+ */
+
+import { Listing, ListingAvailability } from '../types';
+import { searchProperties, propertyToListing, getCachedProperty } from './datafiniti';
+import { dedupeListings, findCachedListing } from './propertyCache';
+import { getCityCenter } from './geo';
+import { getRepositories } from './repositories';
+import { mockListings } from '../mock/mockListings';
+
+export interface ListingProviderCapabilities {
+  remote: boolean; // Needs the network
+  requiresApiKey: boolean;
+  supportsQuery: boolean; // Applies ListingSearchParams.query; others return everything
+  includesUserListings: boolean; // Returns listings posted in the app
+}
+
+export interface ListingSearchParams {
+  query?: string; // Provider-specific query string (e.g. Datafiniti query syntax)
+  forceRefresh?: boolean; // Skip any cache the provider keeps
+}
+
+export interface ListingProvider {
+  id: string;
+  label: string;
+  capabilities: ListingProviderCapabilities;
+  isAvailable: () => boolean; // False when it can't run here (e.g. missing API key)
+  search: (params?: ListingSearchParams) => Promise<Listing[]>;
+  getById: (id: string) => Promise<Listing | null>;
+}
+
+export interface ProviderSearchResult {
+  listings: Listing[];
+  errors: { providerId: string; error: unknown }[];
+}
+
+const DEFAULT_LOCAL_LISTINGS_URL = 'http://localhost:3000';
+
+function hasDatafinitiApiKey(): boolean {
+  const apiKey = process.env.EXPO_PUBLIC_DATAFINITI_API_KEY;
+  return !!apiKey && apiKey !== 'your-api-key-here' && apiKey.trim() !== '';
+}
+
+export const datafinitiProvider: ListingProvider = {
+  id: 'datafiniti',
+  label: 'Datafiniti',
+  capabilities: { remote: true, requiresApiKey: true, supportsQuery: true, includesUserListings: false },
+  isAvailable: hasDatafinitiApiKey,
+  search: async (params = {}) => {
+    const properties = await searchProperties({ query: params.query }, { forceRefresh: params.forceRefresh });
+    return properties.map(propertyToListing);
+  },
+  // Only looks in the session and persisted caches; a cold search would download
+  // every city just to find one listing
+  getById: async (id) => {
+    const property = getCachedProperty(id);
+    return property ? propertyToListing(property) : findCachedListing(id);
+  },
+};
+
+/**
+ * Read an availability window like "Available for sublet from 06/15/25 - 08/31/25"
+ */
+function parseAvailabilityDates(text: string): Pick<ListingAvailability, 'availableFrom' | 'availableUntil'> {
+  const dates = (text.match(/\d{1,2}\/\d{1,2}\/\d{2,4}/g) || []).map(value => {
+    const [month, day, year] = value.split('/').map(Number);
+    const fullYear = year < 100 ? 2000 + year : year;
+    return new Date(fullYear, month - 1, day).toISOString();
+  });
+  return { availableFrom: dates[0], availableUntil: dates[1] };
+}
+
+/**
+ * Convert a data.json property (local server) to a Listing
+ * The file has no coordinates, so properties are placed near their city center,
+ * spread out by ID so they don't stack on one map pin.
+ */
+function localRecordToListing(record: any): Listing | null {
+  const center = record.city ? getCityCenter(record.city) : null;
+  if (!center || !record.address || typeof record.price !== 'number') {
+    console.warn('[ListingProviders] Skipping local property without a known city or price:', record.id);
+    return null;
+  }
+  const offset = (Number(record.id) || 0) % 10;
+  const availability: ListingAvailability | undefined = record.availabilityType || record.availabilityDates
+    ? {
+        type: record.availabilityType === 'sublet' ? 'sublet' : 'rental',
+        ...(record.availabilityDates ? parseAvailabilityDates(record.availabilityDates) : {}),
+        summary: record.availabilityDates,
+      }
+    : undefined;
+  const listedAt = record.listingDate ? new Date(record.listingDate).getTime() : Date.now();
+
+  return {
+    id: `local-${record.id}`,
+    source: 'external',
+    provenance: { providerId: 'local', externalId: String(record.id), fetchedAt: Date.now() },
+    title: `${record.address}, ${record.city}`,
+    description: record.description || '',
+    address: record.address,
+    city: record.city,
+    state: record.state || 'CA',
+    zipCode: record.zipCode || '',
+    price: record.price,
+    latitude: center.lat + (offset - 5) * 0.002,
+    longitude: center.lon + ((offset * 7) % 10 - 5) * 0.002,
+    photos: Array.isArray(record.images) && record.images.length > 0
+      ? record.images
+      : record.imageUrl ? [record.imageUrl] : [],
+    bedrooms: record.beds,
+    bathrooms: record.baths,
+    squareFeet: record.sqft,
+    availableDate: availability?.availableFrom,
+    availability,
+    amenities: Array.isArray(record.features) && record.features.length > 0 ? record.features : undefined,
+    utilities: record.utilities,
+    petPolicy: record.petPolicy,
+    yearBuilt: record.yearBuilt,
+    propertyType: record.propertyType,
+    createdAt: listedAt,
+    updatedAt: listedAt,
+  };
+}
+
+function getLocalListingsUrl(): string {
+  return process.env.EXPO_PUBLIC_LOCAL_LISTINGS_URL || DEFAULT_LOCAL_LISTINGS_URL;
+}
+
+export const localProvider: ListingProvider = {
+  id: 'local',
+  label: 'Local server',
+  capabilities: { remote: true, requiresApiKey: false, supportsQuery: false, includesUserListings: false },
+  isAvailable: () => true,
+  search: async () => {
+    const response = await fetch(`${getLocalListingsUrl()}/properties`);
+    if (!response.ok) {
+      throw new Error(`Local listings server error: ${response.status}`);
+    }
+    const records: any[] = await response.json();
+    return records
+      .filter(record => !record.status || record.status === 'Available')
+      .map(localRecordToListing)
+      .filter((l): l is Listing => l !== null);
+  },
+  getById: async (id) => {
+    const response = await fetch(`${getLocalListingsUrl()}/properties/${id.replace(/^local-/, '')}`);
+    if (!response.ok) return null;
+    return localRecordToListing(await response.json());
+  },
+};
+
+export const mockProvider: ListingProvider = {
+  id: 'mock',
+  label: 'Mock data',
+  capabilities: { remote: false, requiresApiKey: false, supportsQuery: false, includesUserListings: false },
+  isAvailable: () => true,
+  search: async () => mockListings,
+  getById: async (id) => mockListings.find(l => l.id === id) || null,
+};
+
+export const supabaseProvider: ListingProvider = {
+  id: 'supabase',
+  label: 'Posted listings',
+  capabilities: { remote: true, requiresApiKey: false, supportsQuery: false, includesUserListings: true },
+  isAvailable: () => true,
+  search: () => getRepositories().listings.list(),
+  getById: (id) => getRepositories().listings.getById(id),
+};
+
+const providers = new Map<string, ListingProvider>(
+  [datafinitiProvider, localProvider, mockProvider, supabaseProvider].map(provider => [provider.id, provider])
+);
+
+/**
+ * Add (or replace) a provider, e.g. another listings API
+ */
+export function registerListingProvider(provider: ListingProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getListingProvider(id: string): ListingProvider | null {
+  return providers.get(id) || null;
+}
+
+/**
+ * Providers enabled by environment config (see the top of this file)
+ */
+export function getActiveListingProviders(): ListingProvider[] {
+  const configured: string | undefined = process.env.EXPO_PUBLIC_LISTING_PROVIDERS;
+  if (!configured || configured.trim() === '') {
+    return [datafinitiProvider.isAvailable() ? datafinitiProvider : mockProvider];
+  }
+
+  const active: ListingProvider[] = [];
+  configured.split(',').map(id => id.trim()).filter(Boolean).forEach(id => {
+    const provider = providers.get(id);
+    if (!provider) {
+      console.warn(`[ListingProviders] Unknown listing provider "${id}", skipping`);
+    } else if (!provider.isAvailable()) {
+      console.warn(`[ListingProviders] Listing provider "${id}" isn't available here, skipping`);
+    } else if (!active.includes(provider)) {
+      active.push(provider);
+    }
+  });
+  return active;
+}
+
+/**
+ * Search several providers at once and merge their results
+ * A failing provider doesn't fail the search; its error is returned instead.
+ * Results keep provider order and external listings are deduped (the same place
+ * listed twice).
+ */
+export async function searchListingProviders(
+  activeProviders: ListingProvider[],
+  params: ListingSearchParams = {}
+): Promise<ProviderSearchResult> {
+  const results = await Promise.allSettled(activeProviders.map(provider => provider.search(params)));
+
+  const listings: Listing[] = [];
+  const errors: ProviderSearchResult['errors'] = [];
+  results.forEach((result, index) => {
+    const providerId = activeProviders[index].id;
+    if (result.status === 'fulfilled') {
+      console.log(`[ListingProviders] ${providerId}: ${result.value.length} listings`);
+      listings.push(...result.value);
+    } else {
+      console.error(`[ListingProviders] ${providerId} failed:`, result.reason);
+      errors.push({ providerId, error: result.reason });
+    }
+  });
+
+  // Only external listings are merged; each posted listing is its own unit
+  return { listings: dedupeListings(listings, listing => listing.source === 'external'), errors };
+}
+
+/**
+ * Provider results minus the listings a screen loaded itself
+ * Screens fetch posted listings directly (fresher than the cached provider
+ * results), so with the supabase provider active each would otherwise show twice.
+ */
+export function excludeUserListings(listings: Listing[], userListings: Listing[]): Listing[] {
+  const userListingIds = new Set(userListings.map(listing => listing.id));
+  return listings.filter(listing => !userListingIds.has(listing.id));
+}
+
+/**
+ * Look a listing up in the given providers, first match wins
+ */
+export async function getListingFromProviders(
+  activeProviders: ListingProvider[],
+  id: string
+): Promise<Listing | null> {
+  for (const provider of activeProviders) {
+    try {
+      const listing = await provider.getById(id);
+      if (listing) return listing;
+    } catch (error) {
+      console.error(`[ListingProviders] ${provider.id} lookup failed:`, error);
+    }
+  }
+  return null;
+}
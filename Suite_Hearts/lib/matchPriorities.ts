@@ -0,0 +1,80 @@
+/**
+ * Match Priorities
+ *
+ * Searchers can say how much each part of a match matters to them
+ * ("What matters most to me" in the profile). Each priority is a level from
+ * 1 (not important) to 5 (essential) and scales the weight of the scoring
+ * factors it covers; anything left unset stays at the default weight.
+ */
+
+import { MatchPriorities, MatchPriorityKey } from '../types';
+import type { RecommendationTarget } from './recommender';
+
+export const MIN_PRIORITY = 1;
+export const MAX_PRIORITY = 5;
+export const DEFAULT_PRIORITY = 3;
+
+export const MATCH_PRIORITIES: { key: MatchPriorityKey; label: string; icon: string }[] = [
+  { key: 'budget', label: 'Budget', icon: 'cash-outline' },
+  { key: 'cleanliness', label: 'Cleanliness', icon: 'sparkles-outline' },
+  { key: 'sleepSchedule', label: 'Sleep Schedule', icon: 'moon-outline' },
+  { key: 'pets', label: 'Pets', icon: 'paw-outline' },
+  { key: 'guests', label: 'Guests', icon: 'home-outline' },
+  { key: 'demographics', label: 'Age & Background', icon: 'people-outline' },
+];
+
+// Indexed by level - 1
+export const PRIORITY_LEVEL_LABELS = ['Not important', 'A little', 'Somewhat', 'Very', 'Essential'];
+const PRIORITY_MULTIPLIERS = [0.25, 0.5, 1, 1.75, 2.5];
+
+// Which scoring factors each priority scales, per recommender target
+const PRIORITY_FACTORS: Record<MatchPriorityKey, Record<RecommendationTarget, string[]>> = {
+  budget: { roommate: ['budget'], listing: ['price'] },
+  cleanliness: { roommate: ['cleanliness'], listing: [] },
+  sleepSchedule: { roommate: ['sleepSchedule'], listing: [] },
+  pets: { roommate: ['pets'], listing: [] },
+  guests: { roommate: ['guests'], listing: [] },
+  demographics: { roommate: ['age', 'race'], listing: [] },
+};
+
+/**
+ * Read a priority level, falling back to the default for missing or invalid values
+ */
+export function getPriorityLevel(priorities: MatchPriorities | undefined, key: MatchPriorityKey): number {
+  const level = Math.round(Number(priorities?.[key]));
+  if (isNaN(level)) return DEFAULT_PRIORITY;
+  return Math.max(MIN_PRIORITY, Math.min(MAX_PRIORITY, level));
+}
+
+/**
+ * Get the weight multiplier for each factor affected by the user's priorities
+ * Factors not in the result keep their default weight.
+ */
+export function getPriorityMultipliers(
+  target: RecommendationTarget,
+  priorities: MatchPriorities | undefined
+): Record<string, number> {
+  const multipliers: Record<string, number> = {};
+  if (!priorities) return multipliers;
+
+  MATCH_PRIORITIES.forEach(({ key }) => {
+    const multiplier = PRIORITY_MULTIPLIERS[getPriorityLevel(priorities, key) - 1];
+    PRIORITY_FACTORS[key][target].forEach(factorId => {
+      multipliers[factorId] = multiplier;
+    });
+  });
+  return multipliers;
+}
+
+/**
+ * Short summary for the profile, e.g. "Essential: Budget, Pets"
+ */
+export function describePriorities(priorities: MatchPriorities | undefined): string {
+  if (!priorities || Object.keys(priorities).length === 0) return '';
+
+  const highest = Math.max(...MATCH_PRIORITIES.map(({ key }) => getPriorityLevel(priorities, key)));
+  if (highest === DEFAULT_PRIORITY) return 'Balanced';
+
+  const top = MATCH_PRIORITIES.filter(({ key }) => getPriorityLevel(priorities, key) === highest);
+  return `${PRIORITY_LEVEL_LABELS[highest - 1]}: ${top.map(p => p.label).join(', ')}`;
+}
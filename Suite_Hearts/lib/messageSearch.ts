@@ -0,0 +1,148 @@
+/**
+ * Message Search
+ *
+ * Full-text search over the message history already stored on the device.
+ * Matching is case- and accent-insensitive and every word of the query has to
+ * appear in a message. Results come back grouped by conversation (most recent
+ * match first) with a short snippet split into highlighted/plain segments.
+ */
+
+import { Conversation, Message } from '../types';
+
+// Queries shorter than this only filter conversations by name
+export const MIN_SEARCH_LENGTH = 2;
+
+// Characters of context kept around the first match in a snippet
+const SNIPPET_CONTEXT_BEFORE = 30;
+const SNIPPET_CONTEXT_AFTER = 60;
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface MessageSearchResult {
+  message: Message;
+  snippet: SnippetSegment[];
+}
+
+export interface MessageSearchGroup {
+  conversation: Conversation;
+  results: MessageSearchResult[]; // Newest first
+}
+
+/**
+ * Lowercase and strip accents so "cafe" finds "Café"
+ * Keeps string length unchanged so indexes line up with the original text.
+ */
+function normalize(text: string): string {
+  return Array.from(text, char => {
+    const folded = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    return folded.length === char.length ? folded : char;
+  }).join('');
+}
+
+/**
+ * Split a query into the distinct words to look for
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = normalize(query.trim())
+    .split(/\s+/)
+    .filter(term => term.length > 0);
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Find every [start, end) range in `text` covered by one of the terms, merged and sorted
+ */
+function findMatchRanges(normalizedText: string, terms: string[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  terms.forEach(term => {
+    let index = normalizedText.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = normalizedText.indexOf(term, index + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Cut a snippet around the first match and split it into highlighted segments
+ */
+export function buildSnippet(text: string, ranges: [number, number][]): SnippetSegment[] {
+  if (ranges.length === 0) {
+    return [{ text, highlight: false }];
+  }
+
+  const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT_BEFORE);
+  const end = Math.min(text.length, ranges[0][1] + SNIPPET_CONTEXT_AFTER);
+  const segments: SnippetSegment[] = [];
+  let cursor = start;
+
+  ranges
+    .filter(([rangeStart, rangeEnd]) => rangeEnd > start && rangeStart < end)
+    .forEach(([rangeStart, rangeEnd]) => {
+      const from = Math.max(rangeStart, start);
+      const to = Math.min(rangeEnd, end);
+      if (from > cursor) {
+        segments.push({ text: text.slice(cursor, from), highlight: false });
+      }
+      segments.push({ text: text.slice(from, to), highlight: true });
+      cursor = to;
+    });
+
+  if (cursor < end) {
+    segments.push({ text: text.slice(cursor, end), highlight: false });
+  }
+  if (start > 0) {
+    segments[0] = { ...segments[0], text: `…${segments[0].text.trimStart()}` };
+  }
+  if (end < text.length) {
+    const last = segments.length - 1;
+    segments[last] = { ...segments[last], text: `${segments[last].text.trimEnd()}…` };
+  }
+
+  // Snippets are shown on one line
+  return segments.map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ') }));
+}
+
+/**
+ * Search the text of every message in the given conversations
+ */
+export function searchMessages(conversations: Conversation[], query: string): MessageSearchGroup[] {
+  if (query.trim().length < MIN_SEARCH_LENGTH) return [];
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const groups: MessageSearchGroup[] = [];
+  conversations.forEach(conversation => {
+    const results: MessageSearchResult[] = [];
+    conversation.messages.forEach(message => {
+      if (!message.text) return;
+      const normalizedText = normalize(message.text);
+      if (!terms.every(term => normalizedText.includes(term))) return;
+      results.push({
+        message,
+        snippet: buildSnippet(message.text, findMatchRanges(normalizedText, terms)),
+      });
+    });
+
+    if (results.length > 0) {
+      results.sort((a, b) => b.message.timestamp - a.message.timestamp);
+      groups.push({ conversation, results });
+    }
+  });
+
+  return groups.sort((a, b) => b.results[0].message.timestamp - a.results[0].message.timestamp);
+}
@@ -0,0 +1,546 @@
+/**
+ * Message Service
+ *
+ * Realtime delivery for chat. UserContext subscribes to `messages` and
+ * `conversations` changes for the logged-in user and merges every incoming
+ * row into its local conversations, so ConversationScreen and ChatScreen
+ * update live without waiting for the next full reload.
+ *
+ * Read receipts: every message carries a sent/delivered/read status, and each
+ * conversation tracks when every participant last read it (`conversation_reads`
+ * table), which also covers group chats. Neither that table nor `conversations`
+ * has a user column realtime can filter on, so both subscriptions are scoped to
+ * the user's conversation IDs.
+ *
+ * Group chats: `messages` rows are 1-on-1, so a group message is fanned out as
+ * one row per recipient. Every copy carries the conversation ID and a shared
+ * `group_message_id` (unique together with `receiver_id`), which becomes the
+ * message ID on every device so the copies collapse back into one message.
+ *
+ * All three tables need to be part of the `supabase_realtime` publication for
+ * these subscriptions to receive anything.
+ */
+
+import { Message, MessageStatus, Conversation } from '../types';
+import { supabase } from './supabase';
+import {
+  getRepositories,
+  isRepositoryError,
+  messageFromRow,
+  conversationFromRow,
+  readReceiptFromRow,
+  ConversationMeta,
+  ConversationRow,
+  ConversationReadRow,
+  ReadReceipt,
+} from './repositories';
+
+// Group chats hold at most this many people, including the creator
+export const MAX_GROUP_PARTICIPANTS = 6;
+
+// Realtime `in` filters accept at most 100 values
+const REALTIME_FILTER_LIMIT = 100;
+
+const STATUS_RANK: Record<MessageStatus, number> = { sent: 0, delivered: 1, read: 2 };
+
+/**
+ * Pick the further-along of two message statuses (status never moves backwards)
+ */
+function latestStatus(a: MessageStatus | undefined, b: MessageStatus | undefined): MessageStatus | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return STATUS_RANK[a] >= STATUS_RANK[b] ? a : b;
+}
+
+/**
+ * Count messages in a conversation the user hasn't read yet
+ * Before a user has ever opened a conversation only messages that carry a
+ * delivery status count, so history from before read receipts isn't flagged unread.
+ */
+export function getUnreadCount(conversation: Conversation, userId: string): number {
+  const lastReadAt = conversation.lastReadAt?.[userId];
+  return conversation.messages.filter(message => {
+    if (message.senderId === userId) return false;
+    if (lastReadAt === undefined) {
+      return message.status !== undefined && message.status !== 'read';
+    }
+    return message.timestamp > lastReadAt;
+  }).length;
+}
+
+/**
+ * Get the status to show on one of the user's own messages
+ * A message counts as read once every other participant has read past it.
+ */
+export function getMessageStatus(conversation: Conversation, message: Message, userId: string): MessageStatus {
+  const otherParticipants = conversation.participants.filter(id => id !== userId);
+  const readByAll =
+    otherParticipants.length > 0 &&
+    otherParticipants.every(id => (conversation.lastReadAt?.[id] ?? 0) >= message.timestamp);
+  if (readByAll) return 'read';
+  return message.status || 'sent';
+}
+
+/**
+ * Get the other participants who have read a message (for "Seen by" in group chats)
+ */
+export function getReadByIds(conversation: Conversation, message: Message): string[] {
+  return conversation.participants.filter(
+    id => id !== message.senderId && (conversation.lastReadAt?.[id] ?? 0) >= message.timestamp
+  );
+}
+
+/**
+ * Record that a participant read a conversation up to `readAt`
+ * Also marks the messages they received as read. Returns the same array when nothing changed.
+ */
+export function applyReadReceipt(
+  conversations: Conversation[],
+  conversationId: string,
+  userId: string,
+  readAt: number
+): Conversation[] {
+  const conversation = conversations.find(conv => conv.id === conversationId);
+  if (!conversation || (conversation.lastReadAt?.[userId] ?? 0) >= readAt) {
+    return conversations;
+  }
+
+  const updatedConversation: Conversation = {
+    ...conversation,
+    lastReadAt: { ...conversation.lastReadAt, [userId]: readAt },
+    messages: conversation.messages.map(message =>
+      message.senderId !== userId && message.timestamp <= readAt && !conversation.isGroup
+        ? { ...message, status: 'read' as const }
+        : message
+    ),
+  };
+  updatedConversation.lastMessage = updatedConversation.messages[updatedConversation.messages.length - 1];
+
+  return conversations.map(conv => (conv.id === conversationId ? updatedConversation : conv));
+}
+
+/**
+ * Check whether a `conversations` row includes a user
+ */
+function isConversationParticipant(row: ConversationRow, userId: string): boolean {
+  return (
+    row.participant1_id === userId ||
+    row.participant2_id === userId ||
+    (Array.isArray(row.participants) && row.participants.includes(userId))
+  );
+}
+
+/**
+ * Find the 1-on-1 conversation between two users
+ */
+function findDirectConversation(conversations: Conversation[], userIdA: string, userIdB: string): Conversation | undefined {
+  return conversations.find(
+    conv =>
+      !conv.isGroup &&
+      conv.participants.length === 2 &&
+      conv.participants.includes(userIdA) &&
+      conv.participants.includes(userIdB)
+  );
+}
+
+/**
+ * Merge a message into the conversation it belongs to
+ * Group messages go to their conversation by ID, everything else to the 1-on-1 conversation.
+ * Messages already present (e.g. the sender's optimistic copy) are deduped by ID.
+ * If no conversation exists yet, one is created (with `newConversationId` for 1-on-1 chats).
+ * Returns the same array when nothing changed so state updates can bail out.
+ */
+export function mergeMessageIntoConversations(
+  conversations: Conversation[],
+  message: Message,
+  newConversationId: string
+): Conversation[] {
+  const conversation = message.conversationId
+    ? conversations.find(conv => conv.id === message.conversationId)
+    : findDirectConversation(conversations, message.senderId, message.receiverId);
+
+  if (!conversation) {
+    // A group we haven't seen yet - the full member list arrives with its conversations row
+    return [
+      ...conversations,
+      {
+        id: message.conversationId || newConversationId,
+        participants: message.conversationId ? [message.senderId] : [message.senderId, message.receiverId],
+        messages: [message],
+        lastMessage: message,
+        isGroup: !!message.conversationId,
+        updatedAt: message.timestamp,
+      },
+    ];
+  }
+
+  const existingMessage = conversation.messages.find(m => m.id === message.id);
+  if (existingMessage) {
+    // Same message again (optimistic copy or a status update) - only the status can move forward
+    const status = latestStatus(existingMessage.status, message.status);
+    if (status === existingMessage.status) {
+      return conversations;
+    }
+    const messages = conversation.messages.map(m => (m.id === message.id ? { ...m, status } : m));
+    const updatedConversation: Conversation = {
+      ...conversation,
+      messages,
+      lastMessage: messages[messages.length - 1],
+    };
+    return conversations.map(conv => (conv.id === conversation.id ? updatedConversation : conv));
+  }
+
+  const messages = [...conversation.messages, message].sort((a, b) => a.timestamp - b.timestamp);
+  const updatedConversation: Conversation = {
+    ...conversation,
+    messages,
+    lastMessage: messages[messages.length - 1],
+    updatedAt: Math.max(conversation.updatedAt, message.timestamp),
+  };
+
+  return conversations.map(conv => (conv.id === conversation.id ? updatedConversation : conv));
+}
+
+/**
+ * Merge a conversation from Supabase into local conversations, keeping local messages
+ * A 1-on-1 conversation that was created locally from an incoming message adopts
+ * the server ID so both devices end up pointing at the same row.
+ */
+export function mergeConversation(conversations: Conversation[], meta: ConversationMeta): Conversation[] {
+  const existing =
+    conversations.find(conv => conv.id === meta.id) ||
+    (!meta.isGroup && meta.participants.length === 2
+      ? findDirectConversation(conversations, meta.participants[0], meta.participants[1])
+      : undefined);
+
+  if (!existing) {
+    return [...conversations, { ...meta, messages: [] }];
+  }
+
+  const updatedConversation: Conversation = {
+    ...existing,
+    id: meta.id,
+    participants: meta.participants.length > 0 ? meta.participants : existing.participants,
+    isGroup: meta.isGroup,
+    groupName: meta.groupName,
+    updatedAt: Math.max(existing.updatedAt, meta.updatedAt),
+  };
+
+  return conversations.map(conv => (conv === existing ? updatedConversation : conv));
+}
+
+/**
+ * Subscribe to new messages for a user
+ * Conversation changes and read receipts come from subscribeToConversationUpdates.
+ * Returns an unsubscribe function for use as a useEffect cleanup.
+ */
+export function subscribeToConversationChanges(
+  userId: string,
+  handlers: {
+    onMessage: (message: Message) => void;
+  }
+): () => void {
+  const channel = supabase
+    .channel(`conversations-${userId}`)
+    // Messages sent to this user
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter: `receiver_id=eq.${userId}` },
+      payload => handlers.onMessage(messageFromRow(payload.new as any))
+    )
+    // Messages this user sent (from another device), plus their delivered/read updates
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'messages', filter: `sender_id=eq.${userId}` },
+      payload => {
+        const row = payload.new as any;
+        if (row && row.id) {
+          handlers.onMessage(messageFromRow(row));
+        }
+      }
+    )
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Error subscribing to conversation changes:', error || status);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel).catch(err => {
+      console.error('Error removing conversation channel:', err);
+    });
+  };
+}
+
+/**
+ * The conversations to watch with subscribeToConversationUpdates: the most
+ * recently active ones, sorted by ID so the list only changes when the set does
+ */
+export function getWatchedConversationIds(conversations: Conversation[]): string[] {
+  return [...conversations]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, REALTIME_FILTER_LIMIT)
+    .map(conv => conv.id)
+    .sort();
+}
+
+/**
+ * Subscribe to changes and read receipts for a set of conversations
+ * Filtered on the server, so re-subscribe whenever the set changes. Groups the
+ * user is added to later show up through their first message instead.
+ * Returns an unsubscribe function for use as a useEffect cleanup.
+ */
+export function subscribeToConversationUpdates(
+  userId: string,
+  conversationIds: string[],
+  handlers: {
+    onConversation: (conversation: ConversationMeta) => void;
+    onRead: (receipt: ReadReceipt) => void;
+  }
+): () => void {
+  if (conversationIds.length === 0) return () => {};
+
+  const idList = conversationIds.join(',');
+
+  const channel = supabase
+    .channel(`conversation-updates-${userId}`)
+    // Other participants reading one of these conversations
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'conversation_reads',
+        filter: `conversation_id=in.(${idList})`,
+      },
+      payload => {
+        const row = payload.new as ConversationReadRow;
+        if (row && row.conversation_id && row.user_id !== userId) {
+          handlers.onRead(readReceiptFromRow(row));
+        }
+      }
+    )
+    // Renames and membership changes; still checked here since a group can drop this user
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'conversations', filter: `id=in.(${idList})` },
+      payload => {
+        const row = payload.new as ConversationRow;
+        if (row && row.id && isConversationParticipant(row, userId)) {
+          handlers.onConversation(conversationFromRow(row));
+        }
+      }
+    )
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Error subscribing to conversation updates:', error || status);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel).catch(err => {
+      console.error('Error removing conversation updates channel:', err);
+    });
+  };
+}
+
+/**
+ * The `messages` row to mark delivered when a message reaches this user's
+ * device: their own copy for group messages. Null when there's nothing to mark
+ * (sent by this user, or already delivered or read).
+ */
+export function getUndeliveredRowId(message: Message, userId: string): string | null {
+  if (message.status !== 'sent') return null;
+  if (message.copy) {
+    return message.copy.receiverId === userId ? message.copy.rowId : null;
+  }
+  return message.receiverId === userId ? message.id : null;
+}
+
+/**
+ * Messages sent to a user that haven't reached any of their devices yet
+ * (e.g. sent while they were offline), for catching up on launch
+ */
+export async function fetchUndeliveredMessages(userId: string): Promise<Message[]> {
+  try {
+    return await getRepositories().messages.listUndelivered(userId);
+  } catch (error) {
+    console.error('Error fetching undelivered messages from Supabase:', error);
+    return [];
+  }
+}
+
+/**
+ * Mark messages delivered once they reach the receiver's device
+ * Takes `messages` row IDs (see getUndeliveredRowId).
+ */
+export async function markMessagesDeliveredInSupabase(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) return;
+
+  try {
+    await getRepositories().messages.markDelivered(messageIds);
+  } catch (error) {
+    console.error('Error marking messages delivered in Supabase:', error);
+  }
+}
+
+/**
+ * Save a read receipt: the reader's `conversation_reads` row, plus the read
+ * status on every 1-on-1 message they received from the other participants
+ */
+export async function saveReadReceiptToSupabase(conversation: Conversation, readerId: string, readAt: number): Promise<void> {
+  try {
+    const { error } = await supabase.from('conversation_reads').upsert(
+      {
+        conversation_id: conversation.id,
+        user_id: readerId,
+        last_read_at: new Date(readAt).toISOString(),
+      },
+      { onConflict: 'conversation_id,user_id' }
+    );
+
+    if (error) {
+      console.error('Error saving read receipt to Supabase:', error);
+    }
+
+    if (!conversation.isGroup) {
+      const senderIds = conversation.participants.filter(id => id !== readerId);
+      try {
+        await getRepositories().messages.markRead(readerId, senderIds);
+      } catch (messagesError) {
+        console.error('Error marking messages read in Supabase:', messagesError);
+      }
+    }
+  } catch (error) {
+    console.error('Error saving read receipt to Supabase:', error);
+  }
+}
+
+/**
+ * Fetch every participant's last-read time for a set of conversations
+ */
+export async function fetchReadReceipts(conversationIds: string[]): Promise<ReadReceipt[]> {
+  if (conversationIds.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('conversation_reads')
+      .select('*')
+      .in('conversation_id', conversationIds);
+
+    if (error) {
+      console.error('Error fetching read receipts from Supabase:', error);
+      return [];
+    }
+
+    return ((data || []) as ConversationReadRow[]).map(readReceiptFromRow);
+  } catch (error) {
+    console.error('Error fetching read receipts from Supabase:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a 1-on-1 message and its conversation row to Supabase
+ * Safe to call again for the same message (outbox retries): a duplicate message
+ * insert counts as already saved, and the conversation row is looked up by pair.
+ * Returns whether everything was written, plus the conversation ID the server uses.
+ */
+export async function saveMessageToSupabase(
+  message: Message,
+  conversationId: string,
+  isNewConversation: boolean
+): Promise<{ saved: boolean; conversationId: string }> {
+  const { messages, conversations } = getRepositories();
+  const { senderId, receiverId, imageUrl } = message;
+  let saved = true;
+
+  // Save message to Supabase FIRST (before creating conversation with foreign key)
+  try {
+    await messages.insert(message);
+  } catch (error) {
+    // A duplicate means an earlier attempt already saved this message
+    if (!isRepositoryError(error, 'duplicate')) {
+      console.error('Error saving message to Supabase:', error);
+      saved = false;
+      // If the image_url column doesn't exist yet, save the text without it
+      if (isRepositoryError(error, 'missing_column') && imageUrl) {
+        try {
+          await messages.insert({ ...message, imageUrl: undefined });
+          saved = true;
+        } catch (retryError) {
+          if (isRepositoryError(retryError, 'duplicate')) {
+            saved = true;
+          } else {
+            console.error('Error saving message (retry without image_url):', retryError);
+          }
+        }
+      }
+    }
+  }
+
+  // The conversation row points at the message, so it can't be written without it
+  if (!saved) {
+    return { saved, conversationId };
+  }
+
+  try {
+    if (isNewConversation) {
+      // Create conversation in Supabase (message now exists, so foreign key will work)
+      const existingId = await conversations.findDirectId(senderId, receiverId);
+      if (existingId) {
+        // Use existing conversation ID
+        conversationId = existingId;
+        await conversations.touch(existingId, message);
+      } else {
+        await conversations.insertDirect(conversationId, senderId, receiverId, message);
+      }
+    } else {
+      await conversations.touch(conversationId, message);
+    }
+  } catch (error) {
+    console.error('Error saving conversation to Supabase:', error);
+    saved = false;
+  }
+
+  return { saved, conversationId };
+}
+
+/**
+ * Save a group message to Supabase as one row per recipient
+ * Safe to call again for the same message (outbox retries): copies that already
+ * exist are skipped via the (group_message_id, receiver_id) unique key.
+ * Returns whether every copy and the conversation update were written.
+ */
+export async function saveGroupMessageToSupabase(message: Message, recipientIds: string[]): Promise<boolean> {
+  if (!message.conversationId) return false;
+
+  const { messages, conversations } = getRepositories();
+
+  try {
+    await messages.insertGroupCopies(message, recipientIds);
+  } catch (error) {
+    console.error('Error saving group message to Supabase:', error);
+    return false;
+  }
+
+  try {
+    await conversations.touch(message.conversationId, message);
+    return true;
+  } catch (error) {
+    console.error('Error updating group conversation in Supabase:', error);
+    return false;
+  }
+}
+
+/**
+ * Fetch a single conversation (e.g. a group this user was added to while offline)
+ */
+export async function fetchConversation(conversationId: string): Promise<ConversationMeta | null> {
+  try {
+    return await getRepositories().conversations.getById(conversationId);
+  } catch (error) {
+    console.error('Error fetching conversation from Supabase:', error);
+    return null;
+  }
+}
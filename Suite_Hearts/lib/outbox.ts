@@ -0,0 +1,224 @@
+/**
+ * Outbox
+ *
+ * Supabase writes that fail (offline, timeouts, server errors) are queued here
+ * instead of being dropped, so AsyncStorage and the backend don't silently
+ * drift apart. UserContext persists the queue and flushes it with exponential
+ * backoff - on launch, whenever the app comes back to the foreground, on a
+ * timer, and right after any write that succeeds.
+ *
+ * Every entry has an idempotency key (the message ID for messages, the user ID
+ * for profile edits) so retrying the same write twice is harmless.
+ */
+
+import { Message } from '../types';
+import { getRepositories } from './repositories';
+import { saveMessageToSupabase, saveGroupMessageToSupabase } from './messageService';
+
+export type OutboxEntry =
+  | {
+      key: string; // Idempotency key - the message ID
+      kind: 'message';
+      // recipientIds is only set for group messages, which are fanned out per recipient
+      payload: { message: Message; conversationId: string; isNewConversation: boolean; recipientIds?: string[] };
+      attempts: number;
+      nextAttemptAt: number;
+      createdAt: number;
+    }
+  | {
+      key: string; // Idempotency key - the user ID (profile edits for one user are coalesced)
+      kind: 'profile';
+      // writtenAt: when the write that produced each column's value started (see getWriteStamp)
+      payload: { userId: string; updates: Record<string, any>; writtenAt?: Record<string, number> };
+      attempts: number;
+      nextAttemptAt: number;
+      createdAt: number;
+    };
+
+export type OutboxState = 'pending' | 'failed';
+
+// After this many failed attempts an entry is shown as failed (it keeps retrying in the background)
+export const MAX_AUTO_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+let lastWriteStamp = 0;
+
+/**
+ * A strictly increasing timestamp, taken when a profile write starts
+ * Orders writes that start in the same millisecond.
+ */
+export function getWriteStamp(): number {
+  lastWriteStamp = Math.max(Date.now(), lastWriteStamp + 1);
+  return lastWriteStamp;
+}
+
+/**
+ * Exponential backoff: 2s, 4s, 8s... capped at 5 minutes
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Whether an entry should be shown as pending or failed
+ */
+export function getOutboxState(entry: OutboxEntry): OutboxState {
+  return entry.attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'pending';
+}
+
+/**
+ * Queue a failed message write
+ * The first attempt already happened, so the entry starts with one attempt on the clock.
+ */
+export function enqueueMessage(
+  entries: OutboxEntry[],
+  message: Message,
+  conversationId: string,
+  isNewConversation: boolean,
+  recipientIds?: string[]
+): OutboxEntry[] {
+  if (entries.some(e => e.kind === 'message' && e.key === message.id)) {
+    return entries;
+  }
+
+  const now = Date.now();
+  return [
+    ...entries,
+    {
+      key: message.id,
+      kind: 'message',
+      payload: { message, conversationId, isNewConversation, recipientIds },
+      attempts: 1,
+      nextAttemptAt: now + getRetryDelay(1),
+      createdAt: now,
+    },
+  ];
+}
+
+/**
+ * Queue a failed profile write that started at `writtenAt`
+ * Pending edits for the same user are merged so the newest value of each column wins.
+ */
+export function enqueueProfileUpdate(
+  entries: OutboxEntry[],
+  userId: string,
+  updates: Record<string, any>,
+  writtenAt: number = getWriteStamp()
+): OutboxEntry[] {
+  const now = Date.now();
+  const existing = entries.find(e => e.kind === 'profile' && e.key === userId);
+
+  if (existing && existing.kind === 'profile') {
+    const merged = { ...existing.payload.updates };
+    const mergedWrittenAt = { ...existing.payload.writtenAt };
+    Object.keys(updates).forEach(column => {
+      if ((mergedWrittenAt[column] ?? 0) > writtenAt) return;
+      merged[column] = updates[column];
+      mergedWrittenAt[column] = writtenAt;
+    });
+    return entries.map(e =>
+      e === existing ? { ...existing, payload: { userId, updates: merged, writtenAt: mergedWrittenAt } } : e
+    );
+  }
+
+  const columnsWrittenAt: Record<string, number> = {};
+  Object.keys(updates).forEach(column => {
+    columnsWrittenAt[column] = writtenAt;
+  });
+
+  return [
+    ...entries,
+    {
+      key: userId,
+      kind: 'profile',
+      payload: { userId, updates, writtenAt: columnsWrittenAt },
+      attempts: 1,
+      nextAttemptAt: now + getRetryDelay(1),
+      createdAt: now,
+    },
+  ];
+}
+
+/**
+ * Drop queued profile columns that a write has saved, so a retry can't
+ * overwrite them with older values
+ * `saved` maps each saved column to the stamp of the value written. Values
+ * queued from later writes (e.g. while that write was in flight) are newer
+ * than what was saved, so they stay queued.
+ */
+export function pruneProfileUpdate(entries: OutboxEntry[], userId: string, saved: Record<string, number>): OutboxEntry[] {
+  return entries
+    .map(e => {
+      if (e.kind !== 'profile' || e.key !== userId) return e;
+      const updates = { ...e.payload.updates };
+      const columnsWrittenAt = { ...e.payload.writtenAt };
+      Object.keys(saved).forEach(column => {
+        // Values queued before stamps were tracked count as old
+        if ((columnsWrittenAt[column] ?? 0) <= saved[column]) {
+          delete updates[column];
+          delete columnsWrittenAt[column];
+        }
+      });
+      return { ...e, payload: { userId, updates, writtenAt: columnsWrittenAt } };
+    })
+    .filter(e => e.kind !== 'profile' || Object.keys(e.payload.updates).length > 0);
+}
+
+/**
+ * Get the entries whose backoff has elapsed, oldest first
+ */
+export function getDueEntries(entries: OutboxEntry[], now: number): OutboxEntry[] {
+  return entries
+    .filter(e => e.nextAttemptAt <= now)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Push an entry's next attempt back after another failure
+ */
+export function markAttemptFailed(entries: OutboxEntry[], key: string): OutboxEntry[] {
+  return entries.map(e => {
+    if (e.key !== key) return e;
+    const attempts = e.attempts + 1;
+    return { ...e, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) };
+  });
+}
+
+/**
+ * Make every entry due right away, keeping attempt counts (connectivity looks back)
+ */
+export function makeEntriesDue(entries: OutboxEntry[]): OutboxEntry[] {
+  return entries.map(e => ({ ...e, nextAttemptAt: 0 }));
+}
+
+/**
+ * Make an entry due right away (manual "retry")
+ */
+export function resetEntry(entries: OutboxEntry[], key: string): OutboxEntry[] {
+  return entries.map(e => (e.key === key ? { ...e, attempts: 0, nextAttemptAt: 0 } : e));
+}
+
+/**
+ * Try an outbox entry's write once
+ * Returns true when the write went through and the entry can be removed.
+ */
+export async function performOutboxEntry(entry: OutboxEntry): Promise<boolean> {
+  if (entry.kind === 'message') {
+    const { message, conversationId, isNewConversation, recipientIds } = entry.payload;
+    if (message.conversationId && recipientIds) {
+      return saveGroupMessageToSupabase(message, recipientIds);
+    }
+    const result = await saveMessageToSupabase(message, conversationId, isNewConversation);
+    return result.saved;
+  }
+
+  try {
+    await getRepositories().users.updateColumns(entry.payload.userId, entry.payload.updates);
+    return true;
+  } catch (error) {
+    console.error('Error retrying profile update in Supabase:', error);
+    return false;
+  }
+}
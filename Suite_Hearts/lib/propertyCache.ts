@@ -0,0 +1,195 @@
+/**
+ * Property Cache
+ *
+ * Persistent layer for listing provider results (Datafiniti etc.), so a cold
+ * start can show the last results immediately instead of waiting on the network.
+ *
+ * - Results are stored in AsyncStorage per key (the active providers) with the time
+ *   they were fetched.
+ *   Entries older than PROPERTY_CACHE_TTL_MS are still served, but flagged stale
+ *   so PropertyContext refreshes them in the background.
+ * - dedupeListings merges the same place returned by different city batches,
+ *   pages or providers (see below for what counts as the same place).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Listing } from '../types';
+
+export const PROPERTY_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+const STORAGE_KEY_PREFIX = '@suite_hearts:datafiniti:';
+
+// Bumped when the stored listing shape changes, so older entries are refetched instead of served
+const CACHE_VERSION = 3;
+
+export interface CachedProperties {
+  properties: Listing[];
+  fetchedAt: number;
+  version?: number;
+}
+
+// Spelled-out address words and their usual abbreviations
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  boulevard: 'blvd',
+  drive: 'dr',
+  road: 'rd',
+  lane: 'ln',
+  court: 'ct',
+  place: 'pl',
+  terrace: 'ter',
+  apartment: 'apt',
+  unit: 'apt',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+};
+
+function getStorageKey(key: string): string {
+  return `${STORAGE_KEY_PREFIX}${key || 'all'}`;
+}
+
+// Stored entries from an older CACHE_VERSION count as missing
+function parseEntry(stored: string | null): CachedProperties | null {
+  if (!stored) return null;
+  const entry: CachedProperties = JSON.parse(stored);
+  return entry.version === CACHE_VERSION && Array.isArray(entry.properties) ? entry : null;
+}
+
+/**
+ * Normalize an address for comparison
+ * "123 Main Street, Apt #4" and "123 main st apt 4" come out the same.
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/#/g, ' apt ')
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(' ')
+    .replace(/\bapt apt\b/g, 'apt');
+}
+
+// What dedupeListings compares; both Datafiniti properties and listings have it
+interface Place {
+  address: string;
+  city: string;
+  latitude: number;
+  longitude: number;
+  price: number;
+}
+
+// Coordinates that are really "unknown" (missing values often come through as 0,0)
+function hasCoordinates(place: Place): boolean {
+  return (
+    Number.isFinite(place.latitude) &&
+    Number.isFinite(place.longitude) &&
+    !(place.latitude === 0 && place.longitude === 0)
+  );
+}
+
+/**
+ * Remove duplicate listings (or Datafiniti properties), keeping the first one seen
+ * Two are the same place if they have the same normalized address and city, or
+ * the same coordinates (to ~1m) and price (the same listing under a differently
+ * written address; skipped when the coordinates are unknown). Details missing
+ * from the kept copy are filled in from the duplicate.
+ * Items `canMerge` rejects (e.g. listings posted in the app, where two owners can
+ * post different units at one address) are kept as they are.
+ */
+export function dedupeListings<T extends Place>(items: T[], canMerge: (item: T) => boolean = () => true): T[] {
+  const byKey = new Map<string, T>();
+  const result: T[] = [];
+
+  items.forEach(item => {
+    if (!canMerge(item)) {
+      result.push({ ...item });
+      return;
+    }
+
+    const keys = [`addr:${normalizeAddress(item.address)}|${item.city.toLowerCase().trim()}`];
+    if (hasCoordinates(item)) {
+      keys.push(`geo:${item.latitude.toFixed(5)},${item.longitude.toFixed(5)}|${item.price}`);
+    }
+    const existing = keys.map(key => byKey.get(key)).find(Boolean);
+
+    if (existing) {
+      (Object.keys(item) as (keyof T)[]).forEach(key => {
+        if (existing[key] === undefined && item[key] !== undefined) {
+          (existing as any)[key] = item[key];
+        }
+      });
+      keys.forEach(key => byKey.set(key, existing));
+      return;
+    }
+
+    const copy = { ...item };
+    keys.forEach(key => byKey.set(key, copy));
+    result.push(copy);
+  });
+
+  return result;
+}
+
+export function isCacheFresh(entry: CachedProperties, now: number = Date.now()): boolean {
+  return now - entry.fetchedAt < PROPERTY_CACHE_TTL_MS;
+}
+
+/**
+ * Read the persisted properties for a key, fresh or not
+ */
+export async function loadCachedProperties(key: string = ''): Promise<CachedProperties | null> {
+  try {
+    return parseEntry(await AsyncStorage.getItem(getStorageKey(key)));
+  } catch (error) {
+    console.error('[PropertyCache] Error reading cached properties:', error);
+    return null;
+  }
+}
+
+/**
+ * Look a listing up by ID across every persisted result, whichever providers saved it
+ */
+export async function findCachedListing(id: string): Promise<Listing | null> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const entries = await AsyncStorage.multiGet(keys.filter(key => key.startsWith(STORAGE_KEY_PREFIX)));
+    for (const [, stored] of entries) {
+      const listing = parseEntry(stored)?.properties.find(item => item.id === id);
+      if (listing) return listing;
+    }
+    return null;
+  } catch (error) {
+    console.error('[PropertyCache] Error reading cached properties:', error);
+    return null;
+  }
+}
+
+export async function saveCachedProperties(key: string, properties: Listing[]): Promise<void> {
+  const entry: CachedProperties = { properties, fetchedAt: Date.now(), version: CACHE_VERSION };
+  try {
+    await AsyncStorage.setItem(getStorageKey(key), JSON.stringify(entry));
+  } catch (error) {
+    console.error('[PropertyCache] Error saving cached properties:', error);
+  }
+}
+
+/**
+ * Remove every persisted result
+ */
+export async function clearPersistedProperties(): Promise<void> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const cacheKeys = keys.filter(key => key.startsWith(STORAGE_KEY_PREFIX));
+    if (cacheKeys.length > 0) {
+      await AsyncStorage.multiRemove(cacheKeys);
+    }
+  } catch (error) {
+    console.error('[PropertyCache] Error clearing cached properties:', error);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Ranking Model
+ *
+ * A small on-device model that learns what a user actually swipes on.
+ * It is an online logistic regression over the recommender's breakdown
+ * features (one input per scoring factor, the factor's 0-1 score), trained
+ * one example at a time: right swipes and liked listings are positives,
+ * left swipes and unliked listings are negatives.
+ *
+ * The rule-based score stays in charge until there is enough data: with
+ * fewer than MIN_TRAINING_SAMPLES examples for a target the ranking is left
+ * alone, and after that the learned probability is blended in gradually.
+ * Shown match percentages are always the rule scores; only the order changes.
+ */
+
+import type { RecommendationTarget, Recommendation, FactorBreakdown } from './recommender';
+
+export interface TargetModel {
+  weights: Record<string, number>; // By factor ID
+  bias: number;
+  samples: number; // Training examples seen
+}
+
+export type RankingModel = Record<RecommendationTarget, TargetModel>;
+
+// Examples needed before the model affects the ranking
+export const MIN_TRAINING_SAMPLES = 20;
+// Examples at which the model reaches its full share of the ranking score
+const FULL_BLEND_SAMPLES = 100;
+// Largest share of the ranking score the model can have (the rules keep the rest)
+const MAX_MODEL_SHARE = 0.5;
+
+const LEARNING_RATE = 0.1;
+const L2_PENALTY = 0.001;
+
+// Factors with no data are fed in as neutral, like the recommender scores them
+const NEUTRAL_SCORE = 0.5;
+
+export function createRankingModel(): RankingModel {
+  return {
+    roommate: { weights: {}, bias: 0, samples: 0 },
+    listing: { weights: {}, bias: 0, samples: 0 },
+  };
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * One input per factor, centered on neutral so missing data doesn't push either way
+ */
+function getFeatures(breakdown: FactorBreakdown[]): Record<string, number> {
+  const features: Record<string, number> = {};
+  breakdown.forEach(b => {
+    features[b.id] = (b.score ?? NEUTRAL_SCORE) - NEUTRAL_SCORE;
+  });
+  return features;
+}
+
+/**
+ * Probability the user swipes right on a candidate with this breakdown
+ */
+export function predictLike(model: TargetModel, breakdown: FactorBreakdown[]): number {
+  const features = getFeatures(breakdown);
+  const logit = Object.keys(features).reduce(
+    (sum, id) => sum + (model.weights[id] || 0) * features[id],
+    model.bias
+  );
+  return sigmoid(logit);
+}
+
+/**
+ * Learn from one swipe (one step of stochastic gradient descent)
+ * Returns a new model; the one passed in is left unchanged.
+ */
+export function trainRankingModel(
+  model: RankingModel,
+  target: RecommendationTarget,
+  breakdown: FactorBreakdown[],
+  liked: boolean
+): RankingModel {
+  const current = model[target];
+  const features = getFeatures(breakdown);
+  const error = (liked ? 1 : 0) - predictLike(current, breakdown);
+
+  const weights = { ...current.weights };
+  Object.keys(features).forEach(id => {
+    const weight = weights[id] || 0;
+    weights[id] = weight + LEARNING_RATE * (error * features[id] - L2_PENALTY * weight);
+  });
+
+  return {
+    ...model,
+    [target]: {
+      weights,
+      bias: current.bias + LEARNING_RATE * error,
+      samples: current.samples + 1,
+    },
+  };
+}
+
+/**
+ * How much of the ranking score comes from the model (0 = rules only)
+ */
+export function getModelShare(model: TargetModel): number {
+  if (model.samples < MIN_TRAINING_SAMPLES) return 0;
+  const progress = (model.samples - MIN_TRAINING_SAMPLES) / (FULL_BLEND_SAMPLES - MIN_TRAINING_SAMPLES);
+  return MAX_MODEL_SHARE * Math.min(1, Math.max(0, progress));
+}
+
+/**
+ * Re-order recommender output using what the model has learned
+ * Falls back to the original order when there is too little data.
+ */
+export function rerankRecommendations<T extends { id: string }>(
+  model: RankingModel | null | undefined,
+  target: RecommendationTarget,
+  recommendations: Recommendation<T>[]
+): Recommendation<T>[] {
+  const targetModel = model?.[target];
+  const share = targetModel ? getModelShare(targetModel) : 0;
+  if (!targetModel || share === 0) return recommendations;
+
+  return recommendations
+    .map(rec => ({
+      rec,
+      rank: (1 - share) * rec.score + share * predictLike(targetModel, rec.breakdown),
+    }))
+    .sort((a, b) => b.rank - a.rank || a.rec.item.id.localeCompare(b.rec.item.id))
+    .map(({ rec }) => rec);
+}
@@ -0,0 +1,455 @@
+/**
+ * Recommender
+ *
+ * The single scoring engine behind every ranked list in the app (roommate and
+ * listing decks in SwipeScreen, the listing feed in PropertyListScreen).
+ *
+ * A recommendation is built from two kinds of pluggable parts, both kept in a
+ * registry per target ('roommate' | 'listing'):
+ * - Hard filters decide whether a candidate can be shown at all
+ *   (e.g. different city, blocked user).
+ * - Scoring factors each rate one aspect of the pair from 0 to 1 and say why.
+ *   The total score is the weighted average of the factor scores. A factor
+ *   with nothing to go on (missing profile data) counts as neutral (0.5).
+ *
+ * Every result carries the total, a per-factor breakdown and short
+ * human-readable reasons, so screens can explain a match as well as rank it.
+ *
+ * Roommate matches are two-sided: the pair is scored from each person's point
+ * of view (their own priorities and dealbreakers) and the two scores are
+ * combined with a harmonic mean, so a match only ranks well if it suits both.
+ *
+ * Built-in factors live in roommateFactors.ts and listingFactors.ts; new ones
+ * can be added with registerFactor / registerHardFilter. Factor weights are
+ * scaled by the scoring user's own match priorities (matchPriorities.ts).
+ */
+
+import { User, Listing } from '../types';
+import { ROOMMATE_FACTORS, ROOMMATE_HARD_FILTERS } from './roommateFactors';
+import { LISTING_FACTORS, LISTING_HARD_FILTERS } from './listingFactors';
+import { getPriorityMultipliers } from './matchPriorities';
+
+export type RecommendationTarget = 'roommate' | 'listing';
+
+// What each target ranks
+export interface CandidateTypes {
+  roommate: User;
+  listing: Listing;
+}
+
+export type FactorCategory = 'housing' | 'demographics' | 'lifestyle' | 'location' | 'price';
+
+// Shared inputs for one scoring run
+export interface ScoringContext {
+  now: number;
+  excludeIds: Set<string>; // e.g. blocked users (either direction)
+}
+
+export interface FactorResult {
+  score: number; // 0-1
+  reason?: string; // Short explanation, e.g. "Budgets overlap by $400"
+}
+
+export interface ScoringFactor<T> {
+  id: string;
+  label: string; // Shown in breakdowns, e.g. "Budget"
+  category: FactorCategory;
+  weight: number; // Default weight, relative to the other factors for the same target
+  // Return null when there isn't enough data to judge this pair
+  score: (user: User, candidate: T, context: ScoringContext) => FactorResult | null;
+}
+
+export interface HardFilter<T> {
+  id: string;
+  label?: string; // Shown in the candidate funnel, e.g. "Never a smoker"
+  mutual?: boolean; // Also applied from the candidate's side (roommate target only)
+  // Return false to drop the candidate
+  passes: (user: User, candidate: T, context: ScoringContext) => boolean;
+}
+
+export interface FactorBreakdown {
+  id: string;
+  label: string;
+  category: FactorCategory;
+  weight: number; // Share of the total (weights normalized to sum to 1)
+  score: number | null; // null = not enough data (counted as neutral)
+  contribution: number; // weight * score, the factor's part of the total
+  reason?: string;
+}
+
+export interface Recommendation<T> {
+  item: T;
+  score: number; // 0-1
+  breakdown: FactorBreakdown[];
+  reasons: string[]; // Strongest reasons first, positives before negatives
+  // Roommates only: how good the fit is for each person, before combining
+  directionalScores?: { forUser: number; forCandidate: number };
+}
+
+// How many candidates each stage removed, in filter order
+export interface RecommendationFunnel {
+  total: number;
+  removedBy: { id: string; label?: string; count: number }[]; // Only filters that removed someone
+  belowThreshold: number;
+  shown: number;
+}
+
+export interface MatchHighlights {
+  sharedTraits: FactorBreakdown[]; // Strongest agreements first
+  conflicts: FactorBreakdown[]; // Biggest disagreements first
+}
+
+export interface RecommendOptions {
+  threshold?: number; // Drop results scoring below this (default 0.3)
+  excludeIds?: Set<string>;
+  weights?: Record<string, number>; // Per-factor weight overrides, by factor ID (replace priorities)
+  ignorePriorities?: boolean; // Use default weights instead of the user's match priorities
+  skipHardFilters?: boolean; // Rank everything (e.g. a browse list that should never hide items)
+  oneSided?: boolean; // Roommates: score only from the user's side instead of both
+  limit?: number;
+}
+
+export const DEFAULT_THRESHOLD = 0.3;
+
+// Targets where the candidate is also a person whose side of the match counts
+const MUTUAL_TARGETS: RecommendationTarget[] = ['roommate'];
+
+// Score given to a factor that has nothing to go on
+const NEUTRAL_SCORE = 0.5;
+
+// Factors scoring at least this count as shared traits, below CONFLICT_SCORE as conflicts
+const SHARED_TRAIT_SCORE = 0.75;
+const CONFLICT_SCORE = 0.5;
+const MAX_REASONS = 4;
+
+type FactorRegistry = { [K in RecommendationTarget]: ScoringFactor<CandidateTypes[K]>[] };
+type FilterRegistry = { [K in RecommendationTarget]: HardFilter<CandidateTypes[K]>[] };
+
+const factorRegistry: FactorRegistry = {
+  roommate: [...ROOMMATE_FACTORS],
+  listing: [...LISTING_FACTORS],
+};
+
+const filterRegistry: FilterRegistry = {
+  roommate: [...ROOMMATE_HARD_FILTERS],
+  listing: [...LISTING_HARD_FILTERS],
+};
+
+/**
+ * Add (or replace, by ID) a scoring factor
+ */
+export function registerFactor<K extends RecommendationTarget>(target: K, factor: ScoringFactor<CandidateTypes[K]>): void {
+  const factors = factorRegistry[target] as ScoringFactor<CandidateTypes[K]>[];
+  const index = factors.findIndex(f => f.id === factor.id);
+  if (index === -1) {
+    factors.push(factor);
+  } else {
+    factors[index] = factor;
+  }
+}
+
+/**
+ * Remove a scoring factor by ID
+ */
+export function unregisterFactor(target: RecommendationTarget, factorId: string): void {
+  const factors = factorRegistry[target] as ScoringFactor<unknown>[];
+  const index = factors.findIndex(f => f.id === factorId);
+  if (index !== -1) {
+    factors.splice(index, 1);
+  }
+}
+
+/**
+ * Add (or replace, by ID) a hard filter
+ */
+export function registerHardFilter<K extends RecommendationTarget>(target: K, filter: HardFilter<CandidateTypes[K]>): void {
+  const filters = filterRegistry[target] as HardFilter<CandidateTypes[K]>[];
+  const index = filters.findIndex(f => f.id === filter.id);
+  if (index === -1) {
+    filters.push(filter);
+  } else {
+    filters[index] = filter;
+  }
+}
+
+/**
+ * Get the registered scoring factors for a target
+ */
+export function getFactors<K extends RecommendationTarget>(target: K): ScoringFactor<CandidateTypes[K]>[] {
+  return [...(factorRegistry[target] as ScoringFactor<CandidateTypes[K]>[])];
+}
+
+/**
+ * Split a breakdown into the factors worth calling out, each with a reason
+ * Shared traits are ordered by how much they add, conflicts by how much they cost.
+ */
+export function getMatchHighlights(breakdown: FactorBreakdown[], limit?: number): MatchHighlights {
+  const withReasons = breakdown.filter(b => b.reason && b.score !== null);
+  const sharedTraits = withReasons
+    .filter(b => b.score! >= SHARED_TRAIT_SCORE)
+    .sort((a, b) => b.contribution - a.contribution);
+  const conflicts = withReasons
+    .filter(b => b.score! < CONFLICT_SCORE)
+    .sort((a, b) => b.weight * (1 - b.score!) - a.weight * (1 - a.score!));
+  return limit === undefined
+    ? { sharedTraits, conflicts }
+    : { sharedTraits: sharedTraits.slice(0, limit), conflicts: conflicts.slice(0, limit) };
+}
+
+/**
+ * Build the human-readable reasons list from a breakdown
+ * The most influential positives come first, then the most damaging negatives.
+ */
+function buildReasons(breakdown: FactorBreakdown[]): string[] {
+  const { sharedTraits, conflicts } = getMatchHighlights(breakdown);
+  return [...sharedTraits, ...conflicts].slice(0, MAX_REASONS).map(b => b.reason!);
+}
+
+/**
+ * Find the first hard filter a candidate fails, if any
+ * For mutual targets, filters marked `mutual` are also checked from the candidate's side
+ * (e.g. the user has a trait that is one of the candidate's dealbreakers).
+ */
+function findFailingFilter<K extends RecommendationTarget>(
+  target: K,
+  user: User,
+  candidate: CandidateTypes[K],
+  context: ScoringContext,
+  options: RecommendOptions
+): { filter: HardFilter<CandidateTypes[K]>; theirs: boolean } | null {
+  const filters = filterRegistry[target] as HardFilter<CandidateTypes[K]>[];
+  const checkTheirs = isMutual(target, options);
+  for (const filter of filters) {
+    if (!filter.passes(user, candidate, context)) {
+      return { filter, theirs: false };
+    }
+    if (checkTheirs && filter.mutual) {
+      const reverse = filter as unknown as HardFilter<User>;
+      if (!reverse.passes(candidate as unknown as User, user, context)) {
+        return { filter, theirs: true };
+      }
+    }
+  }
+  return null;
+}
+
+function isMutual(target: RecommendationTarget, options: RecommendOptions): boolean {
+  return MUTUAL_TARGETS.includes(target) && !options.oneSided;
+}
+
+/**
+ * Weight multipliers from the scoring user's match priorities, unless turned off
+ */
+function getMultipliers(target: RecommendationTarget, scorer: User, options: RecommendOptions): Record<string, number> {
+  return options.ignorePriorities ? {} : getPriorityMultipliers(target, scorer.matchPriorities);
+}
+
+/**
+ * Score a candidate from one person's point of view, using their own priorities
+ */
+function scoreDirection<K extends RecommendationTarget>(
+  target: K,
+  scorer: User,
+  candidate: CandidateTypes[K],
+  context: ScoringContext,
+  options: RecommendOptions
+): { score: number; breakdown: FactorBreakdown[] } {
+  const multipliers = getMultipliers(target, scorer, options);
+  const factors = (factorRegistry[target] as ScoringFactor<CandidateTypes[K]>[])
+    .map(factor => ({
+      factor,
+      weight: options.weights?.[factor.id] ?? factor.weight * (multipliers[factor.id] ?? 1),
+    }))
+    .filter(({ weight }) => weight > 0);
+  const totalWeight = factors.reduce((sum, { weight }) => sum + weight, 0);
+
+  const breakdown: FactorBreakdown[] = factors.map(({ factor, weight }) => {
+    const result = factor.score(scorer, candidate, context);
+    const share = totalWeight > 0 ? weight / totalWeight : 0;
+    const score = result ? Math.min(1, Math.max(0, result.score)) : null;
+    return {
+      id: factor.id,
+      label: factor.label,
+      category: factor.category,
+      weight: share,
+      score,
+      contribution: share * (score ?? NEUTRAL_SCORE),
+      reason: result?.reason,
+    };
+  });
+
+  const total = breakdown.reduce((sum, b) => sum + b.contribution, 0);
+  return { score: Math.min(1, Math.max(0, total)), breakdown };
+}
+
+/**
+ * Harmonic mean of the two directional scores
+ * Stays low unless both are high, so a one-sided fit can't rank well.
+ */
+function combineDirectionalScores(forUser: number, forCandidate: number): number {
+  return forUser + forCandidate > 0 ? (2 * forUser * forCandidate) / (forUser + forCandidate) : 0;
+}
+
+/**
+ * Score one candidate against every registered factor
+ * Returns null if a hard filter drops it.
+ */
+function scoreCandidate<K extends RecommendationTarget>(
+  target: K,
+  user: User,
+  candidate: CandidateTypes[K],
+  context: ScoringContext,
+  options: RecommendOptions
+): Recommendation<CandidateTypes[K]> | null {
+  if (!options.skipHardFilters && findFailingFilter(target, user, candidate, context, options)) {
+    return null;
+  }
+
+  // Breakdown and reasons are always from the user's point of view
+  const forUser = scoreDirection(target, user, candidate, context, options);
+  if (!isMutual(target, options)) {
+    return {
+      item: candidate,
+      score: forUser.score,
+      breakdown: forUser.breakdown,
+      reasons: buildReasons(forUser.breakdown),
+    };
+  }
+
+  const reverseTarget = target as 'roommate';
+  const forCandidate = scoreDirection(reverseTarget, candidate as unknown as User, user, context, options);
+  return {
+    item: candidate,
+    score: combineDirectionalScores(forUser.score, forCandidate.score),
+    breakdown: forUser.breakdown,
+    reasons: buildReasons(forUser.breakdown),
+    directionalScores: { forUser: forUser.score, forCandidate: forCandidate.score },
+  };
+}
+
+/**
+ * Rank candidates for a user, highest score first, and report how many
+ * candidates each hard filter and the threshold removed along the way
+ */
+export function recommendWithFunnel<K extends RecommendationTarget>(
+  target: K,
+  user: User,
+  candidates: CandidateTypes[K][],
+  options: RecommendOptions = {}
+): { results: Recommendation<CandidateTypes[K]>[]; funnel: RecommendationFunnel } {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const context: ScoringContext = {
+    now: Date.now(),
+    excludeIds: options.excludeIds || new Set(),
+  };
+  const removedCounts = new Map<string, number>();
+  let belowThreshold = 0;
+
+  let results: Recommendation<CandidateTypes[K]>[] = [];
+  for (const candidate of candidates) {
+    if (!options.skipHardFilters) {
+      const failed = findFailingFilter(target, user, candidate, context, options);
+      if (failed) {
+        const stageId = failed.theirs ? getTheirStageId(failed.filter.id) : failed.filter.id;
+        removedCounts.set(stageId, (removedCounts.get(stageId) || 0) + 1);
+        continue;
+      }
+    }
+
+    const result = scoreCandidate(target, user, candidate, context, { ...options, skipHardFilters: true });
+    if (result && result.score >= threshold) {
+      results.push(result);
+    } else {
+      belowThreshold++;
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score || a.item.id.localeCompare(b.item.id));
+  if (options.limit) {
+    results = results.slice(0, options.limit);
+  }
+
+  const filters = filterRegistry[target] as HardFilter<CandidateTypes[K]>[];
+  const removedBy: RecommendationFunnel['removedBy'] = [];
+  filters.forEach(filter => {
+    if (removedCounts.has(filter.id)) {
+      removedBy.push({ id: filter.id, label: filter.label, count: removedCounts.get(filter.id)! });
+    }
+    const theirId = getTheirStageId(filter.id);
+    if (removedCounts.has(theirId)) {
+      removedBy.push({
+        id: theirId,
+        label: filter.label ? `${filter.label} (their dealbreaker)` : undefined,
+        count: removedCounts.get(theirId)!,
+      });
+    }
+  });
+
+  return {
+    results,
+    funnel: { total: candidates.length, removedBy, belowThreshold, shown: results.length },
+  };
+}
+
+// Funnel stage for candidates removed by a mutual filter checked from their side
+function getTheirStageId(filterId: string): string {
+  return `${filterId}:theirs`;
+}
+
+/**
+ * Rank candidates for a user, highest score first
+ */
+export function recommend<K extends RecommendationTarget>(
+  target: K,
+  user: User,
+  candidates: CandidateTypes[K][],
+  options: RecommendOptions = {}
+): Recommendation<CandidateTypes[K]>[] {
+  return recommendWithFunnel(target, user, candidates, options).results;
+}
+
+/**
+ * Rank potential roommates for a user
+ */
+export function recommendRoommates(user: User, candidates: User[], options: RecommendOptions = {}): Recommendation<User>[] {
+  return recommend('roommate', user, candidates, options);
+}
+
+/**
+ * Rank listings for a user
+ */
+export function recommendListings(user: User, listings: Listing[], options: RecommendOptions = {}): Recommendation<Listing>[] {
+  return recommend('listing', user, listings, options);
+}
+
+/**
+ * Score a single roommate candidate (e.g. to explain a card that's already on screen)
+ * Returns null if a hard filter would hide them.
+ */
+export function scoreRoommate(user: User, candidate: User, options: RecommendOptions = {}): Recommendation<User> | null {
+  const context: ScoringContext = { now: Date.now(), excludeIds: options.excludeIds || new Set() };
+  return scoreCandidate('roommate', user, candidate, context, options);
+}
+
+/**
+ * Check whether a hard filter would hide a roommate candidate, and which one
+ * `theirs` is true when the candidate's own filter (e.g. their dealbreaker) rules the user out.
+ */
+export function checkRoommateFilters(
+  user: User,
+  candidate: User,
+  options: RecommendOptions = {}
+): { id: string; label?: string; theirs: boolean } | null {
+  const context: ScoringContext = { now: Date.now(), excludeIds: options.excludeIds || new Set() };
+  const failed = findFailingFilter('roommate', user, candidate, context, options);
+  return failed ? { id: failed.filter.id, label: failed.filter.label, theirs: failed.theirs } : null;
+}
+
+/**
+ * Score a single listing
+ * Returns null if a hard filter would hide it.
+ */
+export function scoreListing(user: User, listing: Listing, options: RecommendOptions = {}): Recommendation<Listing> | null {
+  const context: ScoringContext = { now: Date.now(), excludeIds: options.excludeIds || new Set() };
+  return scoreCandidate('listing', user, listing, context, options);
+}
@@ -0,0 +1,182 @@
+/**
+ * Report Service
+ *
+ * Users can report another user or a listing. Reports land in a moderation
+ * queue that admins work through from the Report Review screen, where they
+ * can dismiss a report, suspend the reported user or hide the reported listing.
+ *
+ * Local state and AsyncStorage live in UserContext; this module owns the
+ * Supabase `reports` table plus the `is_suspended` / `is_hidden` flags.
+ */
+
+import { Report, ReportReason } from '../types';
+import { supabase } from './supabase';
+import { getRepositories } from './repositories';
+
+/**
+ * Reason categories shown in the report form, in display order
+ */
+export const REPORT_REASONS: { value: ReportReason; label: string; targets: Report['targetType'][] }[] = [
+  { value: 'harassment', label: 'Harassment or threats', targets: ['user'] },
+  { value: 'scam', label: 'Scam or asking for money', targets: ['user', 'listing'] },
+  { value: 'fake_profile', label: 'Fake profile', targets: ['user'] },
+  { value: 'misleading_listing', label: 'Listing is fake or misleading', targets: ['listing'] },
+  { value: 'inappropriate_content', label: 'Inappropriate photos or content', targets: ['user', 'listing'] },
+  { value: 'other', label: 'Something else', targets: ['user', 'listing'] },
+];
+
+/**
+ * Get the display label for a report reason
+ */
+export function getReportReasonLabel(reason: ReportReason): string {
+  return REPORT_REASONS.find(r => r.value === reason)?.label || 'Something else';
+}
+
+/**
+ * Convert a Supabase `reports` row to the app Report format
+ */
+function rowToReport(row: any): Report {
+  let messageIds: string[] | undefined = undefined;
+  if (row.message_ids) {
+    messageIds = Array.isArray(row.message_ids) ? row.message_ids : undefined;
+  }
+
+  return {
+    id: row.id,
+    reporterId: row.reporter_id,
+    targetType: row.target_type === 'listing' ? 'listing' : 'user',
+    targetId: row.target_id,
+    reason: row.reason,
+    details: row.details || '',
+    messageIds,
+    status: row.status === 'dismissed' || row.status === 'actioned' ? row.status : 'open',
+    reviewedBy: row.reviewed_by || undefined,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at).getTime() : undefined,
+    createdAt: row.created_at ? new Date(row.created_at).getTime() : Date.now(),
+  };
+}
+
+/**
+ * Merge two report lists by ID (incoming rows win)
+ */
+export function mergeReports(existing: Report[], incoming: Report[]): Report[] {
+  const byId = new Map<string, Report>();
+  [...existing, ...incoming].forEach(report => byId.set(report.id, report));
+  return Array.from(byId.values());
+}
+
+/**
+ * Check whether a user already has an open report against a target
+ */
+export function hasOpenReport(reports: Report[], reporterId: string, targetType: Report['targetType'], targetId: string): boolean {
+  return reports.some(
+    r => r.reporterId === reporterId && r.targetType === targetType && r.targetId === targetId && r.status === 'open'
+  );
+}
+
+/**
+ * Save a report to Supabase
+ * Errors are logged, not thrown - reports are always kept locally
+ */
+export async function saveReportToSupabase(report: Report): Promise<void> {
+  try {
+    const { error } = await supabase.from('reports').insert({
+      id: report.id,
+      reporter_id: report.reporterId,
+      target_type: report.targetType,
+      target_id: report.targetId,
+      reason: report.reason,
+      details: report.details,
+      message_ids: report.messageIds || null,
+      status: report.status,
+      created_at: new Date(report.createdAt).toISOString(),
+    });
+
+    if (error) {
+      console.error('Error saving report to Supabase:', error);
+    }
+  } catch (error) {
+    console.error('Error saving report to Supabase:', error);
+  }
+}
+
+/**
+ * Fetch reports from Supabase
+ * Admins get the whole queue; everyone else only gets the reports they filed
+ */
+export async function fetchReports(userId: string, isAdmin: boolean): Promise<Report[]> {
+  try {
+    let query = supabase.from('reports').select('*').order('created_at', { ascending: false });
+    if (!isAdmin) {
+      query = query.eq('reporter_id', userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching reports from Supabase:', error);
+      return [];
+    }
+
+    return (data || []).map(rowToReport);
+  } catch (error) {
+    console.error('Error fetching reports from Supabase:', error);
+    return [];
+  }
+}
+
+/**
+ * Close a report in Supabase
+ */
+export async function updateReportStatusInSupabase(report: Report): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('reports')
+      .update({
+        status: report.status,
+        reviewed_by: report.reviewedBy || null,
+        reviewed_at: report.reviewedAt ? new Date(report.reviewedAt).toISOString() : null,
+      })
+      .eq('id', report.id);
+
+    if (error) {
+      console.error('Error updating report in Supabase:', error);
+    }
+  } catch (error) {
+    console.error('Error updating report in Supabase:', error);
+  }
+}
+
+/**
+ * Suspend a user in Supabase
+ */
+export async function suspendUserInSupabase(userId: string): Promise<void> {
+  try {
+    await getRepositories().users.update(userId, { isSuspended: true });
+  } catch (error) {
+    console.error('Error suspending user in Supabase:', error);
+  }
+}
+
+/**
+ * Hide a listing in Supabase so it no longer shows up in search, map or swipe
+ */
+export async function hideListingInSupabase(listingId: string): Promise<void> {
+  try {
+    await getRepositories().listings.update(listingId, { isHidden: true });
+  } catch (error) {
+    console.error('Error hiding listing in Supabase:', error);
+  }
+}
+
+/**
+ * Fetch the IDs of every user-posted listing an admin has hidden
+ */
+export async function fetchHiddenListingIds(): Promise<string[]> {
+  try {
+    return await getRepositories().listings.listHiddenIds();
+  } catch (error) {
+    console.error('Error fetching hidden listings from Supabase:', error);
+    return [];
+  }
+}
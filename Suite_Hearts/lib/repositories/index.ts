@@ -0,0 +1,33 @@
+/**
+ * Repositories
+ *
+ * The one way the app reads and writes its Supabase tables (users, listings,
+ * listing_photos, messages, conversations, matches, swipes). Screens, contexts
+ * and services call getRepositories() instead of supabase.from(...); tests
+ * swap in createMemoryRepositories() with setRepositories.
+ *
+ * Realtime subscriptions, auth, Storage uploads and the other tables
+ * (reports, blocks, conversation_reads) still use the Supabase client directly.
+ */
+
+import { Repositories } from './types';
+import { supabaseRepositories } from './supabaseRepositories';
+
+export * from './types';
+export * from './mappers';
+export { LISTING_WITH_PHOTOS_SELECT } from './supabaseRepositories';
+export { createMemoryRepositories } from './memoryRepositories';
+export type { MemoryTables, MemoryRepositories } from './memoryRepositories';
+
+let activeRepositories: Repositories = supabaseRepositories;
+
+export function getRepositories(): Repositories {
+  return activeRepositories;
+}
+
+/**
+ * Use different repositories (e.g. the in-memory fake)
+ */
+export function setRepositories(repositories: Repositories): void {
+  activeRepositories = repositories;
+}
@@ -0,0 +1,494 @@
+/**
+ * Row Mappers
+ *
+ * One mapper per Supabase table between its snake_case rows and the app's
+ * camelCase models. The Supabase repositories, the in-memory fake and the
+ * realtime subscriptions in messageService all go through these, so a column
+ * is only ever spelled out here.
+ */
+
+import { User, UserPrompt, Listing, Message, MessageStatus, Conversation, Swipe, Match } from '../../types';
+
+export interface UserRow {
+  id: string;
+  user_type: string;
+  looking_for: string | null;
+  email: string;
+  phone: string;
+  name: string;
+  age: string | null;
+  race: string | null;
+  gender: string | null;
+  university: string | null;
+  years_experience: string | null;
+  job: string | null;
+  job_role: string | null;
+  job_place: string | null;
+  profile_picture_url: string | null;
+  hometown: string | null;
+  location: string | null;
+  pets: string | null;
+  smoking: string | null;
+  drinking: string | null;
+  drugs: string | null;
+  night_owl: string | null;
+  religion: string | null;
+  bio: string | null;
+  questions: string[] | null;
+  prompts: string | null; // JSON-encoded UserPrompt[]
+  max_roommates: number | null;
+  roommate_type: string | null;
+  preferred_city: string | null;
+  preferred_latitude: number | null;
+  preferred_longitude: number | null;
+  space_type: string | null; // A single type, or a JSON-encoded list
+  min_budget: number | string | null;
+  max_budget: number | string | null;
+  lease_duration: number | null;
+  friendliness: number | string | null;
+  cleanliness: number | string | null;
+  guests_allowed: string | null;
+  match_priorities: any;
+  dealbreakers: any;
+  commute_anchors: any;
+  commute_mode: string | null;
+  max_commute_minutes: number | null;
+  is_admin: boolean | null;
+  is_suspended: boolean | null;
+  created_at: string;
+}
+
+export interface ListingRow {
+  id: string;
+  owner_id: string;
+  title: string | null;
+  description: string | null;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string | null;
+  price: number | string;
+  latitude: number | string | null;
+  longitude: number | string | null;
+  bedrooms: number | string | null;
+  bathrooms: number | string | null;
+  square_feet: number | string | null;
+  available_date: string | null;
+  space_type: string | null;
+  is_hidden: boolean | null;
+  created_at: string;
+  updated_at: string;
+  listing_photos?: ListingPhotoRow[]; // Joined with LISTING_WITH_PHOTOS_SELECT
+}
+
+export interface ListingPhotoRow {
+  listing_id?: string;
+  photo_url: string;
+  photo_order?: number | null;
+}
+
+export interface MessageRow {
+  id: string;
+  group_message_id?: string | null; // Shared by every copy of a fanned-out group message
+  conversation_id?: string | null; // Set on group message copies only
+  sender_id: string;
+  receiver_id: string;
+  text: string | null;
+  image_url?: string | null;
+  status: string | null;
+  created_at: string;
+}
+
+export interface ConversationRow {
+  id: string;
+  participant1_id?: string | null; // 1-on-1 conversations, ordered pair
+  participant2_id?: string | null;
+  participants: string[] | null;
+  is_group: boolean | null;
+  group_name?: string | null;
+  last_message_id?: string | null;
+  last_message_at?: string | null;
+  created_at?: string;
+  updated_at: string | null;
+}
+
+export interface MatchRow {
+  id: string;
+  user1_id: string;
+  user2_id: string;
+  matched_at: string | null;
+  is_active: boolean | null;
+}
+
+export interface SwipeRow {
+  id: string;
+  swiper_id: string;
+  swiped_id: string;
+  swipe_type: string;
+  direction: string;
+  created_at: string | null;
+}
+
+// `conversation_reads` is read by messageService directly (it has no repository)
+export interface ConversationReadRow {
+  conversation_id: string;
+  user_id: string;
+  last_read_at: string;
+}
+
+// Conversation details stored on the `conversations` row (messages live in their own table)
+export type ConversationMeta = Omit<Conversation, 'messages' | 'lastMessage'>;
+
+// When a participant last read a conversation
+export interface ReadReceipt {
+  conversationId: string;
+  userId: string;
+  readAt: number;
+}
+
+// Supabase returns numeric columns as numbers or strings depending on the type
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert a `users` row to a User
+ */
+export function userFromRow(row: UserRow): User {
+  // space_type holds a JSON list when several types were picked
+  const parsedSpaceType = row.space_type ? parseJson(row.space_type) : undefined;
+  const parsedPrompts = row.prompts ? parseJson(row.prompts) : undefined;
+
+  return {
+    id: row.id,
+    userType: row.user_type as User['userType'],
+    lookingFor: (row.looking_for || undefined) as User['lookingFor'],
+    email: row.email,
+    phone: row.phone,
+    name: row.name,
+    age: row.age || '',
+    race: row.race || '',
+    gender: row.gender || '',
+    university: row.university || undefined,
+    yearsExperience: row.years_experience || undefined,
+    job: row.job || '',
+    jobRole: row.job_role || undefined,
+    jobPlace: row.job_place || undefined,
+    profilePicture: row.profile_picture_url || null,
+    hometown: row.hometown || '',
+    location: row.location || '',
+    pets: row.pets || undefined,
+    smoking: row.smoking || '',
+    drinking: row.drinking || '',
+    drugs: row.drugs || '',
+    nightOwl: row.night_owl || '',
+    religion: row.religion || '',
+    bio: row.bio || '',
+    questions: row.questions || [],
+    prompts: Array.isArray(parsedPrompts) ? (parsedPrompts as UserPrompt[]) : undefined,
+    maxRoommates: row.max_roommates || undefined,
+    roommateType: (row.roommate_type || undefined) as User['roommateType'],
+    preferredCity: row.preferred_city || undefined,
+    preferredLatitude: row.preferred_latitude || undefined,
+    preferredLongitude: row.preferred_longitude || undefined,
+    spaceType: Array.isArray(parsedSpaceType) ? parsedSpaceType : row.space_type || undefined,
+    minBudget: row.min_budget ? Number(row.min_budget) : undefined,
+    maxBudget: row.max_budget ? Number(row.max_budget) : undefined,
+    leaseDuration: row.lease_duration || undefined,
+    friendliness: toNumber(row.friendliness),
+    cleanliness: toNumber(row.cleanliness),
+    guestsAllowed: (row.guests_allowed || undefined) as User['guestsAllowed'],
+    matchPriorities: row.match_priorities || undefined,
+    dealbreakers: row.dealbreakers || undefined,
+    commuteAnchors: row.commute_anchors || undefined,
+    commuteMode: (row.commute_mode || undefined) as User['commuteMode'],
+    maxCommuteMinutes: row.max_commute_minutes || undefined,
+    isAdmin: row.is_admin === true,
+    isSuspended: row.is_suspended === true,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+// Fields stored as-is, with empty values saved as null
+const USER_COLUMNS: Partial<Record<keyof User, keyof UserRow>> = {
+  userType: 'user_type',
+  lookingFor: 'looking_for',
+  email: 'email',
+  phone: 'phone',
+  name: 'name',
+  age: 'age',
+  race: 'race',
+  gender: 'gender',
+  university: 'university',
+  yearsExperience: 'years_experience',
+  job: 'job',
+  jobRole: 'job_role',
+  jobPlace: 'job_place',
+  profilePicture: 'profile_picture_url',
+  hometown: 'hometown',
+  location: 'location',
+  pets: 'pets',
+  smoking: 'smoking',
+  drinking: 'drinking',
+  drugs: 'drugs',
+  nightOwl: 'night_owl',
+  religion: 'religion',
+  bio: 'bio',
+  roommateType: 'roommate_type',
+  preferredCity: 'preferred_city',
+  guestsAllowed: 'guests_allowed',
+  matchPriorities: 'match_priorities',
+  commuteMode: 'commute_mode',
+  maxCommuteMinutes: 'max_commute_minutes',
+};
+
+/**
+ * Convert User fields to `users` columns
+ * Only the fields present in `user` are returned, so it works for partial
+ * updates; a field set to undefined clears its column.
+ */
+export function userToRow(user: Partial<User>): Partial<UserRow> {
+  const row: Record<string, any> = {};
+
+  Object.entries(USER_COLUMNS).forEach(([field, column]) => {
+    if (field in user) {
+      row[column as string] = (user as any)[field] || null;
+    }
+  });
+
+  if ('friendliness' in user) {
+    row.friendliness = toNumber(user.friendliness) ?? null;
+  }
+  if ('cleanliness' in user) {
+    row.cleanliness = toNumber(user.cleanliness) ?? null;
+  }
+  if ('minBudget' in user) {
+    row.min_budget = toNumber(user.minBudget) ?? null;
+  }
+  if ('maxBudget' in user) {
+    row.max_budget = toNumber(user.maxBudget) ?? null;
+  }
+  // "None" / "Under 1 month" style answers have no numeric column value
+  if ('maxRoommates' in user) {
+    row.max_roommates = typeof user.maxRoommates === 'number' ? user.maxRoommates : null;
+  }
+  if ('leaseDuration' in user) {
+    row.lease_duration = typeof user.leaseDuration === 'number' ? user.leaseDuration : null;
+  }
+  if ('preferredLatitude' in user) {
+    row.preferred_latitude = user.preferredLatitude ?? null;
+  }
+  if ('preferredLongitude' in user) {
+    row.preferred_longitude = user.preferredLongitude ?? null;
+  }
+  if ('spaceType' in user) {
+    row.space_type = Array.isArray(user.spaceType) ? JSON.stringify(user.spaceType) : user.spaceType || null;
+  }
+  if ('questions' in user) {
+    row.questions = user.questions || [];
+  }
+  if ('prompts' in user) {
+    row.prompts = user.prompts ? JSON.stringify(user.prompts) : null;
+  }
+  if ('dealbreakers' in user) {
+    row.dealbreakers = user.dealbreakers || [];
+  }
+  if ('commuteAnchors' in user) {
+    row.commute_anchors = user.commuteAnchors || [];
+  }
+  if ('isSuspended' in user) {
+    row.is_suspended = user.isSuspended === true;
+  }
+
+  return row as Partial<UserRow>;
+}
+
+/**
+ * Convert a `listings` row to a Listing
+ * Photos come from the joined `listing_photos` (see LISTING_WITH_PHOTOS_SELECT)
+ * or, when fetched separately, from `photoRows`.
+ */
+export function listingFromRow(row: ListingRow, photoRows?: ListingPhotoRow[]): Listing {
+  const photos = [...(photoRows || row.listing_photos || [])]
+    .sort((a, b) => (a.photo_order ?? 0) - (b.photo_order ?? 0))
+    .map(photo => photo.photo_url);
+
+  return {
+    id: row.id,
+    source: 'user',
+    provenance: { providerId: 'supabase' },
+    ownerId: row.owner_id,
+    title: row.title || '',
+    description: row.description || '',
+    address: row.address,
+    city: row.city,
+    state: row.state,
+    zipCode: row.zip_code || '',
+    price: toNumber(row.price) || 0,
+    latitude: toNumber(row.latitude) ?? 0,
+    longitude: toNumber(row.longitude) ?? 0,
+    photos,
+    bedrooms: toNumber(row.bedrooms),
+    bathrooms: toNumber(row.bathrooms),
+    squareFeet: toNumber(row.square_feet),
+    availableDate: row.available_date || undefined,
+    spaceType: row.space_type || undefined,
+    isHidden: !!row.is_hidden,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
+// Listing fields a homeowner edits; the rest are set by the database or admins
+export type ListingInput = Pick<
+  Listing,
+  'title' | 'description' | 'address' | 'city' | 'state' | 'zipCode' | 'price' | 'latitude' | 'longitude'
+> &
+  Partial<Pick<Listing, 'bedrooms' | 'bathrooms' | 'spaceType' | 'isHidden'>> & { ownerId: string };
+
+/**
+ * Convert Listing fields to `listings` columns (only the fields present)
+ */
+export function listingToRow(listing: Partial<ListingInput>): Partial<ListingRow> {
+  const row: Partial<ListingRow> = {};
+  if ('ownerId' in listing) row.owner_id = listing.ownerId;
+  if ('title' in listing) row.title = listing.title || null;
+  if ('description' in listing) row.description = listing.description || '';
+  if ('address' in listing) row.address = listing.address;
+  if ('city' in listing) row.city = listing.city;
+  if ('state' in listing) row.state = listing.state;
+  if ('zipCode' in listing) row.zip_code = listing.zipCode || null;
+  if ('price' in listing) row.price = listing.price;
+  if ('latitude' in listing) row.latitude = listing.latitude;
+  if ('longitude' in listing) row.longitude = listing.longitude;
+  if ('bedrooms' in listing) row.bedrooms = listing.bedrooms ?? null;
+  if ('bathrooms' in listing) row.bathrooms = listing.bathrooms ?? null;
+  if ('spaceType' in listing) row.space_type = listing.spaceType || null;
+  if ('isHidden' in listing) row.is_hidden = listing.isHidden === true;
+  return row;
+}
+
+export function listingPhotoToRow(listingId: string, photoUrl: string, order: number): ListingPhotoRow {
+  return { listing_id: listingId, photo_url: photoUrl, photo_order: order };
+}
+
+/**
+ * Convert a `messages` row to a Message
+ * Fanned-out group rows map back to the single shared group message, keeping
+ * the row's own ID and receiver as `copy` (delivery is tracked per copy).
+ */
+export function messageFromRow(row: MessageRow): Message {
+  const conversationId: string | undefined = row.conversation_id || undefined;
+  const message: Message = {
+    id: row.group_message_id || row.id,
+    senderId: row.sender_id,
+    receiverId: conversationId || row.receiver_id,
+    conversationId,
+    text: row.text || '',
+    imageUrl: row.image_url || undefined,
+    timestamp: row.created_at ? new Date(row.created_at).getTime() : Date.now(),
+    status: row.status === 'read' || row.status === 'delivered' ? (row.status as MessageStatus) : 'sent',
+  };
+  if (row.group_message_id) {
+    message.copy = { rowId: row.id, receiverId: row.receiver_id };
+  }
+  return message;
+}
+
+/**
+ * Convert a newly sent 1-on-1 Message to a `messages` row
+ * image_url is left out when there's no image (older databases lack the column).
+ */
+export function messageToRow(message: Message): MessageRow {
+  const row: MessageRow = {
+    id: message.id,
+    sender_id: message.senderId,
+    receiver_id: message.receiverId,
+    text: message.text || '',
+    status: 'sent',
+    created_at: new Date(message.timestamp).toISOString(),
+  };
+  if (message.imageUrl) {
+    row.image_url = message.imageUrl;
+  }
+  return row;
+}
+
+export function readReceiptFromRow(row: ConversationReadRow): ReadReceipt {
+  return {
+    conversationId: row.conversation_id,
+    userId: row.user_id,
+    readAt: new Date(row.last_read_at).getTime(),
+  };
+}
+
+/**
+ * Convert a `conversations` row to conversation metadata (no messages)
+ * Older 1-on-1 rows only have participant1_id / participant2_id.
+ */
+export function conversationFromRow(row: ConversationRow): ConversationMeta {
+  const participants: string[] =
+    Array.isArray(row.participants) && row.participants.length > 0
+      ? row.participants
+      : [row.participant1_id, row.participant2_id].filter((id): id is string => !!id);
+
+  return {
+    id: row.id,
+    participants,
+    isGroup: row.is_group === true,
+    groupName: row.group_name || undefined,
+    updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : Date.now(),
+  };
+}
+
+export function matchFromRow(row: MatchRow): Match {
+  return {
+    id: row.id,
+    user1Id: row.user1_id,
+    user2Id: row.user2_id,
+    matchedAt: row.matched_at ? new Date(row.matched_at).getTime() : Date.now(),
+    isActive: row.is_active !== false,
+  };
+}
+
+export function matchToRow(match: Match): MatchRow {
+  return {
+    id: match.id,
+    user1_id: match.user1Id,
+    user2_id: match.user2Id,
+    matched_at: new Date(match.matchedAt).toISOString(),
+    is_active: match.isActive,
+  };
+}
+
+export function swipeFromRow(row: SwipeRow): Swipe {
+  return {
+    id: row.id,
+    swiperId: row.swiper_id,
+    swipedId: row.swiped_id,
+    swipeType: row.swipe_type === 'listing' ? 'listing' : 'user',
+    direction: row.direction === 'right' ? 'right' : 'left',
+    createdAt: row.created_at ? new Date(row.created_at).getTime() : Date.now(),
+  };
+}
+
+export function swipeToRow(swipe: Swipe): SwipeRow {
+  return {
+    id: swipe.id,
+    swiper_id: swipe.swiperId,
+    swiped_id: swipe.swipedId,
+    swipe_type: swipe.swipeType,
+    direction: swipe.direction,
+    created_at: new Date(swipe.createdAt).toISOString(),
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * In-memory Repositories
+ *
+ * A fake of the Supabase tables for exercising the data logic offline (swipes
+ * turning into matches, message fan-out, profile writes). It keeps the same
+ * snake_case rows Supabase would and goes through the same mappers, and raises
+ * the same RepositoryErrors for duplicate keys.
+ *
+ *   const repositories = createMemoryRepositories({ users: [someUserRow] });
+ *   setRepositories(repositories);
+ *   ...
+ *   repositories.tables.matches // rows written so far
+ */
+
+import { Repositories, RepositoryError } from './types';
+import {
+  UserRow,
+  ListingRow,
+  ListingPhotoRow,
+  MessageRow,
+  ConversationRow,
+  MatchRow,
+  SwipeRow,
+  userFromRow,
+  userToRow,
+  listingFromRow,
+  listingToRow,
+  listingPhotoToRow,
+  messageFromRow,
+  messageToRow,
+  conversationFromRow,
+  matchFromRow,
+  matchToRow,
+  swipeFromRow,
+  swipeToRow,
+} from './mappers';
+
+export interface MemoryTables {
+  users: UserRow[];
+  listings: ListingRow[];
+  listing_photos: ListingPhotoRow[];
+  messages: MessageRow[];
+  conversations: ConversationRow[];
+  matches: MatchRow[];
+  swipes: SwipeRow[];
+}
+
+export type MemoryRepositories = Repositories & { tables: MemoryTables };
+
+function insertUnique<T extends { id: string }>(table: string, rows: T[], row: T): void {
+  if (rows.some(existing => existing.id === row.id)) {
+    throw new RepositoryError('duplicate', table, `Row ${row.id} already exists`);
+  }
+  rows.push(row);
+}
+
+// Remove matching rows in place, so callers holding `tables` see the change
+function removeWhere<T>(rows: T[], predicate: (row: T) => boolean): void {
+  for (let index = rows.length - 1; index >= 0; index--) {
+    if (predicate(rows[index])) rows.splice(index, 1);
+  }
+}
+
+export function createMemoryRepositories(seed: Partial<MemoryTables> = {}): MemoryRepositories {
+  const tables: MemoryTables = {
+    users: [...(seed.users || [])],
+    listings: [...(seed.listings || [])],
+    listing_photos: [...(seed.listing_photos || [])],
+    messages: [...(seed.messages || [])],
+    conversations: [...(seed.conversations || [])],
+    matches: [...(seed.matches || [])],
+    swipes: [...(seed.swipes || [])],
+  };
+  let nextId = 1;
+  const newId = (prefix: string) => `${prefix}-${nextId++}`;
+  const now = () => new Date().toISOString();
+
+  // Listings are read with their photos joined, like LISTING_WITH_PHOTOS_SELECT
+  const toListing = (row: ListingRow) =>
+    listingFromRow(row, tables.listing_photos.filter(photo => photo.listing_id === row.id));
+  const newestFirst = (a: ListingRow, b: ListingRow) => b.created_at.localeCompare(a.created_at);
+
+  const updateConversation = (id: string, updates: Partial<ConversationRow>) => {
+    const row = tables.conversations.find(conversation => conversation.id === id);
+    if (row) Object.assign(row, updates);
+  };
+
+  const repositories: Repositories = {
+    users: {
+      getById: async (id) => {
+        const row = tables.users.find(user => user.id === id);
+        return row ? userFromRow(row) : null;
+      },
+      getByEmail: async (email) => {
+        const row = tables.users.find(user => user.email === email.toLowerCase());
+        return row ? userFromRow(row) : null;
+      },
+      insert: async (user) => {
+        const row = { created_at: now(), ...userToRow(user), id: user.id } as UserRow;
+        if (tables.users.some(existing => existing.email === row.email)) {
+          throw new RepositoryError('duplicate', 'users', `Email ${row.email} already exists`);
+        }
+        insertUnique('users', tables.users, row);
+      },
+      update: async (id, updates) => {
+        await repositories.users.updateColumns(id, userToRow(updates));
+      },
+      updateColumns: async (id, columns) => {
+        const row = tables.users.find(user => user.id === id);
+        if (row) Object.assign(row, columns);
+      },
+      delete: async (id) => {
+        removeWhere(tables.users, user => user.id === id);
+      },
+    },
+
+    listings: {
+      list: async () => tables.listings.filter(row => !row.is_hidden).sort(newestFirst).map(toListing),
+      listByOwner: async (ownerId) =>
+        tables.listings.filter(row => row.owner_id === ownerId).sort(newestFirst).map(toListing),
+      listByIds: async (ids) => tables.listings.filter(row => ids.includes(row.id)).map(toListing),
+      listHiddenIds: async () => tables.listings.filter(row => row.is_hidden).map(row => row.id),
+      getById: async (id) => {
+        const row = tables.listings.find(listing => listing.id === id);
+        return row ? toListing(row) : null;
+      },
+      insert: async (listing) => {
+        const id = newId('listing');
+        const timestamp = now();
+        insertUnique('listings', tables.listings, {
+          ...listingToRow(listing),
+          id,
+          created_at: timestamp,
+          updated_at: timestamp,
+        } as ListingRow);
+        return id;
+      },
+      update: async (id, updates) => {
+        const row = tables.listings.find(listing => listing.id === id);
+        if (row) Object.assign(row, listingToRow(updates), { updated_at: now() });
+      },
+      delete: async (id) => {
+        removeWhere(tables.listings, listing => listing.id === id);
+        removeWhere(tables.listing_photos, photo => photo.listing_id === id);
+      },
+    },
+
+    listingPhotos: {
+      listUrls: async (listingId) =>
+        tables.listing_photos
+          .filter(photo => photo.listing_id === listingId)
+          .sort((a, b) => (a.photo_order ?? 0) - (b.photo_order ?? 0))
+          .map(photo => photo.photo_url),
+      replace: async (listingId, photoUrls) => {
+        removeWhere(tables.listing_photos, photo => photo.listing_id === listingId);
+        photoUrls.forEach((photoUrl, index) => {
+          tables.listing_photos.push(listingPhotoToRow(listingId, photoUrl, index));
+        });
+      },
+    },
+
+    messages: {
+      insert: async (message) => {
+        insertUnique('messages', tables.messages, messageToRow(message));
+      },
+      insertGroupCopies: async (message, recipientIds) => {
+        recipientIds.forEach(recipientId => {
+          const exists = tables.messages.some(
+            row => row.group_message_id === message.id && row.receiver_id === recipientId
+          );
+          if (exists) return;
+          tables.messages.push({
+            ...messageToRow({ ...message, receiverId: recipientId }),
+            id: newId('message'),
+            group_message_id: message.id,
+            conversation_id: message.conversationId,
+          });
+        });
+      },
+      listUndelivered: async (receiverId) =>
+        tables.messages
+          .filter(row => row.receiver_id === receiverId && row.status === 'sent')
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(messageFromRow),
+      markDelivered: async (messageIds) => {
+        tables.messages.forEach(row => {
+          if (messageIds.includes(row.id) && row.status === 'sent') row.status = 'delivered';
+        });
+      },
+      markRead: async (receiverId, senderIds) => {
+        tables.messages.forEach(row => {
+          if (row.receiver_id === receiverId && senderIds.includes(row.sender_id)) row.status = 'read';
+        });
+      },
+      deleteForUser: async (userId) => {
+        removeWhere(tables.messages, row => row.sender_id === userId || row.receiver_id === userId);
+      },
+    },
+
+    conversations: {
+      getById: async (id) => {
+        const row = tables.conversations.find(conversation => conversation.id === id);
+        return row ? conversationFromRow(row) : null;
+      },
+      findDirectId: async (userIdA, userIdB) => {
+        const row = tables.conversations.find(
+          conversation =>
+            !conversation.is_group &&
+            ((conversation.participant1_id === userIdA && conversation.participant2_id === userIdB) ||
+              (conversation.participant1_id === userIdB && conversation.participant2_id === userIdA))
+        );
+        return row ? row.id : null;
+      },
+      insertDirect: async (id, senderId, receiverId, lastMessage) => {
+        const sentAt = new Date(lastMessage.timestamp).toISOString();
+        insertUnique('conversations', tables.conversations, {
+          id,
+          participant1_id: senderId < receiverId ? senderId : receiverId,
+          participant2_id: senderId < receiverId ? receiverId : senderId,
+          participants: [senderId, receiverId],
+          is_group: false,
+          last_message_id: lastMessage.id,
+          last_message_at: sentAt,
+          created_at: sentAt,
+          updated_at: now(),
+        });
+      },
+      insertGroup: async (conversation) => {
+        insertUnique('conversations', tables.conversations, {
+          id: conversation.id,
+          participants: conversation.participants,
+          is_group: true,
+          group_name: conversation.groupName || null,
+          created_at: now(),
+          updated_at: new Date(conversation.updatedAt).toISOString(),
+        });
+      },
+      touch: async (id, lastMessage) => {
+        updateConversation(id, {
+          last_message_at: new Date(lastMessage.timestamp).toISOString(),
+          updated_at: now(),
+          ...(lastMessage.conversationId ? {} : { last_message_id: lastMessage.id }),
+        });
+      },
+      addParticipant: async (id, userId) => {
+        const row = tables.conversations.find(conversation => conversation.id === id);
+        if (row && !(row.participants || []).includes(userId)) {
+          updateConversation(id, { participants: [...(row.participants || []), userId], updated_at: now() });
+        }
+      },
+      removeParticipant: async (id, userId) => {
+        const row = tables.conversations.find(conversation => conversation.id === id);
+        if (row) {
+          updateConversation(id, {
+            participants: (row.participants || []).filter(participant => participant !== userId),
+            updated_at: now(),
+          });
+        }
+      },
+      setParticipants: async (id, participants) => {
+        updateConversation(id, { participants, updated_at: now() });
+      },
+      rename: async (id, groupName) => {
+        updateConversation(id, { group_name: groupName, updated_at: now() });
+      },
+      deleteForUser: async (userId) => {
+        removeWhere(tables.conversations, row => (row.participants || []).includes(userId));
+      },
+    },
+
+    matches: {
+      listForUser: async (userId) =>
+        tables.matches.filter(row => row.user1_id === userId || row.user2_id === userId).map(matchFromRow),
+      findByPair: async (user1Id, user2Id) => {
+        const row = tables.matches.find(match => match.user1_id === user1Id && match.user2_id === user2Id);
+        return row ? matchFromRow(row) : null;
+      },
+      insert: async (match) => {
+        insertUnique('matches', tables.matches, matchToRow(match));
+      },
+      reactivate: async (id, matchedAt) => {
+        const row = tables.matches.find(match => match.id === id);
+        if (row) Object.assign(row, { is_active: true, matched_at: new Date(matchedAt).toISOString() });
+      },
+      deactivate: async (id) => {
+        const row = tables.matches.find(match => match.id === id);
+        if (row) row.is_active = false;
+      },
+      deleteForUser: async (userId) => {
+        removeWhere(tables.matches, row => row.user1_id === userId || row.user2_id === userId);
+      },
+    },
+
+    swipes: {
+      listForUser: async (userId) =>
+        tables.swipes
+          .filter(row => row.swiper_id === userId || (row.swiped_id === userId && row.direction === 'right'))
+          .map(swipeFromRow),
+      findRightSwipe: async (swiperId, swipedUserId) => {
+        const row = tables.swipes.find(
+          swipe =>
+            swipe.swiper_id === swiperId &&
+            swipe.swiped_id === swipedUserId &&
+            swipe.swipe_type === 'user' &&
+            swipe.direction === 'right'
+        );
+        return row ? swipeFromRow(row) : null;
+      },
+      insert: async (swipe) => {
+        insertUnique('swipes', tables.swipes, swipeToRow(swipe));
+      },
+      deleteForUser: async (userId) => {
+        removeWhere(tables.swipes, row => row.swiper_id === userId || row.swiped_id === userId);
+      },
+    },
+  };
+
+  return { ...repositories, tables };
+}
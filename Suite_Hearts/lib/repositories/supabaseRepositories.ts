@@ -0,0 +1,390 @@
+/**
+ * Supabase Repositories
+ *
+ * The repositories the app runs on. Supabase errors are translated to
+ * RepositoryError codes here so nothing above this layer checks Postgres or
+ * PostgREST error codes.
+ */
+
+import { supabase } from '../supabase';
+import {
+  Repositories,
+  RepositoryError,
+  RepositoryErrorCode,
+  UsersRepository,
+  ListingsRepository,
+  ListingPhotosRepository,
+  MessagesRepository,
+  ConversationsRepository,
+  MatchesRepository,
+  SwipesRepository,
+} from './types';
+import {
+  UserRow,
+  ListingRow,
+  MessageRow,
+  ConversationRow,
+  MatchRow,
+  SwipeRow,
+  userFromRow,
+  userToRow,
+  listingFromRow,
+  listingToRow,
+  listingPhotoToRow,
+  messageFromRow,
+  messageToRow,
+  conversationFromRow,
+  matchFromRow,
+  matchToRow,
+  swipeFromRow,
+  swipeToRow,
+} from './mappers';
+
+// Select listings with their photos joined, for listingFromRow
+export const LISTING_WITH_PHOTOS_SELECT = '*, listing_photos(photo_url, photo_order)';
+
+// Postgres / PostgREST error codes we treat specially
+const ERROR_CODES: Record<string, RepositoryErrorCode> = {
+  '23505': 'duplicate', // unique_violation
+  '42703': 'missing_column', // undefined_column
+  PGRST204: 'missing_column', // column not in the schema cache
+  PGRST116: 'not_found', // .single() matched no rows
+};
+
+function toRepositoryError(table: string, error: { code?: string; message?: string }): RepositoryError {
+  const code = (error.code && ERROR_CODES[error.code]) || 'unknown';
+  return new RepositoryError(code, table, error.message || 'Supabase request failed', error);
+}
+
+// Throw the response error, if any, as a RepositoryError
+function check<T>(table: string, response: { data: T; error: any }): T {
+  if (response.error) {
+    throw toRepositoryError(table, response.error);
+  }
+  return response.data;
+}
+
+const users: UsersRepository = {
+  getById: async (id) => {
+    const data = check('users', await supabase.from('users').select('*').eq('id', id).maybeSingle());
+    return data ? userFromRow(data as UserRow) : null;
+  },
+  getByEmail: async (email) => {
+    const data = check('users', await supabase.from('users').select('*').eq('email', email.toLowerCase()).limit(1));
+    return data && data.length > 0 ? userFromRow(data[0] as UserRow) : null;
+  },
+  insert: async (user) => {
+    check('users', await supabase.from('users').insert({ ...userToRow(user), id: user.id }));
+  },
+  update: async (id, updates) => {
+    await users.updateColumns(id, userToRow(updates));
+  },
+  updateColumns: async (id, columns) => {
+    if (Object.keys(columns).length === 0) return;
+    check('users', await supabase.from('users').update(columns).eq('id', id));
+  },
+  delete: async (id) => {
+    check('users', await supabase.from('users').delete().eq('id', id));
+  },
+};
+
+const listings: ListingsRepository = {
+  list: async () => {
+    const data = check(
+      'listings',
+      await supabase
+        .from('listings')
+        .select(LISTING_WITH_PHOTOS_SELECT)
+        .or('is_hidden.is.null,is_hidden.eq.false')
+        .order('created_at', { ascending: false })
+    );
+    return (data || []).map((row: any) => listingFromRow(row as ListingRow));
+  },
+  listByOwner: async (ownerId) => {
+    const data = check(
+      'listings',
+      await supabase
+        .from('listings')
+        .select(LISTING_WITH_PHOTOS_SELECT)
+        .eq('owner_id', ownerId)
+        .order('created_at', { ascending: false })
+    );
+    return (data || []).map((row: any) => listingFromRow(row as ListingRow));
+  },
+  listByIds: async (ids) => {
+    if (ids.length === 0) return [];
+    const data = check('listings', await supabase.from('listings').select(LISTING_WITH_PHOTOS_SELECT).in('id', ids));
+    return (data || []).map((row: any) => listingFromRow(row as ListingRow));
+  },
+  listHiddenIds: async () => {
+    const data = check('listings', await supabase.from('listings').select('id').eq('is_hidden', true));
+    return (data || []).map((row: { id: string }) => row.id);
+  },
+  getById: async (id) => {
+    const data = check(
+      'listings',
+      await supabase.from('listings').select(LISTING_WITH_PHOTOS_SELECT).eq('id', id).maybeSingle()
+    );
+    return data ? listingFromRow(data as ListingRow) : null;
+  },
+  insert: async (listing) => {
+    const data = check('listings', await supabase.from('listings').insert(listingToRow(listing)).select('id').single());
+    return (data as { id: string }).id;
+  },
+  update: async (id, updates) => {
+    check('listings', await supabase.from('listings').update(listingToRow(updates)).eq('id', id));
+  },
+  delete: async (id) => {
+    check('listings', await supabase.from('listings').delete().eq('id', id));
+  },
+};
+
+const listingPhotos: ListingPhotosRepository = {
+  listUrls: async (listingId) => {
+    const data = check(
+      'listing_photos',
+      await supabase
+        .from('listing_photos')
+        .select('photo_url, photo_order')
+        .eq('listing_id', listingId)
+        .order('photo_order', { ascending: true })
+    );
+    return (data || []).map((row: { photo_url: string }) => row.photo_url);
+  },
+  replace: async (listingId, photoUrls) => {
+    check('listing_photos', await supabase.from('listing_photos').delete().eq('listing_id', listingId));
+    if (photoUrls.length === 0) return;
+    check(
+      'listing_photos',
+      await supabase
+        .from('listing_photos')
+        .insert(photoUrls.map((photoUrl, index) => listingPhotoToRow(listingId, photoUrl, index)))
+    );
+  },
+};
+
+const messages: MessagesRepository = {
+  insert: async (message) => {
+    check('messages', await supabase.from('messages').insert(messageToRow(message)));
+  },
+  insertGroupCopies: async (message, recipientIds) => {
+    const rows: MessageRow[] = recipientIds.map(recipientId => ({
+      ...messageToRow({ ...message, receiverId: recipientId }),
+      id: generateUUID(),
+      group_message_id: message.id,
+      conversation_id: message.conversationId,
+    }));
+    check(
+      'messages',
+      await supabase
+        .from('messages')
+        .upsert(rows, { onConflict: 'group_message_id,receiver_id', ignoreDuplicates: true })
+    );
+  },
+  listUndelivered: async (receiverId) => {
+    const data = check(
+      'messages',
+      await supabase
+        .from('messages')
+        .select('*')
+        .eq('receiver_id', receiverId)
+        .eq('status', 'sent')
+        .order('created_at', { ascending: true })
+    );
+    return (data || []).map((row: any) => messageFromRow(row as MessageRow));
+  },
+  markDelivered: async (messageIds) => {
+    if (messageIds.length === 0) return;
+    check(
+      'messages',
+      await supabase.from('messages').update({ status: 'delivered' }).in('id', messageIds).eq('status', 'sent')
+    );
+  },
+  markRead: async (receiverId, senderIds) => {
+    if (senderIds.length === 0) return;
+    check(
+      'messages',
+      await supabase
+        .from('messages')
+        .update({ status: 'read' })
+        .eq('receiver_id', receiverId)
+        .in('sender_id', senderIds)
+        .neq('status', 'read')
+    );
+  },
+  deleteForUser: async (userId) => {
+    check('messages', await supabase.from('messages').delete().or(`sender_id.eq.${userId},receiver_id.eq.${userId}`));
+  },
+};
+
+const conversations: ConversationsRepository = {
+  getById: async (id) => {
+    const data = check('conversations', await supabase.from('conversations').select('*').eq('id', id).maybeSingle());
+    return data ? conversationFromRow(data as ConversationRow) : null;
+  },
+  findDirectId: async (userIdA, userIdB) => {
+    const data = check(
+      'conversations',
+      await supabase
+        .from('conversations')
+        .select('id')
+        .or(
+          `and(participant1_id.eq.${userIdA},participant2_id.eq.${userIdB}),and(participant1_id.eq.${userIdB},participant2_id.eq.${userIdA})`
+        )
+        .eq('is_group', false)
+        .limit(1)
+    );
+    return data && data.length > 0 ? data[0].id : null;
+  },
+  insertDirect: async (id, senderId, receiverId, lastMessage) => {
+    const sentAt = new Date(lastMessage.timestamp).toISOString();
+    const row: ConversationRow = {
+      id,
+      participant1_id: senderId < receiverId ? senderId : receiverId,
+      participant2_id: senderId < receiverId ? receiverId : senderId,
+      participants: [senderId, receiverId],
+      is_group: false,
+      last_message_id: lastMessage.id,
+      last_message_at: sentAt,
+      created_at: sentAt,
+      updated_at: new Date().toISOString(),
+    };
+    check('conversations', await supabase.from('conversations').insert(row));
+  },
+  insertGroup: async (conversation) => {
+    const row: ConversationRow = {
+      id: conversation.id,
+      participants: conversation.participants,
+      is_group: true,
+      group_name: conversation.groupName || null,
+      created_at: new Date().toISOString(),
+      updated_at: new Date(conversation.updatedAt).toISOString(),
+    };
+    check('conversations', await supabase.from('conversations').insert(row));
+  },
+  touch: async (id, lastMessage) => {
+    const updates: Partial<ConversationRow> = {
+      last_message_at: new Date(lastMessage.timestamp).toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    // Group message IDs aren't `messages` row IDs (each copy has its own), so only 1-on-1 chats link one
+    if (!lastMessage.conversationId) {
+      updates.last_message_id = lastMessage.id;
+    }
+    check('conversations', await supabase.from('conversations').update(updates).eq('id', id));
+  },
+  addParticipant: async (id, userId) => {
+    check('conversations', await supabase.rpc('add_participant_to_conversation', { conv_id: id, user_id: userId }));
+  },
+  removeParticipant: async (id, userId) => {
+    check('conversations', await supabase.rpc('remove_participant_from_conversation', { conv_id: id, user_id: userId }));
+  },
+  setParticipants: async (id, participants) => {
+    check(
+      'conversations',
+      await supabase
+        .from('conversations')
+        .update({ participants, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    );
+  },
+  rename: async (id, groupName) => {
+    check(
+      'conversations',
+      await supabase
+        .from('conversations')
+        .update({ group_name: groupName, updated_at: new Date().toISOString() })
+        .eq('id', id)
+    );
+  },
+  deleteForUser: async (userId) => {
+    check('conversations', await supabase.from('conversations').delete().contains('participants', [userId]));
+  },
+};
+
+const matches: MatchesRepository = {
+  listForUser: async (userId) => {
+    const data = check(
+      'matches',
+      await supabase.from('matches').select('*').or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+    );
+    return (data || []).map((row: any) => matchFromRow(row as MatchRow));
+  },
+  findByPair: async (user1Id, user2Id) => {
+    const data = check(
+      'matches',
+      await supabase.from('matches').select('*').eq('user1_id', user1Id).eq('user2_id', user2Id).limit(1)
+    );
+    return data && data.length > 0 ? matchFromRow(data[0] as MatchRow) : null;
+  },
+  insert: async (match) => {
+    check('matches', await supabase.from('matches').insert(matchToRow(match)));
+  },
+  reactivate: async (id, matchedAt) => {
+    check(
+      'matches',
+      await supabase
+        .from('matches')
+        .update({ is_active: true, matched_at: new Date(matchedAt).toISOString() })
+        .eq('id', id)
+    );
+  },
+  deactivate: async (id) => {
+    check('matches', await supabase.from('matches').update({ is_active: false }).eq('id', id));
+  },
+  deleteForUser: async (userId) => {
+    check('matches', await supabase.from('matches').delete().or(`user1_id.eq.${userId},user2_id.eq.${userId}`));
+  },
+};
+
+const swipes: SwipesRepository = {
+  listForUser: async (userId) => {
+    const data = check(
+      'swipes',
+      await supabase
+        .from('swipes')
+        .select('*')
+        .or(`swiper_id.eq.${userId},and(swiped_id.eq.${userId},direction.eq.right)`)
+    );
+    return (data || []).map((row: any) => swipeFromRow(row as SwipeRow));
+  },
+  findRightSwipe: async (swiperId, swipedUserId) => {
+    const data = check(
+      'swipes',
+      await supabase
+        .from('swipes')
+        .select('*')
+        .eq('swiper_id', swiperId)
+        .eq('swiped_id', swipedUserId)
+        .eq('swipe_type', 'user')
+        .eq('direction', 'right')
+        .limit(1)
+    );
+    return data && data.length > 0 ? swipeFromRow(data[0] as SwipeRow) : null;
+  },
+  insert: async (swipe) => {
+    check('swipes', await supabase.from('swipes').insert(swipeToRow(swipe)));
+  },
+  deleteForUser: async (userId) => {
+    check('swipes', await supabase.from('swipes').delete().or(`swiper_id.eq.${userId},swiped_id.eq.${userId}`));
+  },
+};
+
+// Generate a UUID v4
+function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+}
+
+export const supabaseRepositories: Repositories = {
+  users,
+  listings,
+  listingPhotos,
+  messages,
+  conversations,
+  matches,
+  swipes,
+};
@@ -0,0 +1,113 @@
+/**
+ * Repository interfaces
+ *
+ * Typed access to the Supabase tables, implemented by supabaseRepositories
+ * (the app) and memoryRepositories (offline tests). Methods work in app models;
+ * the snake_case rows stay inside the implementations (see mappers.ts).
+ *
+ * Reads that find nothing return null or an empty list. Every failure is thrown
+ * as a RepositoryError, so callers only ever have one error shape to handle.
+ */
+
+import { User, Listing, Message, Swipe, Match } from '../../types';
+import { ConversationMeta, ListingInput, UserRow } from './mappers';
+
+export type RepositoryErrorCode =
+  | 'not_found'
+  | 'duplicate' // Unique constraint, e.g. a retried insert that already went through
+  | 'missing_column' // The database is behind the app's schema
+  | 'unknown';
+
+export class RepositoryError extends Error {
+  code: RepositoryErrorCode;
+  table: string;
+  cause?: unknown;
+
+  constructor(code: RepositoryErrorCode, table: string, message: string, cause?: unknown) {
+    super(`[${table}] ${message}`);
+    this.name = 'RepositoryError';
+    this.code = code;
+    this.table = table;
+    this.cause = cause;
+  }
+}
+
+export function isRepositoryError(error: unknown, code?: RepositoryErrorCode): error is RepositoryError {
+  return error instanceof RepositoryError && (!code || error.code === code);
+}
+
+export interface UsersRepository {
+  getById: (id: string) => Promise<User | null>;
+  getByEmail: (email: string) => Promise<User | null>;
+  insert: (user: Partial<User> & { id: string }) => Promise<void>;
+  update: (id: string, updates: Partial<User>) => Promise<void>;
+  // Raw columns, for writes queued in the outbox before they were mapped
+  updateColumns: (id: string, columns: Partial<UserRow>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+export interface ListingsRepository {
+  list: () => Promise<Listing[]>; // Newest first, with photos; leaves out listings hidden by an admin
+  listByOwner: (ownerId: string) => Promise<Listing[]>;
+  listByIds: (ids: string[]) => Promise<Listing[]>;
+  listHiddenIds: () => Promise<string[]>;
+  getById: (id: string) => Promise<Listing | null>;
+  insert: (listing: ListingInput) => Promise<string>; // Returns the new ID
+  update: (id: string, updates: Partial<ListingInput>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+export interface ListingPhotosRepository {
+  listUrls: (listingId: string) => Promise<string[]>; // In photo order
+  replace: (listingId: string, photoUrls: string[]) => Promise<void>;
+}
+
+export interface MessagesRepository {
+  insert: (message: Message) => Promise<void>; // 1-on-1 message
+  // One copy per recipient; copies that already exist are skipped
+  insertGroupCopies: (message: Message, recipientIds: string[]) => Promise<void>;
+  listUndelivered: (receiverId: string) => Promise<Message[]>; // Still 'sent', oldest first
+  markDelivered: (messageIds: string[]) => Promise<void>; // Row IDs; only moves 'sent' forward
+  markRead: (receiverId: string, senderIds: string[]) => Promise<void>;
+  deleteForUser: (userId: string) => Promise<void>;
+}
+
+export interface ConversationsRepository {
+  getById: (id: string) => Promise<ConversationMeta | null>;
+  findDirectId: (userIdA: string, userIdB: string) => Promise<string | null>;
+  insertDirect: (id: string, senderId: string, receiverId: string, lastMessage: Message) => Promise<void>;
+  insertGroup: (conversation: ConversationMeta) => Promise<void>;
+  touch: (id: string, lastMessage: Message) => Promise<void>; // Bump after a new message
+  addParticipant: (id: string, userId: string) => Promise<void>;
+  removeParticipant: (id: string, userId: string) => Promise<void>;
+  setParticipants: (id: string, participants: string[]) => Promise<void>;
+  rename: (id: string, groupName: string) => Promise<void>;
+  deleteForUser: (userId: string) => Promise<void>;
+}
+
+export interface MatchesRepository {
+  listForUser: (userId: string) => Promise<Match[]>; // Active and inactive
+  findByPair: (user1Id: string, user2Id: string) => Promise<Match | null>; // Pair as ordered by orderUserPair
+  insert: (match: Match) => Promise<void>;
+  reactivate: (id: string, matchedAt: number) => Promise<void>;
+  deactivate: (id: string) => Promise<void>;
+  deleteForUser: (userId: string) => Promise<void>;
+}
+
+export interface SwipesRepository {
+  // Every swipe made by the user plus every right-swipe made on them
+  listForUser: (userId: string) => Promise<Swipe[]>;
+  findRightSwipe: (swiperId: string, swipedUserId: string) => Promise<Swipe | null>;
+  insert: (swipe: Swipe) => Promise<void>;
+  deleteForUser: (userId: string) => Promise<void>;
+}
+
+export interface Repositories {
+  users: UsersRepository;
+  listings: ListingsRepository;
+  listingPhotos: ListingPhotosRepository;
+  messages: MessagesRepository;
+  conversations: ConversationsRepository;
+  matches: MatchesRepository;
+  swipes: SwipesRepository;
+}
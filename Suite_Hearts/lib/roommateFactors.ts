@@ -0,0 +1,382 @@
+/**
+ * Roommate Scoring Factors
+ *
+ * The built-in factors and hard filters the recommender uses to compare two
+ * searchers. Each factor returns a 0-1 score for one aspect of compatibility,
+ * or null when either profile is missing the data (scored as neutral).
+ *
+ * Default weights keep the original category split:
+ * - Core housing constraints: 50% (budget, housing type, roommate type, roommate count)
+ * - Demographics: 20% (age, race)
+ * - Lifestyle: 30% (cleanliness, sleep, guests, smoking, pets, friendliness)
+ * Plus a small commute factor (5%) when the candidate has pinned where they
+ * want to live and the user has campus / office pins.
+ */
+
+import { User } from '../types';
+import type { ScoringFactor, HardFilter } from './recommender';
+import { normalizeCityName } from './geo';
+import { DEALBREAKER_FILTERS } from './dealbreakers';
+import { scoreCommute } from './commute';
+
+/**
+ * Normalize roommate count to a number
+ * "None" = 0, "6+" = 6, numbers stay as-is
+ */
+export function normalizeRoommateCount(count: number | string | undefined): number | null {
+  if (count === undefined || count === null) {
+    return null;
+  }
+
+  if (typeof count === 'string') {
+    if (count.toLowerCase() === 'none') {
+      return 0;
+    }
+    if (count === '6+' || count === '6') {
+      return 6;
+    }
+    const parsed = parseInt(count);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  return count;
+}
+
+export function toSpaceTypes(spaceType: string | string[] | undefined): string[] {
+  return Array.isArray(spaceType) ? spaceType : (spaceType ? [spaceType] : []);
+}
+
+/**
+ * Read a 1-10 scale preference (older profiles may store it as a string)
+ */
+function toScale(value: number | string | undefined | null): number | null {
+  if (value === undefined || value === null) return null;
+  const num = typeof value === 'string' ? parseInt(value) : value;
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Describe a sleep schedule answer ("Night Owl" -> "a night owl")
+ */
+function describeSleepSchedule(schedule: string): string {
+  const lower = schedule.toLowerCase();
+  return /^[aeiou]/.test(lower) ? `an ${lower}` : `a ${lower}`;
+}
+
+/**
+ * Similarity of two 1-10 scale values (max distance is 9)
+ */
+function scaleSimilarity(a: number, b: number): number {
+  return Math.max(0, 1 - Math.abs(a - b) / 9);
+}
+
+// Budget overlap: full overlap = 1, partial = share of the combined range, none = 0
+const budgetFactor: ScoringFactor<User> = {
+  id: 'budget',
+  label: 'Budget',
+  category: 'housing',
+  weight: 0.125,
+  score: (user, candidate) => {
+    const minA = user.minBudget || 0;
+    const maxA = user.maxBudget || 0;
+    const minB = candidate.minBudget || 0;
+    const maxB = candidate.maxBudget || 0;
+    if (minA === 0 || maxA === 0 || minB === 0 || maxB === 0) return null;
+
+    const overlapMin = Math.max(minA, minB);
+    const overlapMax = Math.min(maxA, maxB);
+    if (overlapMax < overlapMin) {
+      return { score: 0, reason: "Budgets don't overlap" };
+    }
+
+    const unionRange = Math.max(maxA, maxB) - Math.min(minA, minB);
+    const score = unionRange === 0 ? 1 : (overlapMax - overlapMin) / unionRange;
+    return { score, reason: `Both budget $${overlapMin}-$${overlapMax}` };
+  },
+};
+
+const housingTypeFactor: ScoringFactor<User> = {
+  id: 'housingType',
+  label: 'Housing type',
+  category: 'housing',
+  weight: 0.125,
+  score: (user, candidate) => {
+    const typesA = toSpaceTypes(user.spaceType);
+    const typesB = toSpaceTypes(candidate.spaceType);
+    if (typesA.length === 0 || typesB.length === 0) return null;
+
+    const shared = typesA.find(type => typesB.includes(type));
+    return shared
+      ? { score: 1, reason: `Both want ${shared.toLowerCase()}` }
+      : { score: 0, reason: 'Want different kinds of space' };
+  },
+};
+
+// Roommates vs suitemates; "both" is compatible with either
+const roommateTypeFactor: ScoringFactor<User> = {
+  id: 'roommateType',
+  label: 'Roommates or suitemates',
+  category: 'housing',
+  weight: 0.125,
+  score: (user, candidate) => {
+    const typeA = user.roommateType;
+    const typeB = candidate.roommateType;
+    if (!typeA || !typeB) return null;
+
+    if (typeA === typeB || typeA === 'both' || typeB === 'both') {
+      const shared = typeA === 'both' ? typeB : typeA;
+      return { score: 1, reason: shared === 'both' ? 'Open to roommates or suitemates' : `Both want ${shared}` };
+    }
+    return { score: 0, reason: `You want ${typeA}, they want ${typeB}` };
+  },
+};
+
+// Asymmetric: a candidate happy with fewer roommates than the user's max fits the user fine,
+// but each roommate they'd accept beyond the user's max costs 0.2
+const roommateCountFactor: ScoringFactor<User> = {
+  id: 'roommateCount',
+  label: 'Number of roommates',
+  category: 'housing',
+  weight: 0.125,
+  score: (user, candidate) => {
+    const countA = normalizeRoommateCount(user.maxRoommates);
+    const countB = normalizeRoommateCount(candidate.maxRoommates);
+    if (countA === null || countB === null) return null;
+
+    if (countB === countA) {
+      return { score: 1, reason: 'Want the same number of roommates' };
+    }
+    if (countB < countA) {
+      return { score: 1 };
+    }
+    return {
+      score: Math.max(0, 1 - (countB - countA) * 0.2),
+      reason: `They're open to ${countB} roommates, you want at most ${countA}`,
+    };
+  },
+};
+
+// Within 3 years = 1, then -0.1 per extra year
+const ageFactor: ScoringFactor<User> = {
+  id: 'age',
+  label: 'Age',
+  category: 'demographics',
+  weight: 0.1,
+  score: (user, candidate) => {
+    const ageA = parseInt(user.age || '0');
+    const ageB = parseInt(candidate.age || '0');
+    if (isNaN(ageA) || isNaN(ageB) || ageA === 0 || ageB === 0) return null;
+
+    const ageDiff = Math.abs(ageA - ageB);
+    if (ageDiff <= 3) {
+      return { score: 1, reason: 'Close in age' };
+    }
+    return { score: Math.max(0, 1 - (ageDiff - 3) * 0.1), reason: `${ageDiff} years apart in age` };
+  },
+};
+
+// Soft preference: small boost on a match, no penalty otherwise
+const raceFactor: ScoringFactor<User> = {
+  id: 'race',
+  label: 'Background',
+  category: 'demographics',
+  weight: 0.1,
+  score: (user, candidate) => {
+    if (!user.race || !candidate.race) return null;
+    return { score: user.race === candidate.race ? 0.7 : 0.5 };
+  },
+};
+
+const cleanlinessFactor: ScoringFactor<User> = {
+  id: 'cleanliness',
+  label: 'Cleanliness',
+  category: 'lifestyle',
+  weight: 0.05,
+  score: (user, candidate) => {
+    const cleanA = toScale(user.cleanliness);
+    const cleanB = toScale(candidate.cleanliness);
+    if (cleanA === null || cleanB === null) return null;
+
+    const score = scaleSimilarity(cleanA, cleanB);
+    if (score >= 0.75) {
+      return { score, reason: 'Similar standards of cleanliness' };
+    }
+    return { score, reason: cleanA > cleanB ? "You're much tidier than they are" : "They're much tidier than you are" };
+  },
+};
+
+// Same schedule or either says "Both" = 1, otherwise 0
+const sleepScheduleFactor: ScoringFactor<User> = {
+  id: 'sleepSchedule',
+  label: 'Sleep schedule',
+  category: 'lifestyle',
+  weight: 0.05,
+  score: (user, candidate) => {
+    const scheduleA = user.nightOwl;
+    const scheduleB = candidate.nightOwl;
+    if (!scheduleA || !scheduleB) return null;
+
+    if (scheduleA === scheduleB || scheduleA === 'Both' || scheduleB === 'Both') {
+      return { score: 1, reason: 'Compatible sleep schedules' };
+    }
+    return {
+      score: 0,
+      reason: `You're ${describeSleepSchedule(scheduleA)}, they're ${describeSleepSchedule(scheduleB)}`,
+    };
+  },
+};
+
+// Only "never" vs "always okay" clashes
+const guestsFactor: ScoringFactor<User> = {
+  id: 'guests',
+  label: 'Guests',
+  category: 'lifestyle',
+  weight: 0.05,
+  score: (user, candidate) => {
+    const guestsA = user.guestsAllowed;
+    const guestsB = candidate.guestsAllowed;
+    if (!guestsA || !guestsB) return null;
+
+    if (guestsA === 'never' && guestsB === 'always okay') {
+      return { score: 0.2, reason: "You'd rather not have guests, they're fine with them anytime" };
+    }
+    if (guestsA === 'always okay' && guestsB === 'never') {
+      return { score: 0.2, reason: "You're fine with guests anytime, they'd rather have none" };
+    }
+    return { score: 1, reason: 'Agree on guests' };
+  },
+};
+
+const smokingFactor: ScoringFactor<User> = {
+  id: 'smoking',
+  label: 'Smoking',
+  category: 'lifestyle',
+  weight: 0.05,
+  score: (user, candidate) => {
+    const smokingA = user.smoking;
+    const smokingB = candidate.smoking;
+    if (!smokingA || !smokingB) return null;
+
+    if (smokingA === smokingB) {
+      return { score: 1, reason: smokingA === 'Never' ? 'Both non-smokers' : 'Same smoking habits' };
+    }
+    // Hard mismatch: one "Never", other "Often"
+    if (smokingA === 'Never' && smokingB === 'Often') {
+      return { score: 0.1, reason: "You don't smoke, they smoke often" };
+    }
+    if (smokingA === 'Often' && smokingB === 'Never') {
+      return { score: 0.1, reason: "You smoke often, they don't smoke" };
+    }
+    return { score: 0.5 };
+  },
+};
+
+const petsFactor: ScoringFactor<User> = {
+  id: 'pets',
+  label: 'Pets',
+  category: 'lifestyle',
+  weight: 0.05,
+  score: (user, candidate) => {
+    const petsA = user.pets;
+    const petsB = candidate.pets;
+    if (!petsA || !petsB) return null;
+
+    if (petsA === petsB) {
+      return { score: 1, reason: petsA === 'Yes' ? 'Both have pets' : 'Neither has pets' };
+    }
+    if (petsA === 'Yes' && petsB === 'No') {
+      return { score: 0, reason: "You have pets, they don't" };
+    }
+    if (petsA === 'No' && petsB === 'Yes') {
+      return { score: 0, reason: "They have pets, you don't" };
+    }
+    return { score: 0.5 };
+  },
+};
+
+const friendlinessFactor: ScoringFactor<User> = {
+  id: 'friendliness',
+  label: 'Friendliness',
+  category: 'lifestyle',
+  weight: 0.05,
+  score: (user, candidate) => {
+    const friendlyA = toScale(user.friendliness);
+    const friendlyB = toScale(candidate.friendliness);
+    if (friendlyA === null || friendlyB === null) return null;
+
+    const score = scaleSimilarity(friendlyA, friendlyB);
+    if (score >= 0.75) {
+      return { score, reason: 'Want a similar roommate relationship' };
+    }
+    return {
+      score,
+      reason: friendlyA > friendlyB ? 'You want to be closer friends than they do' : 'They want to be closer friends than you do',
+    };
+  },
+};
+
+// Living where the candidate wants to live = a short commute for the user?
+const commuteFactor: ScoringFactor<User> = {
+  id: 'commute',
+  label: 'Commute',
+  category: 'location',
+  weight: 0.05,
+  score: (user, candidate) => {
+    if (!candidate.preferredLatitude || !candidate.preferredLongitude) return null;
+    const result = scoreCommute(user, {
+      latitude: candidate.preferredLatitude,
+      longitude: candidate.preferredLongitude,
+    });
+    return result && { score: result.score, reason: `Their area: ${result.reason}` };
+  },
+};
+
+export const ROOMMATE_FACTORS: ScoringFactor<User>[] = [
+  budgetFactor,
+  housingTypeFactor,
+  roommateTypeFactor,
+  roommateCountFactor,
+  ageFactor,
+  raceFactor,
+  cleanlinessFactor,
+  sleepScheduleFactor,
+  guestsFactor,
+  smokingFactor,
+  petsFactor,
+  friendlinessFactor,
+  commuteFactor,
+];
+
+export const ROOMMATE_HARD_FILTERS: HardFilter<User>[] = [
+  {
+    id: 'notSelf',
+    passes: (user, candidate) => candidate.id !== user.id,
+  },
+  {
+    // Blocked users (either direction)
+    id: 'notExcluded',
+    label: 'Blocked',
+    passes: (_user, candidate, context) => !context.excludeIds.has(candidate.id),
+  },
+  {
+    // Only searchers who want roommates
+    id: 'lookingForRoommates',
+    label: 'Not looking for roommates',
+    passes: (_user, candidate) =>
+      candidate.userType === 'searcher' &&
+      (candidate.lookingFor === 'roommates' || candidate.lookingFor === 'both'),
+  },
+  {
+    // City must match (handles variations like "SF" vs "San Francisco")
+    id: 'sameCity',
+    label: 'Different city',
+    passes: (user, candidate) => {
+      const cityA = user.preferredCity || user.location;
+      const cityB = candidate.preferredCity || candidate.location;
+      if (!cityA || !cityB) return true;
+      return normalizeCityName(cityA) === normalizeCityName(cityB);
+    },
+  },
+  // The user's own dealbreakers (smoking, pets, guests, ...)
+  ...DEALBREAKER_FILTERS,
+];
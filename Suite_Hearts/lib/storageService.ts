@@ -0,0 +1,52 @@
+/**
+ * Storage Service
+ *
+ * Uploads local files (e.g. from expo-image-picker) to Supabase Storage and
+ * returns their public URL. Used for chat images and listing photos; each
+ * caller picks its bucket and path.
+ */
+
+import { supabase } from './supabase';
+
+export interface UploadOptions {
+  upsert?: boolean; // Replace a file already at the path
+  contentType?: string; // Used when the file doesn't report its own type (default image/jpeg)
+}
+
+/**
+ * Upload a local file to `bucket` at `filePath`
+ * Returns the public URL, or null if the upload failed.
+ */
+export async function uploadToStorage(
+  bucket: string,
+  filePath: string,
+  localUri: string,
+  options: UploadOptions = {}
+): Promise<string | null> {
+  try {
+    // Read file into a blob (works in React Native + expo-image-picker)
+    const response = await fetch(localUri);
+    const blob = await response.blob();
+    const contentType = blob.type && blob.type !== '' ? blob.type : options.contentType || 'image/jpeg';
+
+    const { error: uploadError } = await supabase.storage
+      .from(bucket)
+      .upload(filePath, blob, { contentType, upsert: options.upsert });
+
+    if (uploadError) {
+      console.error(`Error uploading to ${bucket}:`, uploadError);
+      return null;
+    }
+
+    const { data: urlData } = supabase.storage.from(bucket).getPublicUrl(filePath);
+
+    if (!urlData?.publicUrl) {
+      console.error(`Failed to get public URL for ${bucket}/${filePath}`);
+      return null;
+    }
+    return urlData.publicUrl;
+  } catch (error) {
+    console.error(`Error uploading to ${bucket}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Swipe + Match Service
+ *
+ * Records every swipe (on users and listings) and turns reciprocal
+ * right-swipes between two users into a Match.
+ *
+ * Local state and AsyncStorage live in UserContext; this module owns the
+ * Supabase side (`swipes` and `matches` repositories, plus the realtime
+ * subscription to `matches`) and the pure helpers used to detect mutual likes.
+ */
+
+import { Swipe, Match } from '../types';
+import { supabase } from './supabase';
+import { getRepositories, matchFromRow, MatchRow } from './repositories';
+
+/**
+ * Order a pair of user IDs so the same two users always produce the same match row
+ * (mirrors how 1-on-1 conversations order participant1/participant2)
+ */
+export function orderUserPair(userIdA: string, userIdB: string): [string, string] {
+  return userIdA < userIdB ? [userIdA, userIdB] : [userIdB, userIdA];
+}
+
+/**
+ * Find the other side of a right-swipe in a list of known swipes
+ * Returns the reciprocal swipe if the swiped user already liked the swiper back
+ */
+export function findReciprocalSwipe(swipes: Swipe[], swipe: Swipe): Swipe | undefined {
+  if (swipe.swipeType !== 'user' || swipe.direction !== 'right') {
+    return undefined;
+  }
+
+  return swipes.find(
+    s =>
+      s.swipeType === 'user' &&
+      s.direction === 'right' &&
+      s.swiperId === swipe.swipedId &&
+      s.swipedId === swipe.swiperId
+  );
+}
+
+/**
+ * Find an existing match between two users (active or not)
+ */
+export function findMatchBetween(matches: Match[], userIdA: string, userIdB: string): Match | undefined {
+  const [user1Id, user2Id] = orderUserPair(userIdA, userIdB);
+  return matches.find(m => m.user1Id === user1Id && m.user2Id === user2Id);
+}
+
+/**
+ * Get the IDs of everything a user has already swiped on, for deck exclusion
+ */
+export function getSwipedIds(swipes: Swipe[], swiperId: string, swipeType: Swipe['swipeType']): Set<string> {
+  return new Set(
+    swipes
+      .filter(s => s.swiperId === swiperId && s.swipeType === swipeType)
+      .map(s => s.swipedId)
+  );
+}
+
+/**
+ * Merge two swipe lists, keeping the newest swipe for each swiper/swiped pair
+ */
+export function mergeSwipes(existing: Swipe[], incoming: Swipe[]): Swipe[] {
+  const byPair = new Map<string, Swipe>();
+  [...existing, ...incoming].forEach(swipe => {
+    const key = `${swipe.swiperId}:${swipe.swipeType}:${swipe.swipedId}`;
+    const current = byPair.get(key);
+    if (!current || swipe.createdAt >= current.createdAt) {
+      byPair.set(key, swipe);
+    }
+  });
+  return Array.from(byPair.values());
+}
+
+/**
+ * Merge two match lists by ID (incoming rows win)
+ */
+export function mergeMatches(existing: Match[], incoming: Match[]): Match[] {
+  const byId = new Map<string, Match>();
+  [...existing, ...incoming].forEach(match => byId.set(match.id, match));
+  return Array.from(byId.values());
+}
+
+/**
+ * Save a swipe to Supabase
+ * Errors are logged, not thrown - swipes are always kept locally
+ */
+export async function saveSwipeToSupabase(swipe: Swipe): Promise<void> {
+  try {
+    await getRepositories().swipes.insert(swipe);
+  } catch (error) {
+    console.error('Error saving swipe to Supabase:', error);
+  }
+}
+
+/**
+ * Fetch every swipe made by a user plus every right-swipe made on them
+ */
+export async function fetchSwipesForUser(userId: string): Promise<Swipe[]> {
+  try {
+    return await getRepositories().swipes.listForUser(userId);
+  } catch (error) {
+    console.error('Error fetching swipes from Supabase:', error);
+    return [];
+  }
+}
+
+/**
+ * Ask Supabase whether the swiped user has already right-swiped the swiper
+ * Used when the reciprocal swipe was made on another device
+ */
+export async function fetchReciprocalSwipe(swipe: Swipe): Promise<Swipe | undefined> {
+  if (swipe.swipeType !== 'user' || swipe.direction !== 'right') {
+    return undefined;
+  }
+
+  try {
+    return (await getRepositories().swipes.findRightSwipe(swipe.swipedId, swipe.swiperId)) || undefined;
+  } catch (error) {
+    console.error('Error checking reciprocal swipe in Supabase:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Save a match to Supabase
+ * If another device already created the row for this pair, the existing match is returned instead
+ */
+export async function saveMatchToSupabase(match: Match): Promise<Match> {
+  const { matches } = getRepositories();
+  try {
+    const existingMatch = await matches.findByPair(match.user1Id, match.user2Id);
+
+    if (existingMatch) {
+      if (!existingMatch.isActive) {
+        try {
+          await matches.reactivate(existingMatch.id, match.matchedAt);
+        } catch (reactivateError) {
+          console.error('Error reactivating match in Supabase:', reactivateError);
+        }
+      }
+      return { ...existingMatch, isActive: true, matchedAt: match.matchedAt };
+    }
+
+    await matches.insert(match);
+  } catch (error) {
+    console.error('Error saving match to Supabase:', error);
+  }
+
+  return match;
+}
+
+/**
+ * Mark a match inactive in Supabase (unmatch)
+ */
+export async function deactivateMatchInSupabase(matchId: string): Promise<void> {
+  try {
+    await getRepositories().matches.deactivate(matchId);
+  } catch (error) {
+    console.error('Error deactivating match in Supabase:', error);
+  }
+}
+
+/**
+ * Fetch all matches (active and inactive) that include a user
+ */
+export async function fetchMatchesForUser(userId: string): Promise<Match[]> {
+  try {
+    return await getRepositories().matches.listForUser(userId);
+  } catch (error) {
+    console.error('Error fetching matches from Supabase:', error);
+    return [];
+  }
+}
+
+/**
+ * Subscribe to matches that include a user being created, reactivated or ended
+ * on any device (e.g. the other person's right-swipe completing a match)
+ * The `matches` table needs to be part of the `supabase_realtime` publication.
+ * Returns an unsubscribe function for use as a useEffect cleanup.
+ */
+export function subscribeToMatchChanges(userId: string, onMatch: (match: Match) => void): () => void {
+  const handleChange = (payload: { new: unknown }) => {
+    const row = payload.new as MatchRow;
+    if (row && row.id) {
+      onMatch(matchFromRow(row));
+    }
+  };
+
+  // Realtime filters take one column, so each side of the pair gets its own listener
+  const channel = supabase
+    .channel(`matches-${userId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'matches', filter: `user1_id=eq.${userId}` }, handleChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'matches', filter: `user2_id=eq.${userId}` }, handleChange)
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Error subscribing to match changes:', error || status);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel).catch(err => {
+      console.error('Error removing match channel:', err);
+    });
+  };
+}
@@ -14,7 +14,8 @@ export const mockListings: Listing[] = [
   // San Francisco Listings (5+)
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Modern Apartment in Mission District',
     description: 'Beautiful 2-bedroom apartment with modern amenities',
     address: '123 Market Street',
@@ -34,7 +35,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Cozy Studio Near Union Square',
     description: 'Perfect for professionals, close to public transport',
     address: '456 Mission Street',
@@ -54,7 +56,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Spacious House in Castro',
     description: '4-bedroom house with garden, pet-friendly',
     address: '789 Castro Street',
@@ -74,7 +77,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Charming Apartment in Fillmore',
     description: '2-bedroom with great natural light',
     address: '321 Fillmore Street',
@@ -94,7 +98,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Luxury Condo in Financial District',
     description: 'High-rise with amazing city views',
     address: '555 California Street',
@@ -114,7 +119,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Sunny Apartment in Hayes Valley',
     description: '1-bedroom with balcony, walkable neighborhood',
     address: '888 Hayes Street',
@@ -136,7 +142,8 @@ export const mockListings: Listing[] = [
   // Palo Alto Listings (5+)
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Modern Condo Near Stanford',
     description: 'Perfect for students or professionals',
     address: '123 University Avenue',
@@ -156,7 +163,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Charming House in Downtown Palo Alto',
     description: '3-bedroom with backyard, close to Caltrain',
     address: '456 Hamilton Avenue',
@@ -176,7 +184,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Studio Apartment Near Tech Companies',
     description: 'Compact and efficient, perfect for one person',
     address: '789 El Camino Real',
@@ -196,7 +205,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Spacious Townhome in Midtown',
     description: '2-bedroom with garage, quiet neighborhood',
     address: '321 Middlefield Road',
@@ -216,7 +226,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Luxury Apartment with Pool',
     description: 'Modern amenities, fitness center, pet-friendly',
     address: '555 Lytton Avenue',
@@ -236,7 +247,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Cozy Cottage Near Stanford Campus',
     description: '1-bedroom with garden, perfect for grad students',
     address: '777 College Avenue',
@@ -258,7 +270,8 @@ export const mockListings: Listing[] = [
   // Berkeley Listings (5+)
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Student-Friendly Apartment Near UC Berkeley',
     description: '2-bedroom, close to campus and BART',
     address: '123 Telegraph Avenue',
@@ -278,7 +291,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Historic House in North Berkeley',
     description: '3-bedroom with character, large yard',
     address: '456 Shattuck Avenue',
@@ -298,7 +312,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Modern Studio in Downtown Berkeley',
     description: 'Compact living, walkable to everything',
     address: '789 Center Street',
@@ -318,7 +333,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Spacious Condo with Bay Views',
     description: '2-bedroom, modern kitchen, great location',
     address: '321 University Avenue',
@@ -338,7 +354,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Charming Bungalow in South Berkeley',
     description: '2-bedroom with front porch, quiet street',
     address: '555 Ashby Avenue',
@@ -358,7 +375,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Luxury Apartment Near BART Station',
     description: 'Modern amenities, parking included',
     address: '888 Adeline Street',
@@ -380,7 +398,8 @@ export const mockListings: Listing[] = [
   // San Jose Listings (5+)
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Modern Apartment in Downtown San Jose',
     description: '2-bedroom, close to tech companies',
     address: '123 San Fernando Street',
@@ -400,7 +419,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Spacious House in Willow Glen',
     description: '4-bedroom with large backyard, family-friendly',
     address: '456 Lincoln Avenue',
@@ -420,7 +440,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Studio Near San Jose State',
     description: 'Perfect for students, affordable pricing',
     address: '789 East San Fernando Street',
@@ -440,7 +461,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Townhome in Almaden Valley',
     description: '3-bedroom with garage, quiet neighborhood',
     address: '321 Almaden Expressway',
@@ -460,7 +482,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Luxury Condo in Santana Row Area',
     description: '2-bedroom with modern amenities, walkable',
     address: '555 Stevens Creek Boulevard',
@@ -480,7 +503,8 @@ export const mockListings: Listing[] = [
   },
   {
     id: generateUUID(),
-    ownerId: '',
+    source: 'external',
+    provenance: { providerId: 'mock' },
     title: 'Cozy Apartment Near VTA',
     description: '1-bedroom, close to public transport',
     address: '777 First Street',
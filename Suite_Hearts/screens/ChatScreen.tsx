@@ -16,12 +16,17 @@ import { createMaterialTopTabNavigator } from "@react-navigation/material-top-ta
 import { Ionicons } from "@expo/vector-icons";
 import { RootStackParamList, Conversation } from "../types";
 import { useUser } from "../context/UserContext";
-import { supabase } from "../lib/supabase";
+import { getRepositories } from "../lib/repositories";
+import { getUnreadCount, MAX_GROUP_PARTICIPANTS } from "../lib/messageService";
+import { searchMessages, MessageSearchResult } from "../lib/messageSearch";
 import RoommatePromptModal from "../components/RoommatePromptModal";
 import { User } from "../types";
 
 const Tab = createMaterialTopTabNavigator();
 
+// Members picked when creating a group (the creator fills the last spot)
+const MAX_GROUP_MEMBERS = MAX_GROUP_PARTICIPANTS - 1;
+
 type ChatScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
 export default function ChatScreen() {
@@ -34,6 +39,12 @@ export default function ChatScreen() {
     createGroupConversation,
     users,
     conversations,
+    matches,
+    getMatchesForUser,
+    unseenMatchCount,
+    unreadMessageCount,
+    markMatchesSeen,
+    blockedUserIds,
   } = useUser();
   const [searchQuery, setSearchQuery] = useState("");
   const [isDeleteMode, setIsDeleteMode] = useState(false);
@@ -52,31 +63,33 @@ export default function ChatScreen() {
     currentUser?.userType === "searcher" &&
     currentUser?.lookingFor === "housing";
 
-  // Fetch matches from Supabase
+  // Fetch matches from Supabase (merged with matches created locally by swiping)
   useEffect(() => {
     const fetchMatches = async () => {
       if (!currentUser) return;
 
-      try {
-        const { data, error } = await supabase
-          .from("matches")
-          .select("user1_id, user2_id")
-          .eq("is_active", true)
-          .or(`user1_id.eq.${currentUser.id},user2_id.eq.${currentUser.id}`);
+      const localMatchedIds = new Set<string>(
+        getMatchesForUser(currentUser.id).map((match) =>
+          match.user1Id === currentUser.id ? match.user2Id : match.user1Id
+        )
+      );
+      setMatchedUserIds(localMatchedIds);
 
-        if (error) {
-          console.error("Error fetching matches:", error);
-          return;
-        }
+      try {
+        const remoteMatches = await getRepositories().matches.listForUser(
+          currentUser.id
+        );
 
-        const matchedIds = new Set<string>();
-        (data || []).forEach((match) => {
-          if (match.user1_id === currentUser.id) {
-            matchedIds.add(match.user2_id);
-          } else {
-            matchedIds.add(match.user1_id);
-          }
-        });
+        const matchedIds = new Set<string>(localMatchedIds);
+        remoteMatches
+          .filter((match) => match.isActive)
+          .forEach((match) => {
+            if (match.user1Id === currentUser.id) {
+              matchedIds.add(match.user2Id);
+            } else {
+              matchedIds.add(match.user1Id);
+            }
+          });
         setMatchedUserIds(matchedIds);
       } catch (error) {
         console.error("Error fetching matches:", error);
@@ -84,7 +97,7 @@ export default function ChatScreen() {
     };
 
     fetchMatches();
-  }, [currentUser]);
+  }, [currentUser, matches]);
 
   // All hooks must be called before any conditional returns
   // Use conversations directly to ensure re-render when conversations change
@@ -112,15 +125,19 @@ export default function ChatScreen() {
     const contactIds = new Set<string>();
     allConversations.forEach((conv) => {
       conv.participants.forEach((id) => {
-        if (currentUser && id !== currentUser.id) contactIds.add(id);
+        // Blocked users can't be added to new groups
+        if (currentUser && id !== currentUser.id && !blockedUserIds.has(id)) {
+          contactIds.add(id);
+        }
       });
     });
     return Array.from(contactIds)
       .map((id) => getUserById(id))
       .filter((u): u is User => !!u);
-  }, [allConversations, currentUser, getUserById]);
+  }, [allConversations, currentUser, getUserById, blockedUserIds]);
 
-  // Filter conversations based on search (for Messages tab)
+  // Filter conversations by participant or group name (for Messages tab)
+  // Message text matches are listed separately below, see messageSearchGroups
   const filteredAllConversations = useMemo(() => {
     if (!currentUser || !searchQuery.trim()) return allConversations;
 
@@ -135,22 +152,17 @@ export default function ChatScreen() {
 
       if (participantNames.includes(query)) return true;
 
-      // Search in message texts
-      if (conv.messages && conv.messages.length > 0) {
-        const messageTexts = conv.messages
-          .map((msg) => msg.text || "")
-          .join(" ")
-          .toLowerCase();
-        if (messageTexts.includes(query)) return true;
-      }
-
-      // Search in last message
-      if (conv.lastMessage?.text?.toLowerCase().includes(query)) return true;
-
-      return false;
+      // Search in group name
+      return !!conv.groupName?.toLowerCase().includes(query);
     });
   }, [allConversations, searchQuery, currentUser, getUserById]);
 
+  // Messages whose text matches the search, grouped by conversation
+  const messageSearchGroups = useMemo(
+    () => searchMessages(allConversations, searchQuery),
+    [allConversations, searchQuery]
+  );
+
   // Filter matched conversations based on search (for Matches tab)
   const filteredMatchedConversations = useMemo(() => {
     if (!currentUser || !searchQuery.trim()) return matchedConversations;
@@ -255,12 +267,15 @@ export default function ChatScreen() {
     if (selectedGroupMembers.size < 2) {
       Alert.alert(
         "Error",
-        "Please select at least 2 people for a group chat (max 6 total)."
+        `Please select at least 2 people for a group chat (max ${MAX_GROUP_PARTICIPANTS} total).`
       );
       return;
     }
-    if (selectedGroupMembers.size > 5) {
-      Alert.alert("Error", "Group chats can have a maximum of 6 people total.");
+    if (selectedGroupMembers.size > MAX_GROUP_MEMBERS) {
+      Alert.alert(
+        "Error",
+        `Group chats can have a maximum of ${MAX_GROUP_PARTICIPANTS} people total.`
+      );
       return;
     }
     if (!groupName.trim()) {
@@ -273,10 +288,51 @@ export default function ChatScreen() {
       currentUser.id,
       ...Array.from(selectedGroupMembers),
     ];
-    await createGroupConversation(participantIds, groupName.trim());
+    const group = await createGroupConversation(participantIds, groupName.trim());
     setShowGroupModal(false);
     setGroupName("");
     setSelectedGroupMembers(new Set());
+    navigation.navigate("Conversation", {
+      conversationId: group.id,
+      userName: group.groupName || groupName.trim(),
+    });
+  };
+
+  const getConversationDisplayName = (conversation: Conversation) => {
+    if (!currentUser) return "";
+    const otherUsers = conversation.participants
+      .filter((id) => id !== currentUser.id)
+      .map((id) => getUserById(id))
+      .filter(Boolean);
+    return conversation.isGroup || otherUsers.length > 1
+      ? conversation.groupName || `${otherUsers.length + 1} people`
+      : otherUsers[0]?.name || "Unknown";
+  };
+
+  // Open a conversation, optionally jumping to one of its messages
+  const openConversation = (
+    conversation: Conversation,
+    highlightMessageId?: string
+  ) => {
+    if (!currentUser) return;
+    const otherUserIds = conversation.participants.filter(
+      (id) => id !== currentUser.id
+    );
+    const userName = getConversationDisplayName(conversation);
+    if (conversation.isGroup || otherUserIds.length > 1) {
+      // Navigate to group conversation
+      navigation.navigate("Conversation", {
+        conversationId: conversation.id,
+        userName,
+        highlightMessageId,
+      });
+    } else {
+      navigation.navigate("Conversation", {
+        userId: otherUserIds[0] || "",
+        userName,
+        highlightMessageId,
+      });
+    }
   };
 
   const renderConversation = ({
@@ -292,15 +348,14 @@ export default function ChatScreen() {
       .map((id: string) => getUserById(id))
       .filter(Boolean);
     const isGroup = item.isGroup || otherUsers.length > 1;
-    const displayName = isGroup
-      ? item.groupName || `${otherUsers.length + 1} people`
-      : otherUsers[0]?.name || "Unknown";
+    const displayName = getConversationDisplayName(item);
     const isSelected = selectedConversations.has(item.id);
 
     const lastMessage = item.lastMessage;
     const lastMessageText = lastMessage?.imageUrl
       ? "📷 Photo"
       : lastMessage?.text ?? null;
+    const unreadCount = getUnreadCount(item, currentUser.id);
 
     return (
       <TouchableOpacity
@@ -312,18 +367,7 @@ export default function ChatScreen() {
           if (isDeleteMode) {
             toggleConversationSelection(item.id);
           } else {
-            if (isGroup) {
-              // Navigate to group conversation
-              navigation.navigate("Conversation", {
-                userId: item.id,
-                userName: displayName,
-              });
-            } else {
-              navigation.navigate("Conversation", {
-                userId: otherUsers[0]?.id || "",
-                userName: displayName,
-              });
-            }
+            openConversation(item);
           }
         }}
         onLongPress={() => {
@@ -370,19 +414,45 @@ export default function ChatScreen() {
           {/* Conversation Info */}
           <View style={styles.conversationInfo}>
             <View style={styles.conversationHeader}>
-              <Text style={styles.conversationName} numberOfLines={1}>
+              <Text
+                style={[
+                  styles.conversationName,
+                  unreadCount > 0 && styles.conversationNameUnread,
+                ]}
+                numberOfLines={1}
+              >
                 {displayName}
               </Text>
               {lastMessage && (
-                <Text style={styles.timestamp}>
+                <Text
+                  style={[
+                    styles.timestamp,
+                    unreadCount > 0 && styles.timestampUnread,
+                  ]}
+                >
                   {formatTimestamp(lastMessage.timestamp)}
                 </Text>
               )}
             </View>
             {lastMessage ? (
-              <Text style={styles.lastMessage} numberOfLines={1}>
-                {lastMessageText}
-              </Text>
+              <View style={styles.lastMessageRow}>
+                <Text
+                  style={[
+                    styles.lastMessage,
+                    unreadCount > 0 && styles.lastMessageUnread,
+                  ]}
+                  numberOfLines={1}
+                >
+                  {lastMessageText}
+                </Text>
+                {unreadCount > 0 && (
+                  <View style={styles.unreadBadge}>
+                    <Text style={styles.unreadBadgeText}>
+                      {unreadCount > 99 ? "99+" : unreadCount}
+                    </Text>
+                  </View>
+                )}
+              </View>
             ) : (
               <Text style={styles.startTalkingPrompt}>Start talking</Text>
             )}
@@ -403,6 +473,64 @@ export default function ChatScreen() {
     );
   }
 
+  const renderSearchResult = (
+    conversation: Conversation,
+    result: MessageSearchResult
+  ) => {
+    const sender =
+      result.message.senderId === currentUser?.id
+        ? "You"
+        : getUserById(result.message.senderId)?.name.split(" ")[0];
+    return (
+      <TouchableOpacity
+        key={result.message.id}
+        style={styles.searchResultItem}
+        onPress={() => openConversation(conversation, result.message.id)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.searchResultSnippet} numberOfLines={2}>
+          {conversation.isGroup && sender ? `${sender}: ` : ""}
+          {result.snippet.map((segment, index) => (
+            <Text
+              key={index}
+              style={segment.highlight ? styles.searchHighlight : undefined}
+            >
+              {segment.text}
+            </Text>
+          ))}
+        </Text>
+        <Text style={styles.searchResultTime}>
+          {formatTimestamp(result.message.timestamp)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  // Message matches, shown under the conversations whose names match
+  const renderMessageSearchResults = () => {
+    if (messageSearchGroups.length === 0) return null;
+    return (
+      <View>
+        <Text style={styles.searchSectionTitle}>Messages</Text>
+        {messageSearchGroups.map((group) => (
+          <View key={group.conversation.id} style={styles.searchGroup}>
+            <Text style={styles.searchGroupTitle} numberOfLines={1}>
+              {getConversationDisplayName(group.conversation)}
+              <Text style={styles.searchGroupCount}>
+                {"  "}
+                {group.results.length}{" "}
+                {group.results.length === 1 ? "match" : "matches"}
+              </Text>
+            </Text>
+            {group.results.map((result) =>
+              renderSearchResult(group.conversation, result)
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   return (
     <View style={styles.container}>
       {/* Tab Navigator */}
@@ -470,7 +598,12 @@ export default function ChatScreen() {
       >
         <Tab.Screen
           name="Messages"
-          options={{ tabBarLabel: "All Conversations" }}
+          options={{
+            tabBarLabel:
+              unreadMessageCount > 0
+                ? `All Conversations (${unreadMessageCount})`
+                : "All Conversations",
+          }}
         >
           {() => (
             <View style={{ flex: 1 }}>
@@ -547,7 +680,8 @@ export default function ChatScreen() {
                   )}
                 </View>
               </View>
-              {filteredAllConversations.length === 0 ? (
+              {filteredAllConversations.length === 0 &&
+              messageSearchGroups.length === 0 ? (
                 <View style={styles.emptyContainer}>
                   <Ionicons
                     name="chatbubbles-outline"
@@ -570,6 +704,8 @@ export default function ChatScreen() {
                   data={filteredAllConversations}
                   renderItem={renderConversation}
                   keyExtractor={(item) => item.id}
+                  ListFooterComponent={renderMessageSearchResults}
+                  keyboardShouldPersistTaps="handled"
                   contentContainerStyle={styles.listContent}
                   ItemSeparatorComponent={() => (
                     <View style={styles.separator} />
@@ -579,7 +715,14 @@ export default function ChatScreen() {
             </View>
           )}
         </Tab.Screen>
-        <Tab.Screen name="Matches" options={{ tabBarLabel: "Matches" }}>
+        <Tab.Screen
+          name="Matches"
+          options={{
+            tabBarLabel:
+              unseenMatchCount > 0 ? `Matches (${unseenMatchCount})` : "Matches",
+          }}
+          listeners={{ focus: () => markMatchesSeen() }}
+        >
           {() => (
             <View style={{ flex: 1 }}>
               {/* Search Bar and Action Buttons */}
@@ -709,7 +852,7 @@ export default function ChatScreen() {
               />
 
               <Text style={styles.modalLabel}>
-                Select Members ({selectedGroupMembers.size}/4)
+                Select Members ({selectedGroupMembers.size}/{MAX_GROUP_MEMBERS})
               </Text>
               <FlatList
                 data={availableContacts as User[]}
@@ -724,12 +867,12 @@ export default function ChatScreen() {
                         if (isSelected) {
                           newSelected.delete(user.id);
                         } else {
-                          if (newSelected.size < 4) {
+                          if (newSelected.size < MAX_GROUP_MEMBERS) {
                             newSelected.add(user.id);
                           } else {
                             Alert.alert(
                               "Limit",
-                              "Group chats can have a maximum of 6 people total (including you)."
+                              `Group chats can have a maximum of ${MAX_GROUP_PARTICIPANTS} people total (including you).`
                             );
                           }
                         }
@@ -929,22 +1072,101 @@ const styles = StyleSheet.create({
     color: "#000000",
     flex: 1,
   },
+  conversationNameUnread: {
+    fontWeight: "700",
+  },
   timestamp: {
     fontSize: 15,
     color: "#8E8E93",
     marginLeft: 8,
   },
+  timestampUnread: {
+    color: "#FF6B35",
+  },
+  lastMessageRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   lastMessage: {
+    flex: 1,
     fontSize: 15,
     color: "#8E8E93",
     marginTop: 2,
   },
+  lastMessageUnread: {
+    fontWeight: "600",
+    color: "#000000",
+  },
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: "#FF6B35",
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: 8,
+  },
+  unreadBadgeText: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#FFF5E1",
+  },
   startTalkingPrompt: {
     fontSize: 15,
     color: "#8E8E93",
     fontStyle: "italic",
     marginTop: 2,
   },
+  searchSectionTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#A68B7B",
+    textTransform: "uppercase",
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  searchGroup: {
+    backgroundColor: "#FFFFFF",
+    marginBottom: 12,
+  },
+  searchGroupTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#6F4E37",
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 4,
+  },
+  searchGroupCount: {
+    fontSize: 13,
+    fontWeight: "400",
+    color: "#A68B7B",
+  },
+  searchResultItem: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderTopWidth: 0.5,
+    borderTopColor: "#E8D5C4",
+  },
+  searchResultSnippet: {
+    flex: 1,
+    fontSize: 15,
+    color: "#3C3C43",
+  },
+  searchHighlight: {
+    fontWeight: "700",
+    color: "#000000",
+    backgroundColor: "#FFE5D9",
+  },
+  searchResultTime: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginLeft: 8,
+  },
   separator: {
     height: 0.5,
     backgroundColor: "#C6C6C8",
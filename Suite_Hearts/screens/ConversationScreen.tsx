@@ -1,19 +1,54 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { StyleSheet, View, Text, TextInput, TouchableOpacity, FlatList, KeyboardAvoidingView, Platform, Image, Linking, Alert } from 'react-native';
-import { RouteProp, useRoute, useNavigation } from '@react-navigation/native';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, FlatList, KeyboardAvoidingView, Platform, Image, Linking, Alert, ActivityIndicator } from 'react-native';
+import { RouteProp, useRoute, useNavigation, useIsFocused } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import { RootStackParamList } from '../types';
+import { RootStackParamList, MessageStatus } from '../types';
 import { useUser } from '../context/UserContext';
+import ReportModal from '../components/ReportModal';
+import GroupInfoModal from '../components/GroupInfoModal';
+import { getMessageStatus, getReadByIds } from '../lib/messageService';
+import { compressChatImage, uploadChatImage } from '../lib/chatImageService';
 
 type ConversationScreenRouteProp = RouteProp<RootStackParamList, 'Conversation'>;
 
+// How long a message opened from search stays highlighted
+const HIGHLIGHT_DURATION_MS = 3000;
+
+// A picked photo that is still uploading (or failed to) - shown as a placeholder bubble
+interface PendingUpload {
+  id: string;
+  localUri: string;
+  status: 'uploading' | 'failed';
+}
+
 export default function ConversationScreen() {
   const route = useRoute<ConversationScreenRouteProp>();
-  const navigation = useNavigation();
-  const { userId, userName } = route.params;
-  const { currentUser, getConversation, sendMessage, getUserById } = useUser();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  // Group chats are opened by conversation ID, 1-on-1 chats by the other user's ID
+  const { userId = '', userName, conversationId, highlightMessageId } = route.params;
+  const isGroup = !!conversationId;
+  const {
+    currentUser,
+    conversations,
+    getConversation,
+    sendMessage,
+    sendGroupMessage,
+    getUserById,
+    isMatchedWith,
+    unmatchUser,
+    blockUser,
+    markConversationRead,
+    getPendingWriteState,
+    retryPendingWrite,
+  } = useUser();
+  const isFocused = useIsFocused();
   const [messageText, setMessageText] = useState('');
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | undefined>(highlightMessageId);
   const flatListRef = useRef<FlatList>(null);
 
   if (!currentUser) {
@@ -24,10 +59,16 @@ export default function ConversationScreen() {
     );
   }
 
-  const conversation = getConversation(currentUser.id, userId);
-  const otherUser = getUserById(userId);
+  const conversation = isGroup
+    ? conversations.find(conv => conv.id === conversationId)
+    : getConversation(currentUser.id, userId);
+  const otherUser = isGroup ? undefined : getUserById(userId);
+  const title = isGroup ? conversation?.groupName || userName : userName;
+  const hasLeftGroup = isGroup && !!conversation && !conversation.participants.includes(currentUser.id);
 
   useEffect(() => {
+    // Stay on a message opened from search instead of jumping to the bottom
+    if (highlightedMessageId) return;
     if (conversation && conversation.messages.length > 0) {
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
@@ -35,9 +76,43 @@ export default function ConversationScreen() {
     }
   }, [conversation?.messages.length]);
 
+  // Jump to (and briefly highlight) a message opened from search
+  useEffect(() => {
+    if (!highlightMessageId || !conversation) return;
+    const index = conversation.messages.findIndex(m => m.id === highlightMessageId);
+    if (index === -1) return;
+
+    setHighlightedMessageId(highlightMessageId);
+    const scrollTimer = setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    }, 300);
+    const clearTimer = setTimeout(() => setHighlightedMessageId(undefined), HIGHLIGHT_DURATION_MS);
+    return () => {
+      clearTimeout(scrollTimer);
+      clearTimeout(clearTimer);
+    };
+  }, [highlightMessageId]);
+
+  // Anything that arrives while this screen is open counts as read
+  useEffect(() => {
+    if (isFocused && conversation) {
+      markConversationRead(conversation.id);
+    }
+  }, [isFocused, conversation?.id, conversation?.messages.length]);
+
+  const deliverMessage = async (text: string, imageUrl?: string) => {
+    if (!currentUser) return;
+    if (isGroup && conversationId) {
+      await sendGroupMessage(conversationId, currentUser.id, text, imageUrl);
+    } else {
+      await sendMessage(currentUser.id, userId, text, imageUrl);
+    }
+  };
+
   const handleSend = async () => {
     if (messageText.trim() && currentUser) {
-      await sendMessage(currentUser.id, userId, messageText.trim());
+      setHighlightedMessageId(undefined);
+      await deliverMessage(messageText.trim());
       setMessageText('');
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
@@ -45,6 +120,22 @@ export default function ConversationScreen() {
     }
   };
 
+  // Upload a compressed photo, then send its public URL as the message
+  const uploadAndSendImage = async (upload: PendingUpload) => {
+    if (!currentUser) return;
+
+    setPendingUploads(prev => prev.map(u => (u.id === upload.id ? { ...u, status: 'uploading' } : u)));
+    const imageUrl = await uploadChatImage(upload.localUri, currentUser.id);
+
+    if (!imageUrl) {
+      setPendingUploads(prev => prev.map(u => (u.id === upload.id ? { ...u, status: 'failed' } : u)));
+      return;
+    }
+
+    await deliverMessage('', imageUrl);
+    setPendingUploads(prev => prev.filter(u => u.id !== upload.id));
+  };
+
   const handleSendImage = async () => {
     try {
       // Request permission
@@ -54,21 +145,22 @@ export default function ConversationScreen() {
         return;
       }
 
-      // Launch image picker
+      // Launch image picker (compression happens in compressChatImage)
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: (ImagePicker as any).MediaType?.Images || ImagePicker.MediaTypeOptions.Images,
         allowsEditing: true,
-        quality: 0.8,
+        quality: 1,
       });
 
       if (!result.canceled && result.assets && result.assets[0] && currentUser) {
-        // TODO: Upload image to Supabase storage first, then send message with imageUrl
-        // For now, we'll send the local URI (in production, upload to storage first)
-        const imageUri = result.assets[0].uri;
-        await sendMessage(currentUser.id, userId, '', imageUri);
+        const asset = result.assets[0];
+        const localUri = await compressChatImage(asset.uri, asset.width, asset.height);
+        const upload: PendingUpload = { id: `upload-${Date.now()}`, localUri, status: 'uploading' };
+        setPendingUploads(prev => [...prev, upload]);
         setTimeout(() => {
           flatListRef.current?.scrollToEnd({ animated: true });
         }, 100);
+        await uploadAndSendImage(upload);
       }
     } catch (error) {
       console.error('Error picking image:', error);
@@ -76,6 +168,22 @@ export default function ConversationScreen() {
     }
   };
 
+  const handleFailedUpload = (upload: PendingUpload) => {
+    Alert.alert(
+      'Photo Not Sent',
+      'The photo could not be uploaded.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => setPendingUploads(prev => prev.filter(u => u.id !== upload.id)),
+        },
+        { text: 'Retry', onPress: () => uploadAndSendImage(upload) },
+      ]
+    );
+  };
+
   const handleCall = () => {
     if (!otherUser?.phone) {
       Alert.alert('No phone number', 'This user has not provided a phone number.');
@@ -130,7 +238,7 @@ export default function ConversationScreen() {
     if (navigation.canGoBack()) {
       navigation.goBack();
     } else {
-      navigation.navigate('Home' as never);
+      navigation.navigate('Home');
     }
   };
 
@@ -177,28 +285,171 @@ export default function ConversationScreen() {
     }
   };
 
-  const renderMessage = ({ item }: { item: any }) => {
+  const handleUnmatch = () => {
+    Alert.alert(
+      'Unmatch',
+      `Are you sure you want to unmatch with ${userName}? They will no longer appear in your matches.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unmatch',
+          style: 'destructive',
+          onPress: async () => {
+            await unmatchUser(userId);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleBlock = () => {
+    Alert.alert(
+      'Block',
+      `Block ${userName}? You won't see each other in recommendations, chats or group chats anymore.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            await blockUser(userId);
+            handleBack();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleMoreOptions = () => {
+    const options: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [];
+    if (isMatchedWith(userId)) {
+      options.push({ text: 'Unmatch', onPress: handleUnmatch });
+    }
+    options.push({ text: 'Report', style: 'destructive', onPress: () => setShowReportModal(true) });
+    options.push({ text: 'Block', style: 'destructive', onPress: handleBlock });
+    options.push({ text: 'Cancel', style: 'cancel' });
+    Alert.alert(userName, undefined, options);
+  };
+
+  const renderStatus = (status: MessageStatus) => (
+    <Ionicons
+      name={status === 'sent' ? 'checkmark' : 'checkmark-done'}
+      size={14}
+      color={status === 'read' ? '#FF6B35' : 'rgba(255, 255, 255, 0.7)'}
+      style={styles.statusIcon}
+    />
+  );
+
+  const renderPendingState = (state: 'pending' | 'failed') => (
+    <Ionicons
+      name={state === 'pending' ? 'time-outline' : 'alert-circle'}
+      size={14}
+      color={state === 'pending' ? 'rgba(255, 255, 255, 0.7)' : '#FF3B30'}
+      style={styles.statusIcon}
+    />
+  );
+
+  const messages = conversation?.messages || [];
+  // "Seen by" goes under the newest of the user's own messages in a group
+  const lastOwnMessageId = [...messages].reverse().find(m => m.senderId === currentUser.id)?.id;
+
+  const renderSenderAvatar = (senderId: string) => {
+    const sender = getUserById(senderId);
+    return sender?.profilePicture ? (
+      <Image source={{ uri: sender.profilePicture }} style={styles.senderAvatar} />
+    ) : (
+      <View style={styles.senderAvatar}>
+        <Text style={styles.senderAvatarText}>{sender?.name[0]?.toUpperCase() || '?'}</Text>
+      </View>
+    );
+  };
+
+  const renderSeenBy = (item: any) => {
+    if (!conversation) return null;
+    const readByNames = getReadByIds(conversation, item)
+      .map(id => getUserById(id)?.name.split(' ')[0])
+      .filter(Boolean);
+    if (readByNames.length === 0) return null;
+    return <Text style={styles.seenByText}>Seen by {readByNames.join(', ')}</Text>;
+  };
+
+  const renderMessage = ({ item, index }: { item: any; index: number }) => {
     const isMyMessage = item.senderId === currentUser.id;
+    // Messages still sitting in the outbox haven't reached Supabase yet
+    const pendingState = isMyMessage ? getPendingWriteState(item.id) : undefined;
+    // In groups, name + avatar are shown once per run of messages from the same sender
+    const showSender = isGroup && !isMyMessage && messages[index - 1]?.senderId !== item.senderId;
 
     return (
-      <View style={[styles.messageContainer, isMyMessage ? styles.myMessageContainer : styles.otherMessageContainer]}>
-        <View style={[styles.messageBubble, isMyMessage ? styles.myMessage : styles.otherMessage]}>
-          {item.imageUrl ? (
-            <Image source={{ uri: item.imageUrl }} style={styles.messageImage} resizeMode="cover" />
-          ) : null}
-          {item.text ? (
-            <Text style={[styles.messageText, isMyMessage ? styles.myMessageText : styles.otherMessageText]}>
-              {item.text}
-            </Text>
-          ) : null}
-          <Text style={[styles.timestamp, isMyMessage ? styles.myTimestamp : styles.otherTimestamp]}>
-            {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-          </Text>
+      <View>
+        {showSender && (
+          <Text style={styles.senderName}>{getUserById(item.senderId)?.name || 'Unknown'}</Text>
+        )}
+        <View style={[styles.messageContainer, isMyMessage ? styles.myMessageContainer : styles.otherMessageContainer]}>
+          {isGroup && !isMyMessage && (
+            showSender ? renderSenderAvatar(item.senderId) : <View style={styles.senderAvatarSpacer} />
+          )}
+          <View
+            style={[
+              styles.messageBubble,
+              isMyMessage ? styles.myMessage : styles.otherMessage,
+              item.id === highlightedMessageId && styles.highlightedMessage,
+            ]}
+          >
+            {item.imageUrl ? (
+              <Image source={{ uri: item.imageUrl }} style={styles.messageImage} resizeMode="cover" />
+            ) : null}
+            {item.text ? (
+              <Text style={[styles.messageText, isMyMessage ? styles.myMessageText : styles.otherMessageText]}>
+                {item.text}
+              </Text>
+            ) : null}
+            <View style={styles.messageMeta}>
+              <Text style={[styles.timestamp, isMyMessage ? styles.myTimestamp : styles.otherTimestamp]}>
+                {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </Text>
+              {pendingState
+                ? renderPendingState(pendingState)
+                : isMyMessage && conversation && renderStatus(getMessageStatus(conversation, item, currentUser.id))}
+            </View>
+          </View>
         </View>
+        {pendingState === 'failed' && (
+          <TouchableOpacity onPress={() => retryPendingWrite(item.id)} style={styles.retryButton}>
+            <Text style={styles.retryText}>Not delivered. Tap to retry</Text>
+          </TouchableOpacity>
+        )}
+        {isGroup && !pendingState && item.id === lastOwnMessageId && renderSeenBy(item)}
       </View>
     );
   };
 
+  const renderPendingUploads = () => (
+    <>
+      {pendingUploads.map(upload => (
+        <View key={upload.id}>
+          <View style={[styles.messageContainer, styles.myMessageContainer]}>
+            <View style={[styles.messageBubble, styles.myMessage]}>
+              <Image source={{ uri: upload.localUri }} style={[styles.messageImage, styles.pendingImage]} resizeMode="cover" />
+              <View style={styles.uploadOverlay}>
+                {upload.status === 'uploading' ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Ionicons name="alert-circle" size={32} color="#FF3B30" />
+                )}
+              </View>
+            </View>
+          </View>
+          {upload.status === 'failed' && (
+            <TouchableOpacity onPress={() => handleFailedUpload(upload)} style={styles.retryButton}>
+              <Text style={styles.retryText}>Upload failed. Tap to retry</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </>
+  );
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -210,62 +461,125 @@ export default function ConversationScreen() {
         <TouchableOpacity onPress={handleBack} style={styles.backButton}>
           <Ionicons name="chevron-back" size={24} color="#6F4E37" />
         </TouchableOpacity>
-        <View style={styles.headerInfo}>
-          <Text style={styles.headerTitle}>{userName}</Text>
-        </View>
-        <View style={styles.headerActions}>
-          <TouchableOpacity onPress={handleCall} style={styles.headerButton}>
-            <Ionicons name="call" size={24} color="#6F4E37" />
+        {isGroup ? (
+          <TouchableOpacity
+            style={styles.headerInfo}
+            onPress={() => conversation && !hasLeftGroup && setShowGroupInfo(true)}
+          >
+            <Text style={styles.headerTitle}>{title}</Text>
+            {conversation && (
+              <Text style={styles.headerSubtitle}>{conversation.participants.length} members</Text>
+            )}
           </TouchableOpacity>
-          {Platform.OS === 'ios' && (
-            <TouchableOpacity onPress={handleFaceTime} style={styles.headerButton}>
-              <Ionicons name="videocam" size={24} color="#6F4E37" />
+        ) : (
+          <View style={styles.headerInfo}>
+            <Text style={styles.headerTitle}>{title}</Text>
+          </View>
+        )}
+        {isGroup ? (
+          <View style={styles.headerActions}>
+            {conversation && !hasLeftGroup && (
+              <TouchableOpacity onPress={() => setShowGroupInfo(true)} style={styles.headerButton}>
+                <Ionicons name="information-circle-outline" size={24} color="#6F4E37" />
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={handleCall} style={styles.headerButton}>
+              <Ionicons name="call" size={24} color="#6F4E37" />
             </TouchableOpacity>
-          )}
-          <TouchableOpacity onPress={handleAddContact} style={styles.headerButton}>
-            <Ionicons name="person-add" size={24} color="#6F4E37" />
-          </TouchableOpacity>
-        </View>
+            {Platform.OS === 'ios' && (
+              <TouchableOpacity onPress={handleFaceTime} style={styles.headerButton}>
+                <Ionicons name="videocam" size={24} color="#6F4E37" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={handleAddContact} style={styles.headerButton}>
+              <Ionicons name="person-add" size={24} color="#6F4E37" />
+            </TouchableOpacity>
+            {otherUser && (
+              <TouchableOpacity onPress={handleMoreOptions} style={styles.headerButton}>
+                <Ionicons name="ellipsis-horizontal" size={24} color="#6F4E37" />
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </View>
 
       {/* Messages */}
       <FlatList
         ref={flatListRef}
-        data={conversation?.messages || []}
+        data={messages}
         renderItem={renderMessage}
         keyExtractor={(item) => item.id}
+        ListFooterComponent={renderPendingUploads}
         contentContainerStyle={styles.messagesList}
-        onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
+        onContentSizeChange={() => !highlightedMessageId && flatListRef.current?.scrollToEnd({ animated: true })}
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          // Rows further up aren't measured yet - get close, then retry
+          flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+          setTimeout(() => {
+            flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+          }, 100);
+        }}
       />
 
+      {/* Only the other person's messages can be attached to a report */}
+      {!isGroup && (
+        <ReportModal
+          visible={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          targetType="user"
+          targetId={userId}
+          targetName={userName}
+          messages={messages.filter(m => m.senderId === userId)}
+        />
+      )}
+
+      {isGroup && conversation && (
+        <GroupInfoModal
+          visible={showGroupInfo}
+          onClose={() => setShowGroupInfo(false)}
+          conversation={conversation}
+          onLeave={handleBack}
+          onListingPress={(listing) => navigation.navigate('ListingDetail', { listing })}
+        />
+      )}
+
       {/* Input Bar */}
-      <View style={styles.inputContainer}>
-        <TouchableOpacity onPress={handleSendImage} style={styles.cameraButton}>
-          <Ionicons name="camera" size={24} color="#6F4E37" />
-        </TouchableOpacity>
-        <View style={styles.inputWrapper}>
-          <TextInput
-            style={styles.input}
-            value={messageText}
-            onChangeText={setMessageText}
-            placeholder="iMessage"
-            placeholderTextColor="#A68B7B"
-            multiline
-            maxLength={1000}
-          />
+      {hasLeftGroup ? (
+        <View style={styles.inputContainer}>
+          <Text style={styles.leftGroupText}>You're no longer a member of this group.</Text>
         </View>
-        <TouchableOpacity
-          style={[styles.sendButton, !messageText.trim() && styles.sendButtonDisabled]}
-          onPress={handleSend}
-          disabled={!messageText.trim()}
-        >
-          <Ionicons 
-            name="arrow-up-circle" 
-            size={32} 
-            color={messageText.trim() ? '#6F4E37' : '#E8D5C4'} 
-          />
-        </TouchableOpacity>
-      </View>
+      ) : (
+        <View style={styles.inputContainer}>
+          <TouchableOpacity onPress={handleSendImage} style={styles.cameraButton}>
+            <Ionicons name="camera" size={24} color="#6F4E37" />
+          </TouchableOpacity>
+          <View style={styles.inputWrapper}>
+            <TextInput
+              style={styles.input}
+              value={messageText}
+              onChangeText={setMessageText}
+              placeholder="iMessage"
+              placeholderTextColor="#A68B7B"
+              multiline
+              maxLength={1000}
+            />
+          </View>
+          <TouchableOpacity
+            style={[styles.sendButton, !messageText.trim() && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={!messageText.trim()}
+          >
+            <Ionicons 
+              name="arrow-up-circle" 
+              size={32} 
+              color={messageText.trim() ? '#6F4E37' : '#E8D5C4'} 
+            />
+          </TouchableOpacity>
+        </View>
+      )}
     </KeyboardAvoidingView>
   );
 }
@@ -297,6 +611,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#6F4E37',
   },
+  headerSubtitle: {
+    fontSize: 12,
+    color: '#A68B7B',
+  },
   headerActions: {
     flexDirection: 'row',
     gap: 8,
@@ -318,6 +636,43 @@ const styles = StyleSheet.create({
   otherMessageContainer: {
     justifyContent: 'flex-start',
   },
+  senderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#A68B7B',
+    marginLeft: 40,
+    marginBottom: 2,
+  },
+  senderAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: 8,
+    backgroundColor: '#6F4E37',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  senderAvatarText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFF5E1',
+  },
+  senderAvatarSpacer: {
+    width: 36,
+  },
+  seenByText: {
+    alignSelf: 'flex-end',
+    fontSize: 11,
+    color: '#A68B7B',
+    marginBottom: 4,
+  },
+  leftGroupText: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#A68B7B',
+    paddingVertical: 8,
+  },
   messageBubble: {
     maxWidth: '75%',
     borderRadius: 18,
@@ -332,12 +687,24 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFF5E1', // Cream bubble
     borderBottomLeftRadius: 4,
   },
+  highlightedMessage: {
+    borderWidth: 2,
+    borderColor: '#FF6B35',
+  },
   messageImage: {
     width: 200,
     height: 200,
     borderRadius: 12,
     marginBottom: 4,
   },
+  pendingImage: {
+    opacity: 0.5,
+  },
+  uploadOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 20,
@@ -348,10 +715,26 @@ const styles = StyleSheet.create({
   otherMessageText: {
     color: '#000000', // Black text on cream
   },
+  messageMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginTop: 4,
+  },
   timestamp: {
     fontSize: 11,
-    marginTop: 4,
+  },
+  statusIcon: {
+    marginLeft: 4,
+  },
+  retryButton: {
     alignSelf: 'flex-end',
+    marginBottom: 4,
+  },
+  retryText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    fontWeight: '600',
   },
   myTimestamp: {
     color: '#FFFFFF',
@@ -4,7 +4,7 @@ import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
 import { createStackNavigator } from "@react-navigation/stack";
 import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { RootStackParamList } from "../types";
+import { RootStackParamList, Listing } from "../types";
 import { Ionicons } from "@expo/vector-icons";
 import ProfileScreen from "./ProfileScreen";
 import ChatScreen from "./ChatScreen";
@@ -15,8 +15,8 @@ import PropertyListScreen from "./PropertyListScreen";
 import ListingDetailScreen from "./ListingDetailScreen";
 import { useUser } from "../context/UserContext";
 import { useProperties } from "../context/PropertyContext";
-import { Property } from "../lib/datafiniti";
 import HousingPromptScreen from "../components/HousingPromptScreen";
+import MatchCelebrationModal from "../components/MatchCelebrationModal";
 
 const Tab = createBottomTabNavigator();
 const Stack = createStackNavigator();
@@ -25,7 +25,7 @@ function SearchStack() {
   const { setSelectedPropertyId } = useProperties();
 
   // Handle property selection from list to center map
-  const handlePropertySelect = (property: Property) => {
+  const handlePropertySelect = (property: Listing) => {
     setSelectedPropertyId(property.id);
   };
 
@@ -55,10 +55,13 @@ function MapStack() {
 // MapScreen, SwipeScreen, ChatScreen and ProfileScreen are now imported from separate files
 
 export default function HomeScreen() {
-  const { currentUser, isLoaded } = useUser();
+  const { currentUser, isLoaded, unseenMatchCount, unreadMessageCount } = useUser();
   const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const isHomeowner = currentUser?.userType === "homeowner";
 
+  // Chat badge covers both new matches and unread messages
+  const chatBadgeCount = unseenMatchCount + unreadMessageCount;
+
   // Redirect to Introduction if not logged in
   React.useEffect(() => {
     if (isLoaded && !currentUser) {
@@ -75,55 +78,74 @@ export default function HomeScreen() {
   }
 
   return (
-    <Tab.Navigator
-      screenOptions={({ route }) => ({
-        headerShown: false,
-        tabBarIcon: ({ color, size }) => {
-          let iconName: keyof typeof Ionicons.glyphMap = "search"; // Default value
+    <>
+      <Tab.Navigator
+        screenOptions={({ route }) => ({
+          headerShown: false,
+          tabBarIcon: ({ color, size }) => {
+            let iconName: keyof typeof Ionicons.glyphMap = "search"; // Default value
 
-          if (route.name === "Search") {
-            iconName = "search";
-          } else if (route.name === "Map") {
-            iconName = "map";
-          } else if (route.name === "Swipe") {
-            iconName = "heart";
-          } else if (route.name === "Listings") {
-            iconName = "home";
-          } else if (route.name === "Chat") {
-            iconName = "chatbubble";
-          } else if (route.name === "Profile") {
-            iconName = "person";
-          }
+            if (route.name === "Search") {
+              iconName = "search";
+            } else if (route.name === "Map") {
+              iconName = "map";
+            } else if (route.name === "Swipe") {
+              iconName = "heart";
+            } else if (route.name === "Listings") {
+              iconName = "home";
+            } else if (route.name === "Chat") {
+              iconName = "chatbubble";
+            } else if (route.name === "Profile") {
+              iconName = "person";
+            }
 
-          return <Ionicons name={iconName} size={size} color={color} />;
-        },
-        tabBarActiveTintColor: "#FF6B35", // Orange
-        tabBarInactiveTintColor: "#A68B7B", // Muted espresso
-        tabBarStyle: {
-          backgroundColor: "#FFF5E1", // Beige
-          borderTopColor: "#E8D5C4", // Light beige
-        },
-      })}
-    >
-      {/* Show Search and Map tabs for all users (prompts will show for roommate-only) */}
-      <Tab.Screen
-        name="Search"
-        component={SearchStack}
-        options={{ title: "Listing Search" }}
-      />
-      <Tab.Screen name="Map" component={MapStack} />
-      {isHomeowner ? (
+            return <Ionicons name={iconName} size={size} color={color} />;
+          },
+          tabBarActiveTintColor: "#FF6B35", // Orange
+          tabBarInactiveTintColor: "#A68B7B", // Muted espresso
+          tabBarStyle: {
+            backgroundColor: "#FFF5E1", // Beige
+            borderTopColor: "#E8D5C4", // Light beige
+          },
+        })}
+      >
+        {/* Show Search and Map tabs for all users (prompts will show for roommate-only) */}
+        <Tab.Screen
+          name="Search"
+          component={SearchStack}
+          options={{ title: "Listing Search" }}
+        />
+        <Tab.Screen name="Map" component={MapStack} />
+        {isHomeowner ? (
+          <Tab.Screen
+            name="Listings"
+            component={ManageListingsScreen}
+            options={{ title: "My Listings" }}
+          />
+        ) : (
+          <Tab.Screen name="Swipe" component={SwipeScreen} />
+        )}
         <Tab.Screen
-          name="Listings"
-          component={ManageListingsScreen}
-          options={{ title: "My Listings" }}
+          name="Chat"
+          component={ChatScreen}
+          options={{
+            tabBarBadge: chatBadgeCount > 0 ? chatBadgeCount : undefined,
+            tabBarBadgeStyle: { backgroundColor: "#FF6B35", color: "#FFF5E1" },
+          }}
         />
-      ) : (
-        <Tab.Screen name="Swipe" component={SwipeScreen} />
-      )}
-      <Tab.Screen name="Chat" component={ChatScreen} />
-      <Tab.Screen name="Profile" component={ProfileScreen} />
-    </Tab.Navigator>
+        <Tab.Screen name="Profile" component={ProfileScreen} />
+      </Tab.Navigator>
+
+      {/* "It's a match" celebration - shown over whichever tab is active */}
+      <MatchCelebrationModal
+        onSendMessage={(matchedUser) =>
+          navigation.navigate("Conversation", {
+            userId: matchedUser.id,
+            userName: matchedUser.name,
+          })
+        }
+      />
+    </>
   );
 }
 
@@ -3,32 +3,43 @@ import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Image, Dimensions
 import { useNavigation, useRoute, RouteProp, NavigationProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
-import { HomeStackParamList, RootStackParamList, Listing } from '../types';
-import { Property } from '../lib/datafiniti';
+import { HomeStackParamList, RootStackParamList, Listing, ListingAvailability } from '../types';
 import { useUser } from '../context/UserContext';
-import { supabase } from '../lib/supabase';
+import { useProperties } from '../context/PropertyContext';
+import { getRepositories } from '../lib/repositories';
 import { getRandomRealEstatePhotos } from '../lib/photoUtils';
+import ReportModal from '../components/ReportModal';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 
 type ListingDetailRouteProp = RouteProp<HomeStackParamList, 'ListingDetail'>;
 type ListingDetailNavigationProp = NavigationProp<RootStackParamList>;
 
-type ListingDetail = (Property & { source: 'external' }) | (Listing & { source: 'user' });
+// e.g. "Sublet, 6/15/2025 – 8/31/2025" or "From 7/1/2025"
+function formatAvailability(availability: ListingAvailability): string | null {
+  const from = availability.availableFrom ? new Date(availability.availableFrom).toLocaleDateString() : null;
+  const until = availability.availableUntil ? new Date(availability.availableUntil).toLocaleDateString() : null;
+  const window = from && until ? `${from} – ${until}` : from ? `From ${from}` : until ? `Until ${until}` : null;
+  const text = window || availability.summary || null;
+  if (!text) return null;
+  return availability.type === 'sublet' ? `Sublet, ${text}` : text;
+}
 
 export default function ListingDetailScreen() {
   const navigation = useNavigation<ListingDetailNavigationProp>();
   const route = useRoute<ListingDetailRouteProp>();
   const { listingId, listing } = route.params;
   const { currentUser, getUserById, sendMessage } = useUser();
+  const { getPropertyById } = useProperties();
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
   const [owner, setOwner] = useState<User | null>(null);
-  const [listingData, setListingData] = useState<ListingDetail | null>(null);
+  const [listingData, setListingData] = useState<Listing | null>(null);
+  const [showReportModal, setShowReportModal] = useState(false);
 
   useEffect(() => {
     if (listing) {
       setListingData(listing);
-      if (listing.source === 'user') {
+      if (listing.source === 'user' && listing.ownerId) {
         // Fetch owner info
         const ownerData = getUserById(listing.ownerId);
         if (ownerData) {
@@ -47,42 +58,22 @@ export default function ListingDetailScreen() {
   const fetchListing = async (id: string) => {
     try {
       // Try to fetch from user listings first
-      const { data, error } = await supabase
-        .from('listings')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (data && !error) {
-        // Fetch photos for this listing
-        const { data: photosData } = await supabase
-          .from('listing_photos')
-          .select('photo_url')
-          .eq('listing_id', id)
-          .order('photo_order', { ascending: true });
+      const userListing = await getRepositories().listings.getById(id).catch(error => {
+        console.error('Error fetching user listing:', error);
+        return null;
+      });
+      if (userListing) {
+        setListingData(userListing);
+        if (userListing.ownerId) {
+          fetchOwnerFromSupabase(userListing.ownerId);
+        }
+        return;
+      }
 
-        const listing: Listing = {
-          id: data.id,
-          ownerId: data.owner_id,
-          title: data.title || '',
-          description: data.description || '',
-          address: data.address,
-          city: data.city,
-          state: data.state,
-          zipCode: data.zip_code || '',
-          price: data.price || 0,
-          latitude: data.latitude,
-          longitude: data.longitude,
-          photos: (photosData || []).map((p: any) => p.photo_url),
-          bedrooms: data.bedrooms,
-          bathrooms: data.bathrooms,
-          squareFeet: data.square_feet,
-          availableDate: data.available_date,
-          createdAt: new Date(data.created_at).getTime(),
-          updatedAt: new Date(data.updated_at).getTime(),
-        };
-        setListingData({ ...listing, source: 'user' });
-        fetchOwnerFromSupabase(data.owner_id);
+      // Not a user listing, so look in the listing providers
+      const external = await getPropertyById(id);
+      if (external) {
+        setListingData(external);
       }
     } catch (error) {
       console.error('Error fetching listing:', error);
@@ -91,19 +82,14 @@ export default function ListingDetailScreen() {
 
   const fetchOwnerFromSupabase = async (ownerId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, name, profile_picture_url, email, phone')
-        .eq('id', ownerId)
-        .single();
-
-      if (data && !error) {
+      const ownerUser = await getRepositories().users.getById(ownerId);
+      if (ownerUser) {
         setOwner({
-          id: data.id,
-          name: data.name,
-          profilePicture: data.profile_picture_url,
-          email: data.email,
-          phone: data.phone,
+          id: ownerUser.id,
+          name: ownerUser.name,
+          profilePicture: ownerUser.profilePicture,
+          email: ownerUser.email,
+          phone: ownerUser.phone,
         });
       }
     } catch (error) {
@@ -113,10 +99,10 @@ export default function ListingDetailScreen() {
 
   const getPhotos = (): (string | number | { uri: string })[] => {
     if (!listingData) return [];
-    if (listingData.source === 'user' && listingData.photos && listingData.photos.length > 0) {
+    if (listingData.photos && listingData.photos.length > 0) {
       return listingData.photos;
     }
-    // For external listings, get random photos
+    // For external listings without images, get a random photo
     if (listingData.source === 'external') {
       return getRandomRealEstatePhotos(listingData.id, 1);
     }
@@ -162,8 +148,14 @@ export default function ListingDetailScreen() {
   }
 
   const photos = getPhotos();
-  const beds = listingData.source === 'user' ? listingData.bedrooms : listingData.numBedrooms;
-  const baths = listingData.source === 'user' ? listingData.bathrooms : listingData.numBathrooms;
+  const beds = listingData.bedrooms;
+  const baths = listingData.bathrooms;
+  const squareFeet = listingData.squareFeet;
+  const availabilityWindow = listingData.availability
+    || (listingData.availableDate ? { availableFrom: listingData.availableDate } : null);
+  const availability = availabilityWindow ? formatAvailability(availabilityWindow) : null;
+  const propertyType = listingData.spaceType || listingData.propertyType || 'Rental';
+  const amenities = listingData.amenities || [];
 
   const handleBack = () => {
     if (navigation.canGoBack()) {
@@ -184,7 +176,16 @@ export default function ListingDetailScreen() {
           <Ionicons name="arrow-back" size={24} color="#6F4E37" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Listing Details</Text>
-        <View style={styles.headerSpacer} />
+        {currentUser ? (
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => setShowReportModal(true)}
+          >
+            <Ionicons name="flag-outline" size={24} color="#6F4E37" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
@@ -248,7 +249,7 @@ export default function ListingDetailScreen() {
           <Text style={styles.address}>{listingData.address}</Text>
           <Text style={styles.cityState}>
             {listingData.city}, {listingData.state}
-            {listingData.source === 'user' && listingData.zipCode && ` ${listingData.zipCode}`}
+            {!!listingData.zipCode && ` ${listingData.zipCode}`}
           </Text>
         </View>
 
@@ -256,56 +257,71 @@ export default function ListingDetailScreen() {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Property Details</Text>
           <View style={styles.detailsGrid}>
-            {listingData.source === 'user' && listingData.squareFeet && (
+            {!!squareFeet && (
               <View style={styles.detailItem}>
                 <Ionicons name="square-outline" size={20} color="#6F4E37" />
                 <Text style={styles.detailLabel}>Square Feet</Text>
-                <Text style={styles.detailValue}>{listingData.squareFeet.toLocaleString()} sq ft</Text>
+                <Text style={styles.detailValue}>{squareFeet.toLocaleString()} sq ft</Text>
               </View>
             )}
-            {listingData.source === 'user' && listingData.availableDate && (
+            {availability && (
               <View style={styles.detailItem}>
                 <Ionicons name="calendar-outline" size={20} color="#6F4E37" />
                 <Text style={styles.detailLabel}>Available</Text>
-                <Text style={styles.detailValue}>{new Date(listingData.availableDate).toLocaleDateString()}</Text>
+                <Text style={styles.detailValue}>{availability}</Text>
               </View>
             )}
-            {/* Add more property details from Datafiniti if available */}
             <View style={styles.detailItem}>
               <Ionicons name="home-outline" size={20} color="#6F4E37" />
               <Text style={styles.detailLabel}>Property Type</Text>
-              <Text style={styles.detailValue}>Rental</Text>
+              <Text style={styles.detailValue}>{propertyType}</Text>
             </View>
+            {!!listingData.yearBuilt && (
+              <View style={styles.detailItem}>
+                <Ionicons name="construct-outline" size={20} color="#6F4E37" />
+                <Text style={styles.detailLabel}>Year Built</Text>
+                <Text style={styles.detailValue}>{listingData.yearBuilt}</Text>
+              </View>
+            )}
+            {!!listingData.petPolicy && (
+              <View style={styles.detailItem}>
+                <Ionicons name="paw-outline" size={20} color="#6F4E37" />
+                <Text style={styles.detailLabel}>Pets</Text>
+                <Text style={styles.detailValue}>{listingData.petPolicy}</Text>
+              </View>
+            )}
+            {!!listingData.utilities && (
+              <View style={styles.detailItem}>
+                <Ionicons name="flash-outline" size={20} color="#6F4E37" />
+                <Text style={styles.detailLabel}>Utilities</Text>
+                <Text style={styles.detailValue}>{listingData.utilities}</Text>
+              </View>
+            )}
           </View>
         </View>
 
         {/* Description */}
-        {listingData.source === 'user' && listingData.description && (
+        {!!listingData.description && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>About This Place</Text>
             <Text style={styles.description}>{listingData.description}</Text>
           </View>
         )}
 
-        {/* Amenities Section (for future external listing integration) */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Amenities</Text>
-          <View style={styles.amenitiesGrid}>
-            {/* These would come from external listing API in the future */}
-            <View style={styles.amenityItem}>
-              <Ionicons name="checkmark-circle" size={20} color="#FF6B35" />
-              <Text style={styles.amenityText}>Pet Friendly</Text>
-            </View>
-            <View style={styles.amenityItem}>
-              <Ionicons name="checkmark-circle" size={20} color="#FF6B35" />
-              <Text style={styles.amenityText}>Washer/Dryer</Text>
-            </View>
-            <View style={styles.amenityItem}>
-              <Ionicons name="checkmark-circle" size={20} color="#FF6B35" />
-              <Text style={styles.amenityText}>Parking Available</Text>
+        {/* Amenities (from the listing source) */}
+        {amenities.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Amenities</Text>
+            <View style={styles.amenitiesGrid}>
+              {amenities.map(amenity => (
+                <View key={amenity} style={styles.amenityItem}>
+                  <Ionicons name="checkmark-circle" size={20} color="#FF6B35" />
+                  <Text style={styles.amenityText}>{amenity}</Text>
+                </View>
+              ))}
             </View>
           </View>
-        </View>
+        )}
 
         {/* Contact Card */}
         <View style={styles.contactCard}>
@@ -339,6 +355,14 @@ export default function ListingDetailScreen() {
           )}
         </View>
       </ScrollView>
+
+      <ReportModal
+        visible={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        targetType="listing"
+        targetId={listingData.id}
+        targetName={listingData.address}
+      />
     </View>
   );
 }
@@ -5,7 +5,7 @@ import { RootStackParamList } from '@types';
 import { Ionicons } from '@expo/vector-icons';
 import { useUser } from '../context/UserContext';
 import { supabase } from '../lib/supabase';
-import { User, UserPrompt } from '../types';
+import { getRepositories } from '../lib/repositories';
 
 interface Props {
   navigation: StackNavigationProp<RootStackParamList, 'Login'>;
@@ -77,13 +77,9 @@ export default function LoginScreen({ navigation }: Props) {
       }
 
       // Authentication successful - now fetch user profile from users table
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('email', email.toLowerCase())
-        .single();
+      const user = await getRepositories().users.getByEmail(email);
 
-      if (userError || !userData) {
+      if (!user) {
         // User authenticated but no profile - redirect to signup to complete profile
         Alert.alert(
           'Profile Not Found',
@@ -102,77 +98,17 @@ export default function LoginScreen({ navigation }: Props) {
         return;
       }
 
-      // Parse space_type if it's a JSON string
-      let spaceType: string | string[] | undefined = undefined;
-      if (userData.space_type) {
-        try {
-          const parsed = JSON.parse(userData.space_type);
-          spaceType = Array.isArray(parsed) ? parsed : userData.space_type;
-        } catch {
-          spaceType = userData.space_type;
-        }
-      }
-
-      // Parse prompts if it's a JSON string
-      let prompts: UserPrompt[] | undefined = undefined;
-      if (userData.prompts) {
-        try {
-          const parsed = JSON.parse(userData.prompts);
-          prompts = Array.isArray(parsed) ? parsed : undefined;
-        } catch {
-          prompts = undefined;
-        }
+      // Suspended accounts can't log back in
+      if (user.isSuspended) {
+        await supabase.auth.signOut();
+        Alert.alert(
+          'Account Suspended',
+          'This account has been suspended after a report was reviewed by our team.'
+        );
+        setIsLoading(false);
+        return;
       }
 
-      // Convert Supabase user to app User format with all fields
-      const user: User = {
-        id: userData.id,
-        userType: userData.user_type as 'homeowner' | 'searcher',
-        lookingFor: userData.looking_for as 'roommates' | 'housing' | 'both' | undefined,
-        email: userData.email,
-        phone: userData.phone,
-        name: userData.name,
-        age: userData.age || '',
-        race: userData.race || '',
-        gender: userData.gender || '',
-        university: userData.university || undefined,
-        yearsExperience: userData.years_experience || undefined,
-        job: userData.job || '',
-        jobRole: userData.job_role || undefined,
-        jobPlace: userData.job_place || undefined,
-        profilePicture: userData.profile_picture_url || null,
-        hometown: userData.hometown || '',
-        location: userData.location || '',
-        pets: userData.pets || undefined,
-        smoking: userData.smoking || '',
-        drinking: userData.drinking || '',
-        drugs: userData.drugs || '',
-        nightOwl: userData.night_owl || '',
-        religion: userData.religion || '',
-        bio: userData.bio || '',
-        questions: userData.questions || [],
-        prompts: prompts,
-        maxRoommates: userData.max_roommates || undefined,
-        roommateType: userData.roommate_type || undefined,
-        preferredCity: userData.preferred_city || undefined,
-        preferredLatitude: userData.preferred_latitude || undefined,
-        preferredLongitude: userData.preferred_longitude || undefined,
-        spaceType: spaceType,
-        minBudget: userData.min_budget ? Number(userData.min_budget) : undefined,
-        maxBudget: userData.max_budget ? Number(userData.max_budget) : undefined,
-        leaseDuration: userData.lease_duration || undefined,
-        friendliness: userData.friendliness !== null && userData.friendliness !== undefined
-          ? Number(userData.friendliness)
-          : undefined,
-        cleanliness: userData.cleanliness !== null && userData.cleanliness !== undefined
-          ? Number(userData.cleanliness)
-          : undefined,
-        guestsAllowed: userData.guests_allowed
-          ? (userData.guests_allowed as 'never' | 'with permission' | 'always okay')
-          : undefined,
-        createdAt: new Date(userData.created_at).getTime(),
-      };
-
       // Update local storage with the fetched user
       await setCurrentUser(user);
       
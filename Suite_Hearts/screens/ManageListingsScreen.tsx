@@ -17,11 +17,16 @@ import MapView, { Marker, PROVIDER_DEFAULT } from "react-native-maps";
 import { useUser } from "../context/UserContext";
 import { Listing } from "../types";
 import { supabase } from "../lib/supabase";
+import { uploadToStorage } from "../lib/storageService";
+import { getRepositories, ListingInput } from "../lib/repositories";
 import * as ImagePicker from "expo-image-picker";
 
 const SCREEN_WIDTH = Dimensions.get("window").width;
 const SCREEN_HEIGHT = Dimensions.get("window").height;
 
+// Same options searchers pick from in their profile
+const SPACE_TYPES = ["Apartment", "House", "Condo", "Townhome", "RV", "Other"];
+
 export default function ManageListingsScreen() {
   const { currentUser } = useUser();
   const [listings, setListings] = useState<Listing[]>([]);
@@ -42,56 +47,7 @@ export default function ManageListingsScreen() {
     if (!currentUser) return;
 
     try {
-      const { data, error } = await supabase
-        .from("listings")
-        .select("*")
-        .eq("owner_id", currentUser.id)
-        .order("created_at", { ascending: false });
-
-      if (error) {
-        console.error("Error loading listings:", error);
-        setListings([]);
-        return;
-      }
-
-      if (!data || data.length === 0) {
-        setListings([]);
-        return;
-      }
-
-      // Fetch photos for each listing
-      const listingsWithPhotos = await Promise.all(
-        data.map(async (item: any) => {
-          const { data: photosData } = await supabase
-            .from("listing_photos")
-            .select("photo_url")
-            .eq("listing_id", item.id)
-            .order("photo_order", { ascending: true });
-
-          return {
-            id: item.id,
-            ownerId: item.owner_id,
-            title: item.title || `${item.address}, ${item.city}`,
-            description: item.description || "",
-            address: item.address,
-            city: item.city,
-            state: item.state,
-            zipCode: item.zip_code,
-            price: parseFloat(item.price),
-            latitude: parseFloat(item.latitude),
-            longitude: parseFloat(item.longitude),
-            bedrooms: item.bedrooms,
-            bathrooms: item.bathrooms,
-            squareFeet: item.square_feet,
-            availableDate: item.available_date,
-            photos: (photosData || []).map((p: any) => p.photo_url),
-            createdAt: new Date(item.created_at).getTime(),
-            updatedAt: new Date(item.updated_at).getTime(),
-          };
-        })
-      );
-
-      setListings(listingsWithPhotos);
+      setListings(await getRepositories().listings.listByOwner(currentUser.id));
     } catch (error) {
       console.error("Error loading listings:", error);
       setListings([]);
@@ -109,17 +65,8 @@ export default function ManageListingsScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              const { error } = await supabase
-                .from("listings")
-                .delete()
-                .eq("id", listingId);
-
-              if (error) {
-                console.error("Error deleting listing:", error);
-                Alert.alert("Error", "Failed to delete listing");
-              } else {
-                loadListings();
-              }
+              await getRepositories().listings.delete(listingId);
+              loadListings();
             } catch (error) {
               console.error("Error deleting listing:", error);
               Alert.alert("Error", "Failed to delete listing");
@@ -159,12 +106,9 @@ export default function ManageListingsScreen() {
           onPress: async () => {
             try {
               for (const listingId of selectedListings) {
-                const { error } = await supabase
-                  .from("listings")
-                  .delete()
-                  .eq("id", listingId);
-
-                if (error) {
+                try {
+                  await getRepositories().listings.delete(listingId);
+                } catch (error) {
                   console.error("Error deleting listing:", error);
                 }
               }
@@ -381,6 +325,7 @@ function AddListingForm({
     bedrooms: "",
     bathrooms: "",
     price: "",
+    spaceType: "",
   });
   const [photos, setPhotos] = useState<string[]>([]);
   const [showMapPicker, setShowMapPicker] = useState(false);
@@ -407,6 +352,7 @@ function AddListingForm({
           bedrooms: editingListing.bedrooms?.toString() || "",
           bathrooms: editingListing.bathrooms?.toString() || "",
           price: editingListing.price?.toString() || "",
+          spaceType: editingListing.spaceType || "",
         });
         setPhotos(editingListing.photos || []);
         if (editingListing.latitude && editingListing.longitude) {
@@ -429,6 +375,7 @@ function AddListingForm({
           bedrooms: "",
           bathrooms: "",
           price: "",
+          spaceType: "",
         });
         setPhotos([]);
         setSelectedLocation(null);
@@ -520,31 +467,30 @@ function AddListingForm({
       const state = stateZip.split(" ")[0] || "CA";
       const zipCode = stateZip.split(" ")[1] || "94102";
 
-      const listingData: any = {
-        owner_id: currentUser.id,
+      const listingData: ListingInput = {
+        ownerId: currentUser.id,
         title: formData.title || formData.address,
         description: formData.description || "",
         address: formData.address,
         city: city,
         state: state,
-        zip_code: zipCode,
+        zipCode: zipCode,
         price: parseFloat(formData.price),
         latitude: selectedLocation.latitude,
         longitude: selectedLocation.longitude,
-        bedrooms: formData.bedrooms ? parseInt(formData.bedrooms) : null,
-        bathrooms: formData.bathrooms ? parseFloat(formData.bathrooms) : null,
+        bedrooms: formData.bedrooms ? parseInt(formData.bedrooms) : undefined,
+        bathrooms: formData.bathrooms ? parseFloat(formData.bathrooms) : undefined,
+        spaceType: formData.spaceType || undefined,
       };
 
+      const { listings: listingsRepository, listingPhotos } = getRepositories();
       let listingId: string;
 
       if (editingListing) {
         // Update existing listing
-        const { error } = await supabase
-          .from("listings")
-          .update(listingData)
-          .eq("id", editingListing.id);
-
-        if (error) {
+        try {
+          await listingsRepository.update(editingListing.id, listingData);
+        } catch (error) {
           console.error("Error updating listing:", error);
           Alert.alert("Error", "Failed to update listing");
           return;
@@ -552,54 +498,43 @@ function AddListingForm({
         listingId = editingListing.id;
       } else {
         // Create new listing
-        const { data, error } = await supabase
-          .from("listings")
-          .insert(listingData)
-          .select()
-          .single();
-
-        if (error) {
+        try {
+          listingId = await listingsRepository.insert(listingData);
+        } catch (error) {
           console.error("Error creating listing:", error);
           Alert.alert("Error", "Failed to create listing");
           return;
         }
-        listingId = data.id;
       }
 
       // Upload photos to Supabase Storage and save to listing_photos table
       if (photos.length > 0) {
         // First, delete existing photos if editing
         if (editingListing) {
-          // Delete from storage
-          const { data: existingPhotos } = await supabase
-            .from("listing_photos")
-            .select("photo_url")
-            .eq("listing_id", listingId);
-
-          if (existingPhotos) {
-            for (const photo of existingPhotos) {
-              // Extract path from URL if it's a storage URL
-              if (
-                photo.photo_url.includes(
-                  "supabase.co/storage/v1/object/public/listing-photos/"
-                )
-              ) {
-                const urlParts = photo.photo_url.split("listing-photos/");
-                if (urlParts.length > 1) {
-                  const filePath = urlParts[1];
-                  await supabase.storage
-                    .from("listing-photos")
-                    .remove([filePath]);
-                }
+          // Delete from storage (the rows are replaced once the new photos are uploaded)
+          const existingPhotoUrls = await listingPhotos
+            .listUrls(listingId)
+            .catch((error) => {
+              console.error("Error loading existing photos:", error);
+              return [] as string[];
+            });
+
+          for (const photoUrl of existingPhotoUrls) {
+            // Extract path from URL if it's a storage URL
+            if (
+              photoUrl.includes(
+                "supabase.co/storage/v1/object/public/listing-photos/"
+              )
+            ) {
+              const urlParts = photoUrl.split("listing-photos/");
+              if (urlParts.length > 1) {
+                const filePath = urlParts[1];
+                await supabase.storage
+                  .from("listing-photos")
+                  .remove([filePath]);
               }
             }
           }
-
-          // Delete from database
-          await supabase
-            .from("listing_photos")
-            .delete()
-            .eq("listing_id", listingId);
         }
 
         // Upload photos to Supabase Storage
@@ -616,68 +551,30 @@ function AddListingForm({
             uploadedPhotoUrls.push(photoUri);
           } else {
             // Local file, need to upload
-            try {
-              // Read file into a blob (works in React Native + expo-image-picker)
-              const response = await fetch(photoUri);
-              const blob = await response.blob();
-
-              // Create file path: listing-photos/{owner_id}/{listing_id}/photo-{index}.jpg
-              const fileExtWithQuery = photoUri.split(".").pop() || "jpg";
-              const fileExt = fileExtWithQuery.split("?")[0];
-              const fileName = `photo-${index}.${fileExt || "jpg"}`;
-              const filePath = `${currentUser.id}/${listingId}/${fileName}`;
-              const contentType =
-                blob.type && blob.type !== ""
-                  ? blob.type
-                  : `image/${fileExt || "jpeg"}`;
-
-              // Upload to Supabase Storage (upsert allows replacement)
-              const { error: uploadError } = await supabase.storage
-                .from("listing-photos")
-                .upload(filePath, blob, {
-                  contentType,
-                  upsert: true,
-                });
-
-              if (uploadError) {
-                console.error("Error uploading photo:", uploadError);
-                // Continue with next photo
-                continue;
-              }
-
-              // Get public URL
-              const { data: urlData } = supabase.storage
-                .from("listing-photos")
-                .getPublicUrl(filePath);
-
-              if (urlData?.publicUrl) {
-                uploadedPhotoUrls.push(urlData.publicUrl);
-              } else {
-                console.error("Failed to get public URL for photo");
-              }
-            } catch (error) {
-              console.error("Error processing photo:", error);
-              // Continue with next photo
+            // File path: listing-photos/{owner_id}/{listing_id}/photo-{index}.jpg
+            const fileExtWithQuery = photoUri.split(".").pop() || "jpg";
+            const fileExt = fileExtWithQuery.split("?")[0];
+            const fileName = `photo-${index}.${fileExt || "jpg"}`;
+
+            // Upsert allows replacement; a failed photo is skipped
+            const publicUrl = await uploadToStorage(
+              "listing-photos",
+              `${currentUser.id}/${listingId}/${fileName}`,
+              photoUri,
+              { upsert: true, contentType: `image/${fileExt || "jpeg"}` }
+            );
+            if (publicUrl) {
+              uploadedPhotoUrls.push(publicUrl);
             }
           }
         }
 
-        // Insert photo URLs into listing_photos table
-        if (uploadedPhotoUrls.length > 0) {
-          const photoInserts = uploadedPhotoUrls.map((photoUrl, index) => ({
-            listing_id: listingId,
-            photo_url: photoUrl,
-            photo_order: index,
-          }));
-
-          const { error: photoError } = await supabase
-            .from("listing_photos")
-            .insert(photoInserts);
-
-          if (photoError) {
-            console.error("Error saving photos to database:", photoError);
-            // Continue anyway - listing is saved
-          }
+        // Save photo URLs to the listing_photos table, replacing any old ones
+        try {
+          await listingPhotos.replace(listingId, uploadedPhotoUrls);
+        } catch (photoError) {
+          console.error("Error saving photos to database:", photoError);
+          // Continue anyway - listing is saved
         }
       }
 
@@ -822,6 +719,41 @@ function AddListingForm({
               </View>
             </View>
 
+            {/* Space Type */}
+            <View style={styles.formField}>
+              <Text style={styles.fieldLabel}>Space Type</Text>
+              <View style={styles.spaceTypeOptions}>
+                {SPACE_TYPES.map((type) => {
+                  const selected = formData.spaceType === type;
+                  return (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.spaceTypeChip,
+                        selected && styles.spaceTypeChipSelected,
+                      ]}
+                      onPress={() =>
+                        setFormData({
+                          ...formData,
+                          spaceType: selected ? "" : type,
+                        })
+                      }
+                      activeOpacity={0.7}
+                    >
+                      <Text
+                        style={[
+                          styles.spaceTypeChipText,
+                          selected && styles.spaceTypeChipTextSelected,
+                        ]}
+                      >
+                        {type}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
             {/* Map Picker */}
             <View style={styles.formField}>
               <Text style={styles.fieldLabel}>Pin Location on Map *</Text>
@@ -1237,6 +1169,31 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 16,
   },
+  spaceTypeOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  spaceTypeChip: {
+    borderWidth: 1,
+    borderColor: "#E8D5C4",
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: "#FFFFFF",
+  },
+  spaceTypeChipSelected: {
+    backgroundColor: "#FF6B35",
+    borderColor: "#FF6B35",
+  },
+  spaceTypeChipText: {
+    fontSize: 14,
+    color: "#6F4E37",
+  },
+  spaceTypeChipTextSelected: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
   halfField: {
     flex: 0.48,
     marginBottom: 0,
@@ -1,31 +1,34 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { StyleSheet, View, Text, TouchableOpacity, Modal, Image, ScrollView, ActivityIndicator, Dimensions } from 'react-native';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, Image, ScrollView, ActivityIndicator, Dimensions, Alert } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import MapView, { Marker, PROVIDER_DEFAULT } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
 import { useUser } from '../context/UserContext';
 import { useProperties } from '../context/PropertyContext';
-import { Listing, HomeStackParamList } from '../types';
-import { Property } from '../lib/datafiniti';
-import { supabase } from '../lib/supabase';
+import { Listing, HomeStackParamList, CommuteAnchor } from '../types';
+import { getRepositories } from '../lib/repositories';
+import { excludeUserListings } from '../lib/listingProviders';
 import { getRandomRealEstatePhotos } from '../lib/photoUtils';
+import { isWithinMaxCommute, getLongestCommute, describeCommute, getCommuteMode } from '../lib/commute';
+import CommuteFilterBar from '../components/CommuteFilterBar';
 
 type MapScreenNavigationProp = StackNavigationProp<HomeStackParamList>;
 
 const SCREEN_HEIGHT = Dimensions.get('window').height;
 
 // Combined property type for display
-type MapProperty = (Property & { source: 'external' }) | (Listing & { source: 'user' });
 
 export default function MapScreen() {
   const navigation = useNavigation<MapScreenNavigationProp>();
-  const { currentUser } = useUser();
+  const { currentUser, hiddenListingIds, updateUser } = useUser();
   const { properties: datafinitiProperties, selectedPropertyId, setSelectedPropertyId } = useProperties();
   const [userListings, setUserListings] = useState<Listing[]>([]);
-  const [selectedProperty, setSelectedProperty] = useState<MapProperty | null>(null);
+  const [selectedProperty, setSelectedProperty] = useState<Listing | null>(null);
   const mapRef = useRef<MapView>(null);
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
+  // Where the user long-pressed to add a campus / office pin
+  const [pendingAnchor, setPendingAnchor] = useState<{ latitude: number; longitude: number } | null>(null);
   const [region, setRegion] = useState({
     latitude: 37.7749, // Default to San Francisco
     longitude: -122.4194,
@@ -36,42 +39,7 @@ export default function MapScreen() {
   // Fetch user listings from Supabase
   const fetchUserListings = React.useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('listings')
-        .select('*, listing_photos(photo_url, photo_order)')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching listings:', error);
-        return;
-      }
-
-      if (data) {
-        // Transform Supabase data to Listing format
-        const listings: Listing[] = data.map((item: any) => ({
-          id: item.id,
-          ownerId: item.owner_id,
-          title: item.title || '',
-          description: item.description || '',
-          address: item.address,
-          city: item.city,
-          state: item.state,
-          zipCode: item.zip_code || '',
-          price: item.price || 0,
-          latitude: item.latitude,
-          longitude: item.longitude,
-          photos: (item.listing_photos || [])
-            .sort((a: any, b: any) => (a.photo_order ?? 0) - (b.photo_order ?? 0))
-            .map((p: any) => p.photo_url),
-          bedrooms: item.bedrooms,
-          bathrooms: item.bathrooms,
-          squareFeet: item.square_feet,
-          availableDate: item.available_date,
-          createdAt: new Date(item.created_at).getTime(),
-          updatedAt: new Date(item.updated_at).getTime(),
-        }));
-        setUserListings(listings);
-      }
+      setUserListings(await getRepositories().listings.list());
     } catch (error) {
       console.error('Error fetching user listings:', error);
     }
@@ -89,10 +57,49 @@ export default function MapScreen() {
   );
 
   // Combine external properties and user listings
-  const allProperties: MapProperty[] = [
-    ...datafinitiProperties.map(p => ({ ...p, source: 'external' as const })),
-    ...userListings.map(l => ({ ...l, source: 'user' as const })),
-  ];
+  // (the user's own listings always show; others must be within their max commute)
+  const allProperties: Listing[] = [
+    ...excludeUserListings(datafinitiProperties, userListings),
+    ...userListings,
+  ].filter(p =>
+    !hiddenListingIds.has(p.id) &&
+    (!currentUser ||
+      (p.source === 'user' && p.ownerId === currentUser.id) ||
+      isWithinMaxCommute(currentUser, p))
+  );
+
+  const commuteAnchors = currentUser?.commuteAnchors || [];
+  const canPinAnchors = currentUser?.userType === 'searcher';
+
+  const saveAnchors = (anchors: CommuteAnchor[]) => {
+    if (!currentUser) return;
+    updateUser(currentUser.id, { commuteAnchors: anchors }).catch(error => {
+      console.error('Error saving commute anchors:', error);
+    });
+  };
+
+  const handleAddAnchor = (kind: CommuteAnchor['kind']) => {
+    if (!currentUser || !pendingAnchor) return;
+    const label = kind === 'campus'
+      ? currentUser.university || 'Campus'
+      : currentUser.jobPlace || 'Work';
+    saveAnchors([
+      ...commuteAnchors,
+      { id: `${kind}-${Date.now()}`, label, kind, ...pendingAnchor },
+    ]);
+    setPendingAnchor(null);
+  };
+
+  const handleAnchorPress = (anchor: CommuteAnchor) => {
+    Alert.alert(anchor.label, 'Remove this pin? Listings will no longer be ranked by commute to it.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => saveAnchors(commuteAnchors.filter(a => a.id !== anchor.id)),
+      },
+    ]);
+  };
 
   // Center map on selected property when selection changes
   useEffect(() => {
@@ -109,7 +116,7 @@ export default function MapScreen() {
     }
   }, [selectedPropertyId, datafinitiProperties, userListings]);
 
-  const handleMarkerPress = (property: MapProperty) => {
+  const handleMarkerPress = (property: Listing) => {
     setSelectedProperty(property);
     setSelectedPropertyId(property.id);
     setCurrentPhotoIndex(0);
@@ -121,11 +128,11 @@ export default function MapScreen() {
     setCurrentPhotoIndex(0);
   };
 
-  const getPhotos = (property: MapProperty): (string | number | { uri: string })[] => {
-    if (property.source === 'user' && property.photos && property.photos.length > 0) {
+  const getPhotos = (property: Listing): (string | number | { uri: string })[] => {
+    if (property.photos && property.photos.length > 0) {
       return property.photos;
     }
-    // For external properties, get random photos
+    // For external properties without images, get random photos
     return getRandomRealEstatePhotos(property.id, 1);
   };
 
@@ -166,7 +173,21 @@ export default function MapScreen() {
         showsUserLocation={true}
         showsMyLocationButton={true}
         mapType="standard"
+        onLongPress={(e) => {
+          if (canPinAnchors) setPendingAnchor(e.nativeEvent.coordinate);
+        }}
       >
+        {commuteAnchors.map(anchor => (
+          <Marker
+            key={anchor.id}
+            coordinate={{ latitude: anchor.latitude, longitude: anchor.longitude }}
+            onPress={() => handleAnchorPress(anchor)}
+          >
+            <View style={styles.anchorMarker}>
+              <Ionicons name={anchor.kind === 'campus' ? 'school' : 'briefcase'} size={18} color="#FFF5E1" />
+            </View>
+          </Marker>
+        ))}
         {allProperties.map((property) => {
           const isMyListing = property.source === 'user' && currentUser && property.ownerId === currentUser.id;
           const isSelected = selectedPropertyId === property.id;
@@ -192,6 +213,41 @@ export default function MapScreen() {
         })}
       </MapView>
 
+      {canPinAnchors && (
+        <View style={styles.commuteBar}>
+          <CommuteFilterBar emptyHint="Long-press the map to pin your campus or office" />
+        </View>
+      )}
+
+      {/* Add Commute Pin */}
+      <Modal
+        visible={pendingAnchor !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setPendingAnchor(null)}
+      >
+        <TouchableOpacity
+          style={styles.anchorModalOverlay}
+          activeOpacity={1}
+          onPress={() => setPendingAnchor(null)}
+        >
+          <View style={styles.anchorModal}>
+            <Text style={styles.anchorModalTitle}>Pin a place you commute to</Text>
+            <TouchableOpacity style={styles.anchorOption} onPress={() => handleAddAnchor('campus')}>
+              <Ionicons name="school-outline" size={20} color="#6F4E37" />
+              <Text style={styles.anchorOptionText}>{currentUser?.university || 'Campus'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.anchorOption} onPress={() => handleAddAnchor('work')}>
+              <Ionicons name="briefcase-outline" size={20} color="#6F4E37" />
+              <Text style={styles.anchorOptionText}>{currentUser?.jobPlace || 'Work'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.anchorCancel} onPress={() => setPendingAnchor(null)}>
+              <Text style={styles.anchorCancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
       {/* Property Detail Modal */}
       <Modal
         visible={selectedProperty !== null}
@@ -273,14 +329,10 @@ export default function MapScreen() {
                   <View style={styles.listingInfo}>
                     <Text style={styles.price}>${selectedProperty.price.toLocaleString()}/mo</Text>
                     
-                    {((selectedProperty.source === 'user' && (selectedProperty.bedrooms || selectedProperty.bathrooms)) ||
-                      (selectedProperty.source === 'external' && (selectedProperty.numBedrooms || selectedProperty.numBathrooms))) && (
+                    {(selectedProperty.bedrooms || selectedProperty.bathrooms) && (
                       <View style={styles.detailsRow}>
                         <Text style={styles.detailText}>
-                          {selectedProperty.source === 'user' 
-                            ? `${selectedProperty.bedrooms || 0} bed • ${selectedProperty.bathrooms || 0} bath`
-                            : `${selectedProperty.numBedrooms || 0} bed • ${selectedProperty.numBathrooms || 0} bath`
-                          }
+                          {`${selectedProperty.bedrooms || 0} bed • ${selectedProperty.bathrooms || 0} bath`}
                         </Text>
                       </View>
                     )}
@@ -288,9 +340,19 @@ export default function MapScreen() {
                     <Text style={styles.address}>{selectedProperty.address}</Text>
                     <Text style={styles.cityState}>
                       {selectedProperty.city}, {selectedProperty.state}
-                      {selectedProperty.source === 'user' && selectedProperty.zipCode && ` ${selectedProperty.zipCode}`}
+                      {!!selectedProperty.zipCode && ` ${selectedProperty.zipCode}`}
                     </Text>
 
+                    {currentUser && (() => {
+                      const commute = getLongestCommute(currentUser, selectedProperty);
+                      return commute && (
+                        <View style={styles.commuteRow}>
+                          <Ionicons name="navigate-outline" size={16} color="#6F4E37" />
+                          <Text style={styles.detailText}>{describeCommute(commute, getCommuteMode(currentUser))}</Text>
+                        </View>
+                      );
+                    })()}
+
                     <TouchableOpacity style={styles.viewFullButton} onPress={handleViewFullListing}>
                       <Text style={styles.viewFullButtonText}>View Full Listing</Text>
                       <Ionicons name="arrow-forward" size={20} color="#FFF5E1" />
@@ -493,5 +555,64 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  commuteBar: {
+    position: 'absolute',
+    top: 8,
+    left: 0,
+    right: 0,
+  },
+  commuteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  anchorMarker: {
+    backgroundColor: '#6F4E37',
+    padding: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  anchorModalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  anchorModal: {
+    backgroundColor: '#FFF5E1',
+    borderRadius: 16,
+    padding: 20,
+    gap: 8,
+  },
+  anchorModalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#6F4E37',
+    marginBottom: 8,
+  },
+  anchorOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    padding: 14,
+  },
+  anchorOptionText: {
+    fontSize: 16,
+    color: '#6F4E37',
+  },
+  anchorCancel: {
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  anchorCancelText: {
+    fontSize: 16,
+    color: '#A68B7B',
+  },
 });
 
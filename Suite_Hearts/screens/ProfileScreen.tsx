@@ -14,7 +14,9 @@ import { StackNavigationProp } from "@react-navigation/stack";
 import { Ionicons } from "@expo/vector-icons";
 import { useUser } from "../context/UserContext";
 import { RootStackParamList, User, UserPrompt } from "../types";
-import { supabase } from "../lib/supabase";
+import { getRepositories } from "../lib/repositories";
+import { describePriorities } from "../lib/matchPriorities";
+import { DEALBREAKERS } from "../lib/dealbreakers";
 import ProfileEditModal from "../components/ProfileEditModal";
 import PromptsModal from "../components/PromptsModal";
 
@@ -23,7 +25,14 @@ const SCREEN_WIDTH = Dimensions.get("window").width;
 
 export default function ProfileScreen() {
   const navigation = useNavigation<ProfileScreenNavigationProp>();
-  const { currentUser, deleteUser, updateUser, setCurrentUser } = useUser();
+  const {
+    currentUser,
+    deleteUser,
+    updateUser,
+    setCurrentUser,
+    rankingModel,
+    resetRankingModel,
+  } = useUser();
   const [isDeleting, setIsDeleting] = useState(false);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [showPromptsModal, setShowPromptsModal] = useState(false);
@@ -401,6 +410,29 @@ export default function ProfileScreen() {
     ]);
   };
 
+  const learnedSwipes = rankingModel
+    ? rankingModel.roommate.samples + rankingModel.listing.samples
+    : 0;
+
+  const handleResetRanking = () => {
+    Alert.alert(
+      "Reset Learned Preferences",
+      "Your decks will go back to being ranked only by your profile and priorities. This can't be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reset",
+          style: "destructive",
+          onPress: () => {
+            resetRankingModel().catch((error) => {
+              console.error("Error resetting ranking model:", error);
+            });
+          },
+        },
+      ]
+    );
+  };
+
   const handleDeleteProfile = () => {
     Alert.alert(
       "Delete Profile",
@@ -418,29 +450,20 @@ export default function ProfileScreen() {
 
             setIsDeleting(true);
             try {
-              await supabase.from("users").delete().eq("id", currentUser.id);
-              await supabase
-                .from("messages")
-                .delete()
-                .or(
-                  `sender_id.eq.${currentUser.id},receiver_id.eq.${currentUser.id}`
-                );
-              await supabase
-                .from("conversations")
-                .delete()
-                .contains("participants", [currentUser.id]);
-              await supabase
-                .from("swipes")
-                .delete()
-                .or(
-                  `swiper_id.eq.${currentUser.id},swiped_id.eq.${currentUser.id}`
-                );
-              await supabase
-                .from("matches")
-                .delete()
-                .or(
-                  `user1_id.eq.${currentUser.id},user2_id.eq.${currentUser.id}`
-                );
+              const { users, messages, conversations, swipes, matches } =
+                getRepositories();
+              // Best effort: whatever fails is logged and the rest still goes
+              for (const remove of [
+                users.delete,
+                messages.deleteForUser,
+                conversations.deleteForUser,
+                swipes.deleteForUser,
+                matches.deleteForUser,
+              ]) {
+                await remove(currentUser.id).catch((error) => {
+                  console.error("Error deleting profile data:", error);
+                });
+              }
 
               await deleteUser(currentUser.id);
 
@@ -817,6 +840,54 @@ export default function ProfileScreen() {
           </View>
         )}
 
+        {/* Matching priorities (for searchers) */}
+        {currentUser.userType === "searcher" && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>What Matters Most to Me</Text>
+            <View style={styles.fieldsGrid}>
+              {renderFieldCard(
+                "Matching Priorities",
+                "matchPriorities",
+                describePriorities(currentUser.matchPriorities),
+                "options-outline"
+              )}
+              {renderFieldCard(
+                "Dealbreakers",
+                "dealbreakers",
+                DEALBREAKERS.filter((d) =>
+                  currentUser.dealbreakers?.includes(d.id)
+                )
+                  .map((d) => d.label)
+                  .join(", "),
+                "close-circle-outline"
+              )}
+            </View>
+            <TouchableOpacity
+              style={styles.resetRankingButton}
+              onPress={handleResetRanking}
+              disabled={learnedSwipes === 0}
+            >
+              <Ionicons name="refresh-outline" size={18} color="#6F4E37" />
+              <Text style={styles.resetRankingText}>
+                {learnedSwipes === 0
+                  ? "Ranking learns from your swipes"
+                  : `Reset learned preferences (${learnedSwipes} swipes)`}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Report Review (admins only) */}
+        {currentUser?.isAdmin && (
+          <TouchableOpacity
+            style={styles.logoutButton}
+            onPress={() => navigation.navigate("ReportReview")}
+          >
+            <Ionicons name="shield-checkmark-outline" size={20} color="#6F4E37" />
+            <Text style={styles.logoutButtonText}>Review Reports</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Log Out Button */}
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
           <Ionicons name="log-out-outline" size={20} color="#6F4E37" />
@@ -854,16 +925,8 @@ export default function ProfileScreen() {
         prompts={currentUser.prompts || []}
         onClose={() => setShowPromptsModal(false)}
         onSave={async (prompts: UserPrompt[]) => {
+          // updateUser saves them to Supabase too
           await updateUser(currentUser.id, { prompts });
-          // Update Supabase
-          try {
-            await supabase
-              .from("users")
-              .update({ prompts: JSON.stringify(prompts) })
-              .eq("id", currentUser.id);
-          } catch (error) {
-            console.error("Error updating prompts:", error);
-          }
         }}
       />
     </View>
@@ -1130,6 +1193,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  resetRankingButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 12,
+  },
+  resetRankingText: {
+    color: "#6F4E37",
+    fontSize: 14,
+    fontWeight: "500",
+  },
   deleteButton: {
     flexDirection: "row",
     alignItems: "center",
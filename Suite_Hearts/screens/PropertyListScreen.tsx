@@ -14,15 +14,19 @@ import { StackNavigationProp } from "@react-navigation/stack";
 import { Ionicons } from "@expo/vector-icons";
 import { useProperties } from "../context/PropertyContext";
 import { useUser } from "../context/UserContext";
-import { Property } from "../lib/datafiniti";
 import { Listing, HomeStackParamList } from "../types";
-import { supabase } from "../lib/supabase";
+import { getRepositories } from "../lib/repositories";
+import { excludeUserListings } from "../lib/listingProviders";
 import { getRandomRealEstatePhotos } from "../lib/photoUtils";
+import { recommendListings } from "../lib/recommender";
+import { rerankRecommendations } from "../lib/rankingModel";
+import { isWithinMaxCommute } from "../lib/commute";
+import CommuteFilterBar from "../components/CommuteFilterBar";
 
 type PropertyListNavigationProp = StackNavigationProp<HomeStackParamList>;
 
 interface PropertyListScreenProps {
-  onPropertySelect?: (property: Property) => void;
+  onPropertySelect?: (property: Listing) => void;
 }
 
 export default function PropertyListScreen({
@@ -36,7 +40,14 @@ export default function PropertyListScreen({
     selectedPropertyId,
     setSelectedPropertyId,
   } = useProperties();
-  const { currentUser, likedListings, isListingLiked } = useUser();
+  const {
+    currentUser,
+    likedListings,
+    isListingLiked,
+    removeLikedListing,
+    hiddenListingIds,
+    rankingModel,
+  } = useUser();
   const [myListings, setMyListings] = useState<Listing[]>([]);
   const [allUserListings, setAllUserListings] = useState<Listing[]>([]);
   const [showLikedListings, setShowLikedListings] = useState(false);
@@ -45,55 +56,19 @@ export default function PropertyListScreen({
   // Fetch ALL user-created listings (not just current user's)
   const fetchAllListings = React.useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from("listings")
-        .select("*, listing_photos(photo_url, photo_order)")
-        .order("created_at", { ascending: false });
+      const listings = await getRepositories().listings.list();
 
-      if (error) {
-        console.error("Error fetching listings:", error);
-        return;
-      }
-
-      if (data) {
-        // Map listings with photos already joined
-        const listings: Listing[] = data.map((item: any) => ({
-          id: item.id,
-          ownerId: item.owner_id,
-          title: item.title || "",
-          description: item.description || "",
-          address: item.address,
-          city: item.city,
-          state: item.state,
-          zipCode: item.zip_code || "",
-          price: item.price || 0,
-          latitude: item.latitude,
-          longitude: item.longitude,
-          photos: (item.listing_photos || [])
-            .sort(
-              (a: any, b: any) => (a.photo_order ?? 0) - (b.photo_order ?? 0)
-            )
-            .map((p: any) => p.photo_url),
-          bedrooms: item.bedrooms,
-          bathrooms: item.bathrooms,
-          squareFeet: item.square_feet,
-          availableDate: item.available_date,
-          createdAt: new Date(item.created_at).getTime(),
-          updatedAt: new Date(item.updated_at).getTime(),
-        }));
-
-        // Separate my listings from others
-        if (currentUser) {
-          const myList = listings.filter((l) => l.ownerId === currentUser.id);
-          const otherList = listings.filter(
-            (l) => l.ownerId !== currentUser.id
-          );
-          setMyListings(myList);
-          setAllUserListings(otherList);
-        } else {
-          setMyListings([]);
-          setAllUserListings(listings);
-        }
+      // Separate my listings from others
+      if (currentUser) {
+        const myList = listings.filter((l) => l.ownerId === currentUser.id);
+        const otherList = listings.filter(
+          (l) => l.ownerId !== currentUser.id
+        );
+        setMyListings(myList);
+        setAllUserListings(otherList);
+      } else {
+        setMyListings([]);
+        setAllUserListings(listings);
       }
     } catch (error) {
       console.error("Error fetching listings:", error);
@@ -111,15 +86,13 @@ export default function PropertyListScreen({
     }, [fetchAllListings])
   );
 
-  const handlePropertyPress = (property: Property) => {
+  const handlePropertyPress = (property: Listing) => {
     setSelectedPropertyId(property.id);
     if (onPropertySelect) {
       onPropertySelect(property);
     }
     // Navigate to detail screen
-    navigation.navigate("ListingDetail", {
-      listing: { ...property, source: "external" },
-    });
+    navigation.navigate("ListingDetail", { listing: property });
   };
 
   // Don't show loading/error for external listings - just show what we have from Supabase
@@ -127,40 +100,49 @@ export default function PropertyListScreen({
 
   const handleListingPress = (listing: Listing) => {
     setSelectedPropertyId(listing.id);
-    navigation.navigate("ListingDetail", {
-      listing: { ...listing, source: "user" },
-    });
+    navigation.navigate("ListingDetail", { listing });
   };
 
-  // Transform external properties to Listing format
-  const externalListings: Listing[] = datafinitiProperties.map(
-    (prop: Property) => ({
-      id: prop.id,
-      ownerId: "", // External listings don't have owners
-      title: "",
-      description: prop.description || "",
-      address: prop.address,
-      city: prop.city,
-      state: prop.state,
-      zipCode: "",
-      price: prop.price,
-      latitude: prop.latitude,
-      longitude: prop.longitude,
-      photos: [], // External listings get one photo assigned in ListingCard
-      bedrooms: prop.numBedrooms,
-      bathrooms: prop.numBathrooms,
-      squareFeet: undefined,
-      availableDate: undefined,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    })
-  );
+  // External listings from the listing providers
+  const externalListings: Listing[] = excludeUserListings(datafinitiProperties, [
+    ...myListings,
+    ...allUserListings,
+  ]);
 
-  // Combine all listings: Supabase listings + external properties
-  const allListings = [...myListings, ...allUserListings, ...externalListings];
+  // Anything an admin hid after a report is left out of every section
+  const isVisible = (listing: Listing) => !hiddenListingIds.has(listing.id);
 
   // Combine user-created listings for shared rendering; mark current user's for styling
-  const combinedUserListings = [...myListings, ...allUserListings];
+  const combinedUserListings = [...myListings, ...allUserListings].filter(isVisible);
+  const visibleExternalListings = externalListings.filter(isVisible);
+
+  // Combine all listings: Supabase listings + external properties
+  const allListings = [...combinedUserListings, ...visibleExternalListings];
+
+  // Best matches for the current user first, adjusted by what they've liked
+  // (this is a browse list, so nothing is hidden except places beyond the
+  // user's max commute; their own listings always show)
+  const rankListings = (listings: Listing[]) =>
+    currentUser
+      ? rerankRecommendations(
+          rankingModel,
+          "listing",
+          recommendListings(
+            currentUser,
+            listings.filter(
+              (listing) =>
+                listing.ownerId === currentUser.id ||
+                isWithinMaxCommute(currentUser, listing)
+            ),
+            {
+              threshold: 0,
+              skipHardFilters: true,
+            }
+          )
+        ).map((rec) => rec.item)
+      : listings;
+  const rankedUserListings = rankListings(combinedUserListings);
+  const rankedExternalListings = rankListings(visibleExternalListings);
 
   // Filter listings by search query (address match)
   const filteredListings = searchQuery.trim()
@@ -178,8 +160,8 @@ export default function PropertyListScreen({
   );
 
   // Helper function to get photo for a listing
-  const getListingPhoto = (listing: Listing | Property) => {
-    if ("photos" in listing && listing.photos && listing.photos.length > 0) {
+  const getListingPhoto = (listing: Listing) => {
+    if (listing.photos && listing.photos.length > 0) {
       const firstPhoto = listing.photos[0];
       return typeof firstPhoto === "string" ? { uri: firstPhoto } : firstPhoto;
     }
@@ -231,12 +213,7 @@ export default function PropertyListScreen({
                   ]}
                   onPress={() => {
                     setSelectedPropertyId(listing.id);
-                    navigation.navigate("ListingDetail", {
-                      listing: {
-                        ...listing,
-                        source: listing.ownerId ? "user" : "external",
-                      },
-                    });
+                    navigation.navigate("ListingDetail", { listing });
                   }}
                   activeOpacity={0.7}
                 >
@@ -258,6 +235,13 @@ export default function PropertyListScreen({
                         <Ionicons name="home" size={32} color="#A68B7B" />
                       </View>
                     )}
+                    <TouchableOpacity
+                      style={styles.unlikeButton}
+                      onPress={() => removeLikedListing(listing)}
+                      accessibilityLabel="Unlike listing"
+                    >
+                      <Ionicons name="heart" size={22} color="#FF6B35" />
+                    </TouchableOpacity>
                   </View>
                   <View style={styles.propertyInfo}>
                     <Text style={styles.price}>
@@ -330,18 +314,20 @@ export default function PropertyListScreen({
         )}
       </View>
 
+      <CommuteFilterBar emptyHint="Long-press the map to pin your campus or office and rank places by commute" />
+
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
         {/* All User-Created Listings Section (includes my listings styled in brown) */}
-        {combinedUserListings.filter(
+        {rankedUserListings.filter(
           (l) => !searchQuery.trim() || filteredListings.includes(l)
         ).length > 0 && (
           <>
             <Text style={styles.sectionTitle}>All Listings</Text>
-            {combinedUserListings
+            {rankedUserListings
               .filter(
                 (l) => !searchQuery.trim() || filteredListings.includes(l)
               )
@@ -457,7 +443,7 @@ export default function PropertyListScreen({
         )}
 
         {/* External Properties */}
-        {externalListings.filter(
+        {rankedExternalListings.filter(
           (l) => !searchQuery.trim() || filteredListings.includes(l)
         ).length > 0 && (
           <>
@@ -469,7 +455,7 @@ export default function PropertyListScreen({
               ).length > 0) && (
               <Text style={styles.sectionTitle}>External Listings</Text>
             )}
-            {externalListings
+            {rankedExternalListings
               .filter(
                 (l) => !searchQuery.trim() || filteredListings.includes(l)
               )
@@ -515,19 +501,19 @@ export default function PropertyListScreen({
                       <Text style={styles.cityState}>
                         {property.city}, {property.state}
                       </Text>
-                      {(property.numBedrooms || property.numBathrooms) && (
+                      {(property.bedrooms || property.bathrooms) && (
                         <View style={styles.detailsRow}>
-                          {property.numBedrooms && (
+                          {property.bedrooms && (
                             <Text style={styles.detailText}>
-                              {property.numBedrooms} bed
+                              {property.bedrooms} bed
                             </Text>
                           )}
-                          {property.numBedrooms && property.numBathrooms && (
+                          {property.bedrooms && property.bathrooms && (
                             <Text style={styles.detailText}> • </Text>
                           )}
-                          {property.numBathrooms && (
+                          {property.bathrooms && (
                             <Text style={styles.detailText}>
-                              {property.numBathrooms} bath
+                              {property.bathrooms} bath
                             </Text>
                           )}
                         </View>
@@ -685,6 +671,17 @@ const styles = StyleSheet.create({
     height: 200,
     backgroundColor: "#E8D5C4",
   },
+  unlikeButton: {
+    position: "absolute",
+    top: 12,
+    right: 12,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#FFFFFF",
+    justifyContent: "center",
+    alignItems: "center",
+  },
   imagePlaceholder: {
     width: "100%",
     height: "100%",
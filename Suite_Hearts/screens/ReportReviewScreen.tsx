@@ -0,0 +1,409 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, FlatList, Alert, ActivityIndicator } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackParamList, Report, Message } from '../types';
+import { useUser } from '../context/UserContext';
+import { useProperties } from '../context/PropertyContext';
+import { getRepositories } from '../lib/repositories';
+import { getReportReasonLabel } from '../lib/reportService';
+
+type ReportReviewNavigationProp = StackNavigationProp<RootStackParamList, 'ReportReview'>;
+
+export default function ReportReviewScreen() {
+  const navigation = useNavigation<ReportReviewNavigationProp>();
+  const { currentUser, reports, conversations, refreshReports, resolveReport, getUserById } = useUser();
+  const { properties } = useProperties();
+  const [showClosed, setShowClosed] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [listingNames, setListingNames] = useState<Record<string, string>>({});
+
+  const loadReports = async () => {
+    setIsRefreshing(true);
+    await refreshReports();
+    setIsRefreshing(false);
+  };
+
+  useEffect(() => {
+    if (currentUser?.isAdmin) {
+      loadReports();
+    }
+  }, [currentUser?.id]);
+
+  // Look up titles for reported user-posted listings (external ones come from PropertyContext)
+  useEffect(() => {
+    const listingIds = Array.from(
+      new Set(reports.filter(r => r.targetType === 'listing').map(r => r.targetId))
+    ).filter(id => !listingNames[id] && !properties.some(p => p.id === id));
+    if (listingIds.length === 0) return;
+
+    const fetchListingNames = async () => {
+      try {
+        const listings = await getRepositories().listings.listByIds(listingIds);
+
+        const names: Record<string, string> = {};
+        listings.forEach(listing => {
+          names[listing.id] = listing.title || listing.address;
+        });
+        setListingNames(prev => ({ ...prev, ...names }));
+      } catch (error) {
+        console.error('Error fetching reported listings:', error);
+      }
+    };
+
+    fetchListingNames();
+  }, [reports, properties]);
+
+  const handleBack = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else {
+      navigation.navigate('Home');
+    }
+  };
+
+  if (!currentUser?.isAdmin) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color="#6F4E37" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Review Reports</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+        <View style={styles.emptyContainer}>
+          <Ionicons name="lock-closed-outline" size={64} color="#E8D5C4" />
+          <Text style={styles.emptyText}>Admins only</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const getTargetName = (report: Report): string => {
+    if (report.targetType === 'user') {
+      return getUserById(report.targetId)?.name || 'Unknown user';
+    }
+    const property = properties.find(p => p.id === report.targetId);
+    if (property) {
+      return property.address;
+    }
+    return listingNames[report.targetId] || 'Unknown listing';
+  };
+
+  const getAttachedMessages = (report: Report): Message[] => {
+    if (!report.messageIds || report.messageIds.length === 0) return [];
+    const messageIds = new Set(report.messageIds);
+    return conversations
+      .flatMap(conv => conv.messages)
+      .filter(message => messageIds.has(message.id));
+  };
+
+  const handleDismiss = (report: Report) => {
+    Alert.alert(
+      'Dismiss Report',
+      'Close this report without taking action?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Dismiss', onPress: () => resolveReport(report.id, 'dismiss') },
+      ]
+    );
+  };
+
+  const handleTakeAction = (report: Report) => {
+    const targetName = getTargetName(report);
+    if (report.targetType === 'user') {
+      Alert.alert(
+        'Suspend User',
+        `Suspend ${targetName}? They will be hidden from everyone and can't log back in.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Suspend', style: 'destructive', onPress: () => resolveReport(report.id, 'suspend_user') },
+        ]
+      );
+    } else {
+      Alert.alert(
+        'Hide Listing',
+        `Hide ${targetName}? It will no longer show up in search, the map or swiping.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Hide', style: 'destructive', onPress: () => resolveReport(report.id, 'hide_listing') },
+        ]
+      );
+    }
+  };
+
+  const visibleReports = reports
+    .filter(r => (showClosed ? r.status !== 'open' : r.status === 'open'))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const renderReport = ({ item }: { item: Report }) => {
+    const reporter = getUserById(item.reporterId);
+    const attachedMessages = getAttachedMessages(item);
+
+    return (
+      <View style={styles.reportCard}>
+        <View style={styles.reportHeader}>
+          <Ionicons
+            name={item.targetType === 'user' ? 'person-outline' : 'home-outline'}
+            size={20}
+            color="#6F4E37"
+          />
+          <Text style={styles.targetName} numberOfLines={1}>{getTargetName(item)}</Text>
+          <Text style={styles.reportDate}>{new Date(item.createdAt).toLocaleDateString()}</Text>
+        </View>
+        <Text style={styles.reasonText}>{getReportReasonLabel(item.reason)}</Text>
+        {item.details ? <Text style={styles.detailsText}>{item.details}</Text> : null}
+        {attachedMessages.length > 0 && (
+          <View style={styles.messagesSection}>
+            {attachedMessages.map(message => (
+              <Text key={message.id} style={styles.messageText} numberOfLines={3}>
+                "{message.text || 'Photo'}"
+              </Text>
+            ))}
+          </View>
+        )}
+        {item.messageIds && item.messageIds.length > attachedMessages.length && (
+          <Text style={styles.metaText}>
+            {item.messageIds.length - attachedMessages.length} attached message(s) not on this device
+          </Text>
+        )}
+        <Text style={styles.metaText}>Reported by {reporter?.name || 'Unknown user'}</Text>
+
+        {item.status === 'open' ? (
+          <View style={styles.actionsRow}>
+            <TouchableOpacity style={styles.dismissButton} onPress={() => handleDismiss(item)}>
+              <Text style={styles.dismissButtonText}>Dismiss</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleTakeAction(item)}>
+              <Text style={styles.actionButtonText}>
+                {item.targetType === 'user' ? 'Suspend User' : 'Hide Listing'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <Text style={styles.statusText}>
+            {item.status === 'dismissed' ? 'Dismissed' : item.targetType === 'user' ? 'User suspended' : 'Listing hidden'}
+            {item.reviewedAt ? ` on ${new Date(item.reviewedAt).toLocaleDateString()}` : ''}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color="#6F4E37" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Review Reports</Text>
+        <TouchableOpacity onPress={loadReports} style={styles.backButton} disabled={isRefreshing}>
+          {isRefreshing ? (
+            <ActivityIndicator color="#6F4E37" />
+          ) : (
+            <Ionicons name="refresh" size={24} color="#6F4E37" />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.filterRow}>
+        <TouchableOpacity
+          style={[styles.filterButton, !showClosed && styles.filterButtonActive]}
+          onPress={() => setShowClosed(false)}
+        >
+          <Text style={[styles.filterButtonText, !showClosed && styles.filterButtonTextActive]}>
+            Open ({reports.filter(r => r.status === 'open').length})
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.filterButton, showClosed && styles.filterButtonActive]}
+          onPress={() => setShowClosed(true)}
+        >
+          <Text style={[styles.filterButtonText, showClosed && styles.filterButtonTextActive]}>
+            Closed
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={visibleReports}
+        renderItem={renderReport}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="shield-checkmark-outline" size={64} color="#E8D5C4" />
+            <Text style={styles.emptyText}>
+              {showClosed ? 'No closed reports' : 'No open reports'}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF5E1',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8D5C4',
+  },
+  backButton: {
+    padding: 8,
+    width: 40,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#6F4E37',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  filterButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  filterButtonActive: {
+    backgroundColor: '#FF6B35',
+    borderColor: '#FF6B35',
+  },
+  filterButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6F4E37',
+  },
+  filterButtonTextActive: {
+    color: '#FFF5E1',
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  reportCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E8D5C4',
+    padding: 16,
+    marginBottom: 12,
+  },
+  reportHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  targetName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#6F4E37',
+  },
+  reportDate: {
+    fontSize: 12,
+    color: '#A68B7B',
+  },
+  reasonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FF3B30',
+    marginBottom: 6,
+  },
+  detailsText: {
+    fontSize: 14,
+    color: '#6F4E37',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  messagesSection: {
+    backgroundColor: '#FFF5E1',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    gap: 6,
+  },
+  messageText: {
+    fontSize: 13,
+    color: '#6F4E37',
+    fontStyle: 'italic',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#A68B7B',
+    marginBottom: 4,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  dismissButton: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E8D5C4',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  dismissButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6F4E37',
+  },
+  actionButton: {
+    flex: 1,
+    backgroundColor: '#FF3B30',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#A68B7B',
+    marginTop: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#A68B7B',
+    marginTop: 16,
+  },
+});
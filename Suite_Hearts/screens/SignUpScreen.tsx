@@ -7,12 +7,45 @@ import * as ImagePicker from 'expo-image-picker';
 import { useUser } from '../context/UserContext';
 import { User } from '../types';
 import { supabase } from '../lib/supabase';
+import { getRepositories, isRepositoryError } from '../lib/repositories';
 
 interface Props {
   navigation: StackNavigationProp<RootStackParamList, 'SignUp'>;
   route?: { params?: { email?: string } };
 }
 
+// Every profile field a new sign-up clears, so an old profile under the same email is overwritten
+const SIGN_UP_PROFILE_RESET: Partial<User> = {
+  age: undefined,
+  race: undefined,
+  gender: undefined,
+  university: undefined,
+  yearsExperience: undefined,
+  job: undefined,
+  jobRole: undefined,
+  jobPlace: undefined,
+  hometown: undefined,
+  location: undefined,
+  pets: undefined,
+  smoking: undefined,
+  drinking: undefined,
+  drugs: undefined,
+  nightOwl: undefined,
+  religion: undefined,
+  bio: undefined,
+  questions: [],
+  prompts: undefined,
+  maxRoommates: undefined,
+  roommateType: undefined,
+  preferredCity: undefined,
+  preferredLatitude: undefined,
+  preferredLongitude: undefined,
+  spaceType: undefined,
+  minBudget: undefined,
+  maxBudget: undefined,
+  leaseDuration: undefined,
+};
+
 type UserType = 'homeowner' | 'searcher' | '';
 type LookingFor = 'roommates' | 'housing' | 'both' | '';
 
@@ -222,19 +255,17 @@ export default function SignUpScreen({ navigation, route }: Props) {
 
     // Check if user with this email already exists
     try {
+      const { users: usersRepository } = getRepositories();
+
       // First, try to find existing user by email
-      const { data: existingUsers, error: checkError } = await supabase
-        .from('users')
-        .select('id')
-        .eq('email', newUser.email.toLowerCase())
-        .limit(1);
+      const existingUser = await usersRepository.getByEmail(newUser.email);
 
       let userId = newUser.id;
       let shouldUpdate = false;
 
       // If we found a user, use their ID and update
-      if (existingUsers && existingUsers.length > 0) {
-        userId = existingUsers[0].id;
+      if (existingUser) {
+        userId = existingUser.id;
         shouldUpdate = true;
         newUser.id = userId; // Use existing ID
       }
@@ -250,90 +281,38 @@ export default function SignUpScreen({ navigation, route }: Props) {
       
       // Save to Supabase (upsert - update if exists, insert if not)
       // When updating, completely overwrite with new signup data
-      const userData = {
-        id: userId,
-        user_type: newUser.userType,
-        looking_for: newUser.lookingFor,
+      const profile: Partial<User> = {
+        ...SIGN_UP_PROFILE_RESET,
+        userType: newUser.userType,
+        lookingFor: newUser.lookingFor,
         email: newUser.email.toLowerCase(),
         phone: newUser.phone,
         name: newUser.name,
-        profile_picture_url: newUser.profilePicture,
-        // Completely reset all other fields to null/empty (overwrite existing profile)
-        age: null,
-        race: null,
-        gender: null,
-        university: null,
-        years_experience: null,
-        job: null,
-        job_role: null,
-        job_place: null,
-        hometown: null,
-        location: null,
-        pets: null,
-        smoking: null,
-        drinking: null,
-        drugs: null,
-        night_owl: null,
-        religion: null,
-        bio: null,
-        questions: [],
-        prompts: null,
-        max_roommates: null,
-        roommate_type: null,
-        preferred_city: null,
-        preferred_latitude: null,
-        preferred_longitude: null,
-        space_type: null,
-        min_budget: null,
-        max_budget: null,
-        lease_duration: null,
+        profilePicture: newUser.profilePicture,
       };
 
-      let error;
       if (shouldUpdate) {
         // Update existing user
-        const { error: updateError } = await supabase
-          .from('users')
-          .update(userData)
-          .eq('id', userId);
-        error = updateError;
+        await usersRepository.update(userId, profile);
       } else {
         // Try to insert, but if it fails due to duplicate email, update instead
-        const { error: insertError } = await supabase
-          .from('users')
-          .insert(userData);
-        
-        if (insertError && insertError.code === '23505') {
-          // Duplicate email - fetch the existing user and update
-          const { data: existingUserData } = await supabase
-            .from('users')
-            .select('id')
-            .eq('email', newUser.email.toLowerCase())
-            .single();
-          
-          if (existingUserData) {
-            userId = existingUserData.id;
-            newUser.id = userId;
-            await setCurrentUser(newUser);
-            await updateUser(userId, newUser);
-            
-            const { error: updateError } = await supabase
-              .from('users')
-              .update(userData)
-              .eq('id', userId);
-            error = updateError;
-          } else {
-            error = insertError;
+        try {
+          await usersRepository.insert({ ...profile, id: userId });
+        } catch (insertError) {
+          const existingUserData = isRepositoryError(insertError, 'duplicate')
+            ? await usersRepository.getByEmail(newUser.email)
+            : null;
+          if (!existingUserData) {
+            throw insertError;
           }
-        } else {
-          error = insertError;
-        }
-      }
 
-      if (error) {
-        console.error('Error saving to Supabase:', error);
-        Alert.alert('Error', 'Failed to save account. Please try again.');
-        return;
+          // Duplicate email - update the existing user
+          userId = existingUserData.id;
+          newUser.id = userId;
+          await setCurrentUser(newUser);
+          await updateUser(userId, newUser);
+          await usersRepository.update(userId, profile);
+        }
       }
 
       // Navigate to home
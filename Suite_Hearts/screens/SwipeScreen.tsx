@@ -23,23 +23,63 @@ import { useProperties } from "../context/PropertyContext";
 import { User, Listing } from "../types";
 import RoommateCard from "../components/RoommateCard";
 import ListingCard from "../components/ListingCard";
+import MatchBreakdown from "../components/MatchBreakdown";
 import {
-  getRecommendedRoommates,
-  getRecommendedListings,
-} from "../lib/recommendation";
-import { supabase } from "../lib/supabase";
-import { Property } from "../lib/datafiniti";
+  recommendWithFunnel,
+  recommendRoommates,
+  recommendListings,
+  Recommendation,
+} from "../lib/recommender";
+import { rerankRecommendations } from "../lib/rankingModel";
+import {
+  dealDeckPage,
+  loadDeckState,
+  saveDeckState,
+  getRoommateClusters,
+  DeckState,
+  RELAXED_THRESHOLD,
+} from "../lib/deckService";
+import { getDealbreakerRemovals } from "../lib/dealbreakers";
+import { getRepositories } from "../lib/repositories";
+import { excludeUserListings } from "../lib/listingProviders";
 import { getRandomRealEstatePhotos } from "../lib/photoUtils";
 import RoommatePromptModal from "../components/RoommatePromptModal";
+import ReportModal from "../components/ReportModal";
 
 const Tab = createMaterialTopTabNavigator();
 const SCREEN_WIDTH = Dimensions.get("window").width;
 
 export default function SwipeScreen() {
-  const { currentUser, users, addLikedListing, getUserById } = useUser();
+  const {
+    currentUser,
+    users,
+    addLikedListing,
+    getUserById,
+    getSwipedIds,
+    blockedUserIds,
+    hiddenListingIds,
+    rankingModel,
+  } = useUser();
   const { properties: datafinitiProperties } = useProperties();
-  const [roommates, setRoommates] = useState<User[]>([]);
+  // Cards dealt so far, in their frozen order (persisted; null until loaded)
+  const [roommateDeck, setRoommateDeck] = useState<DeckState | null>(null);
+  // Everyone who currently passes the threshold, dealt or not (null until built)
+  const [roommatePool, setRoommatePool] = useState<
+    Recommendation<User>[] | null
+  >(null);
+  // Score + breakdown for each ranked roommate, keyed by user ID
+  const [roommateMatches, setRoommateMatches] = useState<
+    Map<string, Recommendation<User>>
+  >(new Map());
+  // People removed by each of the current user's dealbreakers
+  const [dealbreakerRemovals, setDealbreakerRemovals] = useState<
+    { label: string; count: number }[]
+  >([]);
   const [listings, setListings] = useState<Listing[]>([]);
+  // Score + breakdown for each ranked listing, keyed by listing ID
+  const [listingMatches, setListingMatches] = useState<
+    Map<string, Recommendation<Listing>>
+  >(new Map());
   const [showRoommatePrompt, setShowRoommatePrompt] = useState(false);
 
   const isProfileComplete = (user: User): boolean => {
@@ -119,18 +159,108 @@ export default function SwipeScreen() {
     });
   };
 
+  // Other searchers looking for roommates
+  // Anyone already swiped on (this session or a previous one) is left out of the deck
+  const getPotentialRoommates = (): User[] => {
+    if (!currentUser) return [];
+    const swipedUserIds = getSwipedIds("user");
+    return users.filter(
+      (user) =>
+        user.id !== currentUser.id &&
+        !swipedUserIds.has(user.id) &&
+        !user.isSuspended &&
+        user.userType === "searcher" &&
+        (user.lookingFor === "roommates" || user.lookingFor === "both")
+    );
+  };
+
+  const roommateDeckKey = currentUser ? `roommates:${currentUser.id}` : "";
+
+  // Restore the dealt order so a restart picks up where the user left off
+  useEffect(() => {
+    if (!roommateDeckKey) return;
+    let cancelled = false;
+    setRoommateDeck(null);
+    loadDeckState(roommateDeckKey).then((state) => {
+      if (!cancelled) setRoommateDeck(state);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [roommateDeckKey]);
+
+  const updateRoommateDeck = (state: DeckState) => {
+    setRoommateDeck(state);
+    saveDeckState(roommateDeckKey, state);
+  };
+
+  // Deal the next page of the deck; once it's exhausted, refill it once with
+  // a relaxed threshold instead of ending on "You've seen everyone!"
+  // Only undealt candidates are re-ranked with the learned model.
+  const loadMoreRoommates = () => {
+    if (!currentUser || !roommateDeck || !roommatePool) return;
+
+    // Swiped cards never come back, so they don't need to stay in the deck
+    const swipedUserIds = getSwipedIds("user");
+    const deck: DeckState = {
+      ...roommateDeck,
+      dealtIds: roommateDeck.dealtIds.filter((id) => !swipedUserIds.has(id)),
+    };
+    const recentIds = deck.dealtIds.slice(-5);
+    const dealOptions = {
+      seed: currentUser.id,
+      getClusters: getRoommateClusters,
+      recent: users.filter((user) => recentIds.includes(user.id)),
+      rank: (undealt: Recommendation<User>[]) =>
+        rerankRecommendations(rankingModel, "roommate", undealt),
+    };
+
+    const dealt = dealDeckPage(deck, roommatePool, dealOptions);
+    if (dealt.page.length > 0 || deck.isRelaxed) {
+      updateRoommateDeck(dealt.state);
+      return;
+    }
+
+    const relaxedPool = recommendRoommates(
+      currentUser,
+      getPotentialRoommates(),
+      { threshold: RELAXED_THRESHOLD, excludeIds: blockedUserIds }
+    );
+    const refill = dealDeckPage(
+      { ...deck, isRelaxed: true },
+      relaxedPool,
+      dealOptions
+    );
+    console.log("Relaxed roommate refill:", refill.page.length);
+    setRoommatePool(relaxedPool);
+    setRoommateMatches(
+      new Map(relaxedPool.map((rec) => [rec.item.id, rec]))
+    );
+    updateRoommateDeck(refill.state);
+  };
+
+  // Dealt cards still in the pool (not swiped, blocked or filtered out since)
+  const roommatePoolById = new Map(
+    (roommatePool || []).map((rec) => [rec.item.id, rec.item])
+  );
+  const roommates: User[] = (roommateDeck?.dealtIds || [])
+    .map((id) => roommatePoolById.get(id))
+    .filter((user): user is User => user !== undefined);
+  const dealtRoommateIds = new Set(roommateDeck?.dealtIds || []);
+  const canLoadMoreRoommates =
+    roommateDeck !== null &&
+    roommatePool !== null &&
+    (!roommateDeck.isRelaxed ||
+      roommatePool.some((rec) => !dealtRoommateIds.has(rec.item.id)));
+
+  const isRoommateDeckRelaxed = roommateDeck?.isRelaxed === true;
+
   useEffect(() => {
     if (!currentUser) return;
 
     // Filter users based on what current user is looking for
     if (currentUser.userType === "searcher") {
-      // Get potential roommates (other searchers looking for roommates)
-      const potentialRoommates = users.filter(
-        (user) =>
-          user.id !== currentUser.id &&
-          user.userType === "searcher" &&
-          (user.lookingFor === "roommates" || user.lookingFor === "both")
-      );
+      const potentialRoommates = getPotentialRoommates();
 
       console.log("=== ROOMMATE RECOMMENDATIONS DEBUG ===");
       console.log("Current User:", {
@@ -172,111 +302,59 @@ export default function SwipeScreen() {
         }))
       );
 
-      // Use recommendation algorithm to rank roommates
-      const recommendations = getRecommendedRoommates(
+      // Use recommendation algorithm to score roommates; the deck deals them
+      // a page at a time (see loadMoreRoommates)
+      const { results: recommendations, funnel } = recommendWithFunnel(
+        "roommate",
         currentUser,
         potentialRoommates,
-        0.3
+        {
+          threshold: isRoommateDeckRelaxed ? RELAXED_THRESHOLD : 0.3,
+          excludeIds: blockedUserIds,
+        }
       );
       console.log("Recommendations (after algorithm):", recommendations.length);
+      console.log("Recommendation funnel:", funnel);
       console.log(
         "Recommendations with scores:",
         recommendations.map((r) => ({
-          name: (r.candidate as User).name,
+          name: r.item.name,
           score: r.score,
-          city:
-            (r.candidate as User).preferredCity ||
-            (r.candidate as User).location,
+          directionalScores: r.directionalScores,
+          city: r.item.preferredCity || r.item.location,
+          reasons: r.reasons,
         }))
       );
 
-      const rankedRoommates = recommendations.map(
-        (rec) => rec.candidate as User
-      );
-      setRoommates(rankedRoommates);
-      console.log("Final Roommates Count:", rankedRoommates.length);
-      console.log(
-        "Roommates Set:",
-        rankedRoommates.map((r) => r.name)
+      setRoommatePool(recommendations);
+      setRoommateMatches(
+        new Map(recommendations.map((rec) => [rec.item.id, rec]))
       );
+      setDealbreakerRemovals(getDealbreakerRemovals(funnel));
       console.log("=====================================");
 
       // Fetch listings from Supabase and Datafiniti
       const fetchListings = async () => {
         try {
           // Fetch user-created listings from Supabase
-          const { data: supabaseListings, error: supabaseError } =
-            await supabase
-              .from("listings")
-              .select("*")
-              .order("created_at", { ascending: false });
-
-          if (supabaseError) {
-            console.error(
-              "Error fetching listings from Supabase:",
-              supabaseError
-            );
-          }
-
-          // Transform Supabase listings and fetch photos
-          const userListings: Listing[] = await Promise.all(
-            (supabaseListings || []).map(async (item: any) => {
-              // Fetch photos for this listing
-              const { data: photosData } = await supabase
-                .from("listing_photos")
-                .select("photo_url")
-                .eq("listing_id", item.id)
-                .order("photo_order", { ascending: true });
-
-              return {
-                id: item.id,
-                ownerId: item.owner_id,
-                title: item.title || "",
-                description: item.description || "",
-                address: item.address,
-                city: item.city,
-                state: item.state,
-                zipCode: item.zip_code || "",
-                price: item.price || 0,
-                latitude: item.latitude,
-                longitude: item.longitude,
-                photos: (photosData || []).map((p: any) => p.photo_url),
-                bedrooms: item.bedrooms,
-                bathrooms: item.bathrooms,
-                squareFeet: item.square_feet,
-                availableDate: item.available_date,
-                createdAt: new Date(item.created_at).getTime(),
-                updatedAt: new Date(item.updated_at).getTime(),
-              };
-            })
-          );
-
-          // Transform external properties to Listing format
-          const externalListings: Listing[] = datafinitiProperties.map(
-            (prop: Property) => ({
-              id: prop.id,
-              ownerId: "", // External listings don't have owners
-              title: `${prop.address}, ${prop.city}`,
-              description: prop.description || "", // Include description from external source
-              address: prop.address,
-              city: prop.city,
-              state: prop.state,
-              zipCode: "",
-              price: prop.price,
-              latitude: prop.latitude,
-              longitude: prop.longitude,
-              photos: [], // External listings get one photo assigned in ListingCard
-              bedrooms: prop.numBedrooms,
-              bathrooms: prop.numBathrooms,
-              squareFeet: undefined,
-              availableDate: undefined,
-              createdAt: Date.now(),
-              updatedAt: Date.now(),
-            })
+          const userListings: Listing[] = await getRepositories()
+            .listings.list()
+            .catch((error) => {
+              console.error("Error fetching listings from Supabase:", error);
+              return [];
+            });
+
+          // External listings from the listing providers
+          const externalListings: Listing[] = excludeUserListings(
+            datafinitiProperties,
+            userListings
           );
 
           // Combine all listings (user-created and external only - no mock data)
-          const allListings = [...userListings, ...externalListings];
+          // Listings hidden by an admin after a report are left out
+          const allListings = [...userListings, ...externalListings].filter(
+            (listing) => !hiddenListingIds.has(listing.id)
+          );
 
           console.log("=== LISTING RECOMMENDATIONS DEBUG ===");
           console.log("Current User for Listings:", {
@@ -310,10 +388,10 @@ export default function SwipeScreen() {
           );
 
           // Use recommendation algorithm to rank listings
-          const listingRecommendations = getRecommendedListings(
-            currentUser,
-            allListings,
-            0.3
+          const listingRecommendations = rerankRecommendations(
+            rankingModel,
+            "listing",
+            recommendListings(currentUser, allListings, { threshold: 0.3 })
           );
           console.log(
             "Listing Recommendations (after algorithm):",
@@ -322,17 +400,21 @@ export default function SwipeScreen() {
           console.log(
             "Listing Recommendations with scores:",
             listingRecommendations.map((r) => ({
-              address: (r.candidate as Listing).address,
-              city: (r.candidate as Listing).city,
-              price: (r.candidate as Listing).price,
+              address: r.item.address,
+              city: r.item.city,
+              price: r.item.price,
               score: r.score,
+              reasons: r.reasons,
             }))
           );
 
           const rankedListings = listingRecommendations.map(
-            (rec) => rec.candidate as Listing
+            (rec) => rec.item
           );
           setListings(rankedListings);
+          setListingMatches(
+            new Map(listingRecommendations.map((rec) => [rec.item.id, rec]))
+          );
           console.log("Final Listings Count:", rankedListings.length);
           console.log("====================================");
         } catch (error) {
@@ -343,7 +425,7 @@ export default function SwipeScreen() {
 
       fetchListings();
     }
-  }, [currentUser, users, datafinitiProperties]);
+  }, [currentUser, users, datafinitiProperties, isRoommateDeckRelaxed]);
 
   if (!currentUser) {
     return (
@@ -475,13 +557,25 @@ export default function SwipeScreen() {
       >
         {showRoommatesTab && (
           <Tab.Screen name="Roommates">
-            {() => <RoommatesTab roommates={roommates} />}
+            {() => (
+              <RoommatesTab
+                roommates={roommates}
+                matches={roommateMatches}
+                dealbreakerRemovals={dealbreakerRemovals}
+                canLoadMore={canLoadMoreRoommates}
+                onLoadMore={loadMoreRoommates}
+              />
+            )}
           </Tab.Screen>
         )}
         {showHousesTab && (
           <Tab.Screen name="Houses">
             {() => (
-              <HousesTab listings={listings} isHousingOnly={isHousingOnly} />
+              <HousesTab
+                listings={listings}
+                matches={listingMatches}
+                isHousingOnly={isHousingOnly}
+              />
             )}
           </Tab.Screen>
         )}
@@ -490,11 +584,32 @@ export default function SwipeScreen() {
   );
 }
 
-function RoommatesTab({ roommates }: { roommates: User[] }) {
-  const { currentUser, sendMessage } = useUser();
-  const [currentIndex, setCurrentIndex] = useState(0);
+function RoommatesTab({
+  roommates,
+  matches,
+  dealbreakerRemovals,
+  canLoadMore,
+  onLoadMore,
+}: {
+  roommates: User[];
+  matches: Map<string, Recommendation<User>>;
+  dealbreakerRemovals: { label: string; count: number }[];
+  canLoadMore: boolean;
+  onLoadMore: () => void;
+}) {
+  const {
+    currentUser,
+    sendMessage,
+    recordSwipe,
+    isMatchedWith,
+    unmatchUser,
+    blockUser,
+  } = useUser();
+  // The current card is the first dealt one not swiped yet, tracked by ID so
+  // the position survives the deck being rebuilt
   const [swipedUsers, setSwipedUsers] = useState<Set<string>>(new Set());
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
   const [showMessageModal, setShowMessageModal] = useState(false);
   const [showPromptModal, setShowPromptModal] = useState(false);
   const [selectedPrompt, setSelectedPrompt] = useState<{
@@ -508,6 +623,49 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
     ((direction: "left" | "right") => void) | null
   >(null);
 
+  const unseenRoommates = roommates.filter((user) => !swipedUsers.has(user.id));
+
+  // Deal the next page while the current card is the last one loaded
+  useEffect(() => {
+    if (canLoadMore && unseenRoommates.length <= 1) {
+      onLoadMore();
+    }
+  }, [canLoadMore, unseenRoommates.length]);
+
+  const hiddenByDealbreakers = dealbreakerRemovals.reduce(
+    (sum, removal) => sum + removal.count,
+    0
+  );
+
+  // Tappable summary of how many people the user's dealbreakers filtered out
+  const renderDealbreakerSummary = () => {
+    if (hiddenByDealbreakers === 0) return null;
+    return (
+      <TouchableOpacity
+        style={styles.dealbreakerSummary}
+        onPress={() =>
+          Alert.alert(
+            "Hidden by your dealbreakers",
+            dealbreakerRemovals
+              .map(
+                (removal) =>
+                  `${removal.label}: ${removal.count} ${
+                    removal.count === 1 ? "person" : "people"
+                  }`
+              )
+              .join("\n") + "\n\nYou can change dealbreakers in your profile."
+          )
+        }
+        activeOpacity={0.7}
+      >
+        <Ionicons name="funnel-outline" size={14} color="#6F4E37" />
+        <Text style={styles.dealbreakerSummaryText}>
+          {hiddenByDealbreakers} hidden by your dealbreakers
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   if (roommates.length === 0) {
     return (
       <View style={styles.emptyContainer}>
@@ -516,11 +674,12 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
         <Text style={styles.emptySubtext}>
           Check back later for new matches!
         </Text>
+        {renderDealbreakerSummary()}
       </View>
     );
   }
 
-  const currentRoommate = roommates[currentIndex];
+  const currentRoommate = unseenRoommates[0];
   if (!currentRoommate) {
     return (
       <View style={styles.emptyContainer}>
@@ -529,6 +688,7 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
         <Text style={styles.emptySubtext}>
           Check back later for new matches
         </Text>
+        {renderDealbreakerSummary()}
       </View>
     );
   }
@@ -541,9 +701,12 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
       // Fallback: just move to next
       setSwipedUsers(new Set([...swipedUsers, currentRoommate.id]));
       setIsExpanded(false);
-      if (currentIndex < roommates.length - 1) {
-        setCurrentIndex(currentIndex + 1);
-      }
+      recordSwipe(
+        currentRoommate.id,
+        "user",
+        direction,
+        matches.get(currentRoommate.id)?.breakdown
+      );
     }
   };
 
@@ -551,15 +714,54 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
     // This is called after animation completes
     setSwipedUsers(new Set([...swipedUsers, currentRoommate.id]));
     setIsExpanded(false);
-    if (currentIndex < roommates.length - 1) {
-      setCurrentIndex(currentIndex + 1);
-    }
+    recordSwipe(
+      currentRoommate.id,
+      "user",
+      direction,
+      matches.get(currentRoommate.id)?.breakdown
+    );
   };
 
   const handleChat = () => {
     setShowMessageModal(true);
   };
 
+  const handleUnmatch = () => {
+    Alert.alert(
+      "Unmatch",
+      `Are you sure you want to unmatch with ${currentRoommate.name}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Unmatch",
+          style: "destructive",
+          onPress: async () => {
+            await unmatchUser(currentRoommate.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleBlock = () => {
+    Alert.alert(
+      "Block",
+      `Block ${currentRoommate.name}? You won't see each other anywhere in the app.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Block",
+          style: "destructive",
+          onPress: async () => {
+            await blockUser(currentRoommate.id);
+            // Move past the blocked user
+            onCardSwipeComplete("left");
+          },
+        },
+      ]
+    );
+  };
+
   const handlePromptPress = (prompt: {
     id: string;
     promptText: string;
@@ -620,8 +822,12 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
 
   return (
     <View style={styles.swipeContainer}>
+      <View style={styles.dealbreakerSummaryOverlay}>
+        {renderDealbreakerSummary()}
+      </View>
       <RoommateCard
         user={currentRoommate}
+        match={matches.get(currentRoommate.id)}
         onSwipeLeft={() => onCardSwipeComplete("left")}
         onSwipeRight={() => onCardSwipeComplete("right")}
         isExpanded={isExpanded}
@@ -630,6 +836,7 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
           cardSwipeTriggerRef.current = triggerFn;
         }}
         onPromptPress={handlePromptPress}
+        onReport={() => setShowReportModal(true)}
       />
 
       {/* Expanded Profile Modal */}
@@ -673,6 +880,13 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
                 <Text style={styles.expandedAge}>{currentRoommate.age}</Text>
               </View>
 
+              {matches.get(currentRoommate.id) && (
+                <MatchBreakdown
+                  match={matches.get(currentRoommate.id)!}
+                  initiallyExpanded={true}
+                />
+              )}
+
               <View style={styles.expandedDetails}>
                 <View style={styles.expandedDetailRow}>
                   <Ionicons name="briefcase" size={20} color="#6F4E37" />
@@ -779,6 +993,50 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
                   </Text>
                 </View>
               )}
+
+              {/* Safety Actions */}
+              <View style={styles.expandedSafetySection}>
+                {isMatchedWith(currentRoommate.id) && (
+                  <TouchableOpacity
+                    style={styles.expandedSafetyButton}
+                    onPress={handleUnmatch}
+                  >
+                    <Ionicons name="heart-dislike" size={20} color="#6F4E37" />
+                    <Text style={styles.expandedSafetyButtonText}>Unmatch</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.expandedSafetyButton}
+                  onPress={handleBlock}
+                >
+                  <Ionicons name="ban" size={20} color="#FF3B30" />
+                  <Text
+                    style={[
+                      styles.expandedSafetyButtonText,
+                      styles.expandedSafetyButtonTextDestructive,
+                    ]}
+                  >
+                    Block {currentRoommate.name}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.expandedSafetyButton}
+                  onPress={() => {
+                    setIsExpanded(false);
+                    setShowReportModal(true);
+                  }}
+                >
+                  <Ionicons name="flag" size={20} color="#FF3B30" />
+                  <Text
+                    style={[
+                      styles.expandedSafetyButtonText,
+                      styles.expandedSafetyButtonTextDestructive,
+                    ]}
+                  >
+                    Report {currentRoommate.name}
+                  </Text>
+                </TouchableOpacity>
+              </View>
             </View>
           </ScrollView>
         </View>
@@ -993,6 +1251,14 @@ function RoommatesTab({ roommates }: { roommates: User[] }) {
           </KeyboardAvoidingView>
         </View>
       </Modal>
+
+      <ReportModal
+        visible={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        targetType="user"
+        targetId={currentRoommate.id}
+        targetName={currentRoommate.name}
+      />
     </View>
   );
 }
@@ -1100,9 +1366,11 @@ function RoommateConversionPrompt({
 
 function HousesTab({
   listings,
+  matches,
   isHousingOnly = false,
 }: {
   listings: Listing[];
+  matches: Map<string, Recommendation<Listing>>;
   isHousingOnly?: boolean;
 }) {
   const {
@@ -1112,8 +1380,9 @@ function HousesTab({
     updateUser,
     addLikedListing,
     getUserById,
+    recordSwipe,
   } = useUser();
-  const [currentIndex, setCurrentIndex] = useState(0);
+  // Tracked by ID, like the roommate deck, so re-ranking can't skip cards
   const [swipedListings, setSwipedListings] = useState<Set<string>>(new Set());
   const [isExpanded, setIsExpanded] = useState(false);
   const [showMessageModal, setShowMessageModal] = useState(false);
@@ -1122,6 +1391,7 @@ function HousesTab({
   const [showRoommatePrompt, setShowRoommatePrompt] = useState(false);
   const [totalSwipes, setTotalSwipes] = useState(0);
   const [expandedPhotoIndex, setExpandedPhotoIndex] = useState(0);
+  const [showReportModal, setShowReportModal] = useState(false);
   const cardSwipeTriggerRef = useRef<
     ((direction: "left" | "right") => void) | null
   >(null);
@@ -1138,7 +1408,10 @@ function HousesTab({
     );
   }
 
-  const currentListing = listings[currentIndex];
+  const unseenListings = listings.filter(
+    (listing) => !swipedListings.has(listing.id)
+  );
+  const currentListing = unseenListings[0];
   if (!currentListing) {
     return (
       <View style={styles.emptyContainer}>
@@ -1159,8 +1432,14 @@ function HousesTab({
       // Fallback: just move to next
       setSwipedListings(new Set([...swipedListings, currentListing.id]));
       setIsExpanded(false);
+      recordSwipe(
+        currentListing.id,
+        "listing",
+        direction,
+        matches.get(currentListing.id)?.breakdown
+      );
       if (direction === "right") {
-        await addLikedListing(currentListing.id);
+        await addLikedListing(currentListing);
       }
 
       // Track swipes for housing-only users
@@ -1169,14 +1448,10 @@ function HousesTab({
         setTotalSwipes(newTotalSwipes);
 
         // Show prompt after 50 swipes or when all listings are swiped
-        if (newTotalSwipes >= 50 || currentIndex >= listings.length - 1) {
+        if (newTotalSwipes >= 50 || unseenListings.length <= 1) {
           setShowRoommatePrompt(true);
         }
       }
-
-      if (currentIndex < listings.length - 1) {
-        setCurrentIndex(currentIndex + 1);
-      }
     }
   };
 
@@ -1184,8 +1459,14 @@ function HousesTab({
     // This is called after animation completes
     setSwipedListings(new Set([...swipedListings, currentListing.id]));
     setIsExpanded(false);
+    recordSwipe(
+      currentListing.id,
+      "listing",
+      direction,
+      matches.get(currentListing.id)?.breakdown
+    );
     if (direction === "right") {
-      await addLikedListing(currentListing.id);
+      await addLikedListing(currentListing);
     }
 
     // Track swipes for housing-only users
@@ -1194,14 +1475,10 @@ function HousesTab({
       setTotalSwipes(newTotalSwipes);
 
       // Show prompt after 50 swipes or when all listings are swiped
-      if (newTotalSwipes >= 50 || currentIndex >= listings.length - 1) {
+      if (newTotalSwipes >= 50 || unseenListings.length <= 1) {
         setShowRoommatePrompt(true);
       }
     }
-
-    if (currentIndex < listings.length - 1) {
-      setCurrentIndex(currentIndex + 1);
-    }
   };
 
   const handleConvertToBoth = async () => {
@@ -1220,10 +1497,10 @@ function HousesTab({
   };
 
   // Check if listing has an owner (user-created listings can be messaged, external cannot)
-  const hasOwner = currentListing.ownerId && currentListing.ownerId !== "";
+  const hasOwner = currentListing.source === "user" && !!currentListing.ownerId;
 
   const handleChat = () => {
-    // Check if this is an external listing (no ownerId)
+    // Check if this is an external listing (no owner to message)
     if (!hasOwner) {
       Alert.alert(
         "External Listing",
@@ -1311,6 +1588,7 @@ function HousesTab({
       )}
       <ListingCard
         listing={currentListing}
+        match={matches.get(currentListing.id)}
         onSwipeLeft={() => onCardSwipeComplete("left")}
         onSwipeRight={() => onCardSwipeComplete("right")}
         isExpanded={isExpanded}
@@ -1318,6 +1596,7 @@ function HousesTab({
         onSwipeTrigger={(triggerFn) => {
           cardSwipeTriggerRef.current = triggerFn;
         }}
+        onReport={() => setShowReportModal(true)}
       />
 
       {/* Expanded Listing Modal */}
@@ -1346,8 +1625,7 @@ function HousesTab({
             <View style={styles.expandedPhotoContainer}>
               {(() => {
                 // Get photos: user-uploaded photos take priority, otherwise use random photos
-                const isExternalListing =
-                  !currentListing.ownerId || currentListing.ownerId === "";
+                const isExternalListing = currentListing.source === "external";
                 const maxPhotos = isExternalListing ? 1 : 4;
                 const photos =
                   currentListing.photos && currentListing.photos.length > 0
@@ -1602,7 +1880,9 @@ function HousesTab({
                       {(() => {
                         const owner =
                           users.find((u) => u.id === currentListing.ownerId) ||
-                          getUserById(currentListing.ownerId);
+                          (currentListing.ownerId
+                            ? getUserById(currentListing.ownerId)
+                            : undefined);
                         return owner?.profilePicture ? (
                           <Image
                             source={{ uri: owner.profilePicture }}
@@ -1621,7 +1901,9 @@ function HousesTab({
                       {(() => {
                         const owner =
                           users.find((u) => u.id === currentListing.ownerId) ||
-                          getUserById(currentListing.ownerId);
+                          (currentListing.ownerId
+                            ? getUserById(currentListing.ownerId)
+                            : undefined);
                         return owner?.name || "Listing Owner";
                       })()}
                     </Text>
@@ -1668,6 +1950,14 @@ function HousesTab({
           </View>
         </Modal>
       )}
+
+      <ReportModal
+        visible={showReportModal}
+        onClose={() => setShowReportModal(false)}
+        targetType="listing"
+        targetId={currentListing.id}
+        targetName={currentListing.title || currentListing.address}
+      />
     </View>
   );
 }
@@ -1700,6 +1990,29 @@ const styles = StyleSheet.create({
     color: "#A68B7B",
     textAlign: "center",
   },
+  dealbreakerSummary: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#FFF5E1",
+    borderWidth: 1,
+    borderColor: "#E8D5C4",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginVertical: 8,
+  },
+  dealbreakerSummaryOverlay: {
+    position: "absolute",
+    top: 16,
+    zIndex: 10,
+    elevation: 10,
+  },
+  dealbreakerSummaryText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#6F4E37",
+  },
   noUserText: {
     fontSize: 18,
     color: "#6F4E37",
@@ -2011,6 +2324,28 @@ const styles = StyleSheet.create({
   expandedDescriptionSection: {
     marginBottom: 24,
   },
+  expandedSafetySection: {
+    marginTop: 24,
+    marginBottom: 24,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#E8D5C4",
+    gap: 4,
+  },
+  expandedSafetyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    gap: 12,
+  },
+  expandedSafetyButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#6F4E37",
+  },
+  expandedSafetyButtonTextDestructive: {
+    color: "#FF3B30",
+  },
   expandedContactSection: {
     marginTop: 24,
     marginBottom: 24,
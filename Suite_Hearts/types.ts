@@ -5,19 +5,40 @@ export type RootStackParamList = {
   SignUp: { email?: string } | undefined;
   Home: undefined;
   Chat: { userId: string; userName: string } | undefined;
-  Conversation: { userId: string; userName: string };
-  ListingDetail: { listingId?: string; listing?: Listing | Property };
+  // conversationId opens a group chat; highlightMessageId jumps to a message (from search)
+  Conversation: { userId?: string; userName: string; conversationId?: string; highlightMessageId?: string };
+  ListingDetail: { listingId?: string; listing?: Listing };
+  ReportReview: undefined;
 };
 
 export type HomeStackParamList = {
   PropertyList: undefined;
   Map: undefined;
-  ListingDetail: { listingId?: string; listing?: Listing | Property };
+  ListingDetail: { listingId?: string; listing?: Listing };
 };
 
 export type UserType = 'homeowner' | 'searcher';
 export type LookingFor = 'roommates' | 'housing' | 'both';
 
+// How much a searcher cares about each part of a match, 1 (not important) to 5 (essential)
+export type MatchPriorityKey = 'budget' | 'cleanliness' | 'sleepSchedule' | 'pets' | 'guests' | 'demographics';
+export type MatchPriorities = Partial<Record<MatchPriorityKey, number>>;
+
+// Roommate traits a searcher refuses to live with (candidates with them are never recommended)
+export type DealbreakerId = 'smoking' | 'pets' | 'guests' | 'drugs' | 'drinking';
+
+// How a searcher gets to their campus / office
+export type CommuteMode = 'walk' | 'bike' | 'transit' | 'drive';
+
+// A place the searcher commutes to, pinned on the map
+export interface CommuteAnchor {
+  id: string;
+  label: string; // e.g. their university or job place
+  kind: 'campus' | 'work';
+  latitude: number;
+  longitude: number;
+}
+
 export interface User {
   id: string;
   userType: UserType;
@@ -59,6 +80,13 @@ export interface User {
   minBudget?: number; // Monthly budget min (must be > 400)
   maxBudget?: number; // Monthly budget max
   leaseDuration?: number | string; // "Under 1 month" to "12 months"
+  matchPriorities?: MatchPriorities; // "What matters most to me" (only for searchers)
+  dealbreakers?: DealbreakerId[]; // Only for searchers
+  commuteAnchors?: CommuteAnchor[]; // Campus / office pins (only for searchers)
+  commuteMode?: CommuteMode; // Defaults to transit
+  maxCommuteMinutes?: number; // Listings with a longer commute are filtered out; unset = no limit
+  isAdmin?: boolean; // Can review reports
+  isSuspended?: boolean; // Suspended by an admin, hidden from everyone else
   createdAt: number;
 }
 
@@ -68,13 +96,19 @@ export interface UserPrompt {
   answer: string;
 }
 
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
 export interface Message {
   id: string;
   senderId: string;
-  receiverId: string;
+  receiverId: string; // For group chat messages this is the conversation ID
+  conversationId?: string; // Set on group chat messages only
   text: string;
   imageUrl?: string; // Optional image URL
   timestamp: number;
+  status?: MessageStatus; // Delivery state (missing on messages from before read receipts)
+  // One recipient's own `messages` row of a fanned-out group message (id is the shared group ID)
+  copy?: { rowId: string; receiverId: string };
 }
 
 export interface Conversation {
@@ -84,6 +118,7 @@ export interface Conversation {
   lastMessage?: Message;
   isGroup: boolean;
   groupName?: string; // Optional name for group chats
+  lastReadAt?: Record<string, number>; // Participant ID -> when they last read the conversation
   updatedAt: number;
 }
 
@@ -104,9 +139,57 @@ export interface Match {
   isActive: boolean; // Can be unmatched
 }
 
+export interface Block {
+  id: string;
+  blockerId: string; // User who blocked
+  blockedId: string; // User who was blocked
+  createdAt: number;
+}
+
+export type ReportReason =
+  | 'harassment'
+  | 'scam'
+  | 'fake_profile'
+  | 'inappropriate_content'
+  | 'misleading_listing'
+  | 'other';
+
+export interface Report {
+  id: string;
+  reporterId: string; // User who filed the report
+  targetType: 'user' | 'listing';
+  targetId: string; // Reported user or listing ID
+  reason: ReportReason;
+  details: string; // Free text from the reporter
+  messageIds?: string[]; // Offending messages, when reported from a conversation
+  status: 'open' | 'dismissed' | 'actioned';
+  reviewedBy?: string; // Admin who closed the report
+  reviewedAt?: number;
+  createdAt: number;
+}
+
+// Where a listing comes from: posted in the app by a homeowner, or from a listing provider
+export type ListingSource = 'user' | 'external';
+
+export interface ListingProvenance {
+  providerId: string; // 'supabase' for listings posted in the app, else the provider ('datafiniti', 'local', 'mock')
+  externalId?: string; // The listing's ID at the provider, when it differs from Listing.id
+  fetchedAt?: number;
+}
+
+export interface ListingAvailability {
+  type?: 'rental' | 'sublet';
+  availableFrom?: string; // ISO date
+  availableUntil?: string; // ISO date, for sublets and fixed-term leases
+  summary?: string; // As the source put it, e.g. "Available for sublet from 06/15/25 - 08/31/25"
+}
+
+// The one listing model every screen and the recommenders use, whatever the source
 export interface Listing {
   id: string;
-  ownerId: string; // User ID of the homeowner
+  source: ListingSource;
+  provenance: ListingProvenance;
+  ownerId?: string; // User ID of the homeowner (only listings posted in the app have one)
   title: string;
   description: string;
   address: string;
@@ -121,6 +204,15 @@ export interface Listing {
   bathrooms?: number;
   squareFeet?: number;
   availableDate?: string;
+  spaceType?: string; // 'Apartment', 'House', ... (same options as User.spaceType)
+  isHidden?: boolean; // Hidden by an admin after a report
+  // Richer details, mostly from listing providers
+  availability?: ListingAvailability;
+  amenities?: string[]; // e.g. "Dishwasher", "In-unit laundry"
+  utilities?: string;
+  petPolicy?: string;
+  yearBuilt?: number;
+  propertyType?: string; // As the provider describes it, e.g. "Single Family Dwelling"
   createdAt: number;
   updatedAt: number;
 }
\ No newline at end of file